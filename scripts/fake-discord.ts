@@ -0,0 +1,63 @@
+/**
+ * @file fake-discord.ts
+ * @description Runs the fake Discord server with a seeded demo guild for offline development
+ * @module scripts/fake-discord
+ *
+ * Usage: npm run discord:fake [-- --port <port>] [-- --members <count>]
+ * Start the app with the printed DISCORD_API_URL and DISCORD_TOKEN to run the bot against it.
+ */
+
+import { FakeDiscordServer } from '@/testing/fake-discord';
+
+/**
+ * Reads a numeric command line flag
+ * @param {string} name - The flag name without dashes
+ * @param {number} fallback - Value used when the flag is missing
+ * @returns {number} The flag value
+ */
+function readFlag(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index !== -1 ? Number(process.argv[index + 1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Starts the server and seeds a guild whose members wear a mix of tags
+ * @async
+ * @returns {Promise<void>}
+ */
+async function main() {
+  const fake = new FakeDiscordServer();
+  await fake.start(readFlag('port', 4010));
+
+  const partner = fake.addGuild({ name: 'Partner Server' });
+  const guild = fake.addGuild({ name: 'Demo Server' });
+  const tagRole = fake.addRole(guild.id, { name: 'Tag Wearer', color: 0x84cc16 });
+  const partnerRole = fake.addRole(guild.id, { name: 'Partner Tag', color: 0x3b82f6 });
+  const logChannel = fake.addChannel(guild.id, { name: 'tag-log' });
+
+  const memberCount = readFlag('members', 25);
+  for (let index = 0; index < memberCount; index++) {
+    fake.addMember(guild.id, {
+      username: `member${index}`,
+      primaryGuildId: index % 3 === 0 ? guild.id : index % 5 === 0 ? partner.id : null,
+    });
+  }
+
+  console.log('Fake Discord server running');
+  console.log(`  DISCORD_API_URL=${fake.apiUrl}`);
+  console.log(`  DISCORD_TOKEN=${fake.token}`);
+  console.log(`Guild ${guild.id} (${guild.name}): tag role ${tagRole.id}, partner role ${partnerRole.id} for ${partner.id}, log channel ${logChannel.id}`);
+
+  const shutdown = async () => {
+    await fake.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Failed to start fake Discord server:', error);
+  process.exit(1);
+});
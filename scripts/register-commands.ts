@@ -0,0 +1,43 @@
+/**
+ * @file register-commands.ts
+ * @description Publishes the bot's slash command definitions to Discord
+ * @module scripts/register-commands
+ *
+ * Usage: npm run commands:register [-- --guild <guildId>]
+ * Passing a guild ID registers the commands to that guild only, which updates instantly
+ * and is useful during development. Without it the commands are registered globally.
+ */
+
+import { REST, Routes } from 'discord.js';
+import { commandDefinitions } from '@/lib/commands';
+
+/**
+ * Registers the command definitions globally or for a single guild
+ * @async
+ * @returns {Promise<void>}
+ */
+async function main() {
+  const token = process.env.DISCORD_TOKEN;
+  const clientId = process.env.NEXT_PUBLIC_DISCORD_CLIENT_ID;
+
+  if (!token || !clientId) {
+    throw new Error('DISCORD_TOKEN and NEXT_PUBLIC_DISCORD_CLIENT_ID must be set');
+  }
+
+  const guildFlag = process.argv.indexOf('--guild');
+  const guildId = guildFlag !== -1 ? process.argv[guildFlag + 1] : undefined;
+
+  const rest = new REST({ version: '10' }).setToken(token);
+  const route = guildId
+    ? Routes.applicationGuildCommands(clientId, guildId)
+    : Routes.applicationCommands(clientId);
+
+  console.log(`Registering ${commandDefinitions.length} command(s) ${guildId ? `to guild ${guildId}` : 'globally'}...`);
+  await rest.put(route, { body: commandDefinitions });
+  console.log('Commands registered successfully');
+}
+
+main().catch((error) => {
+  console.error('Failed to register commands:', error);
+  process.exit(1);
+});
@@ -7,7 +7,9 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { isBotAdmin } from '@/lib/guild-auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 // Force this route to be server-side only
 export const dynamic = 'force-dynamic';
@@ -38,7 +40,7 @@ export async function GET() {
       }))
     });
   } catch (error) {
-    console.error('Error getting bot status:', error);
+    logger.error('Error getting bot status', { error });
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -46,32 +48,64 @@ export async function GET() {
   }
 }
 
+type BotAction = 'start' | 'stop' | 'restart' | 'reload';
+
+const BOT_ACTIONS: BotAction[] = ['start', 'stop', 'restart', 'reload'];
+
 /**
  * POST handler for bot API route
  * @async
  * @function POST
+ * @param {Request} request - The incoming request, optionally with a JSON body of `{ action }`;
+ * without an action the bot is toggled between started and stopped
  * @returns {Promise<NextResponse>} Bot operation response
  */
-export async function POST() {
+export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const isLoggedIn = botService.isLoggedIn();
-    if (isLoggedIn) {
-      // Since there's no stop method, we'll just return an error
+    const body = await request.json().catch(() => ({}));
+    const action: BotAction = body?.action ?? (botService.isLoggedIn() ? 'stop' : 'start');
+    if (!BOT_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${BOT_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Every action affects every guild, so only bot administrators may control the bot
+    if (!isBotAdmin(session.user?.id)) {
       return NextResponse.json(
-        { error: 'Bot stop functionality not implemented' },
-        { status: 501 }
+        { error: 'Only bot administrators can control the bot' },
+        { status: 403 }
       );
-    } else {
-      await botService.start();
-      return NextResponse.json({ success: true });
     }
+
+    switch (action) {
+      case 'start':
+        await botService.start();
+        break;
+      case 'stop':
+        await botService.stop();
+        break;
+      case 'restart':
+        await botService.restart();
+        break;
+      case 'reload':
+        await botService.reload();
+        break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      action,
+      isRunning: botService.isLoggedIn()
+    });
   } catch (error) {
-    console.error('Error toggling bot status:', error);
+    logger.error('Error controlling bot', { error });
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 /**
  * POST handler for bot start API route
@@ -25,7 +26,7 @@ export async function POST() {
     await botService.start();
     return NextResponse.json({ success: true, message: 'Bot started successfully' });
   } catch (error) {
-    console.error('Error starting bot:', error);
+    logger.error('Error starting bot', { error });
     return NextResponse.json(
       { error: 'Failed to start bot' },
       { status: 500 }
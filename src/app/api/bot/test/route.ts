@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 /**
  * POST handler for bot test API route
@@ -35,7 +36,7 @@ export async function POST() {
       }))
     });
   } catch (error) {
-    console.error('Error testing bot:', error);
+    logger.error('Error testing bot', { error });
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -5,10 +5,10 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { authorizeGuild } from '@/lib/guild-auth';
 import { botService } from '@/services/bot';
 import { ensureBotStarted } from '@/lib/server-init';
+import { logger } from '@/utils/logger';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -27,21 +27,21 @@ export async function GET(
   context: { params: Promise<{ guildId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
     }
 
     // Ensure bot is started
     try {
       await ensureBotStarted();
     } catch (error) {
-      console.error('Failed to start bot:', error);
+      logger.error('Failed to start bot', { error });
       return NextResponse.json({ error: 'Bot is not ready' }, { status: 503 });
     }
 
     // Get guild from bot's cache
-    const { guildId } = await context.params;
     const guild = await botService.fetchGuild(guildId);
     
     if (!guild) {
@@ -68,7 +68,7 @@ export async function GET(
 
     return NextResponse.json(channelsArray);
   } catch (error) {
-    console.error('Error fetching channels:', error);
+    logger.error('Error fetching channels', { error });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 } 
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * @file route.ts
+ * @description Health API route for checking the bot's roles and permissions against a guild's configuration
+ * @module app/api/guilds/[guildId]/health/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { botService } from '@/services/bot';
+import { ensureBotStarted } from '@/lib/server-init';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for health API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The guild's health report listing any problems found, without updating its status or alerting anyone
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    // Ensure bot is started
+    try {
+      await ensureBotStarted();
+    } catch (error) {
+      logger.error('Failed to start bot', { error });
+      return NextResponse.json({ error: 'Bot is not ready' }, { status: 503 });
+    }
+
+    const report = await botService.getGuildHealth(guildId);
+    if (!report) {
+      return NextResponse.json({ error: 'Guild is not configured' }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    logger.error('Error checking guild health', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @file route.ts
+ * @description Role change history API route for browsing a guild's audit log
+ * @module app/api/guilds/[guildId]/history/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parses an optional date query parameter
+ * @param {string | null} value - The raw parameter value
+ * @returns {Date | null | undefined} The date, undefined if absent, or null if invalid
+ */
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET handler for role change history API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request; supports `page`, `pageSize`, `userId`, `action`, `from` and `to` query parameters
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} A page of role change entries, newest first
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(searchParams.get('pageSize') || '') || DEFAULT_PAGE_SIZE)
+    );
+    const userId = searchParams.get('userId') || undefined;
+    const action = searchParams.get('action') || undefined;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+
+    if (action && action !== 'add' && action !== 'remove') {
+      return NextResponse.json({ error: 'Action must be "add" or "remove"' }, { status: 400 });
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const where = {
+      guildId,
+      userId,
+      action,
+      createdAt: from || to ? { gte: from, lte: to } : undefined,
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.roleChangeLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.roleChangeLog.count({ where }),
+    ]);
+
+    return NextResponse.json({ entries, total, page, pageSize });
+  } catch (error) {
+    logger.error('Error fetching role change history', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @file route.ts
+ * @description Onboarding API route for following the first live sync of a newly configured guild
+ * @module app/api/guilds/[guildId]/onboarding/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for onboarding API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The onboarding progress, or null if the guild has no onboarding job
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const progress = await botService.getOnboardingProgress(guildId);
+    return NextResponse.json(progress);
+  } catch (error) {
+    logger.error('Error fetching onboarding progress', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
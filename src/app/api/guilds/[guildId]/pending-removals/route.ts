@@ -0,0 +1,46 @@
+/**
+ * @file route.ts
+ * @description Pending role removals API route for listing removals waiting out a guild's grace period
+ * @module app/api/guilds/[guildId]/pending-removals/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for pending role removals API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The guild's pending removals, soonest first
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const removals = await prisma.pendingRoleRemoval.findMany({
+      where: { guildId },
+      orderBy: { removeAfter: 'asc' },
+      select: { userId: true, roleId: true, removeAfter: true, createdAt: true },
+    });
+
+    return NextResponse.json({ removals });
+  } catch (error) {
+    logger.error('Error fetching pending role removals', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @file route.ts
+ * @description Preview API route for projecting role changes before a guild goes live
+ * @module app/api/guilds/[guildId]/preview/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { prisma } from '@/lib/prisma';
+import { botService, SyncAbortedError } from '@/services/bot';
+import { ensureBotStarted } from '@/lib/server-init';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for preview API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request; pass `refresh=true` to recompute the preview
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The projected role adds and removes, with 409 if the setup has problems that stop syncs
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    // Ensure bot is started
+    try {
+      await ensureBotStarted();
+    } catch (error) {
+      logger.error('Failed to start bot', { error });
+      return NextResponse.json({ error: 'Bot is not ready' }, { status: 503 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cached = searchParams.get('refresh') === 'true' ? null : botService.getPreview(guildId);
+    const preview = cached ?? await botService.previewGuild(guildId);
+
+    if (!preview) {
+      return NextResponse.json({ error: 'Guild is not configured' }, { status: 404 });
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof SyncAbortedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    logger.error('Error computing preview', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler for preview API route, used to turn preview mode on or off
+ * @async
+ * @function POST
+ * @param {Request} request - The incoming request containing `{ enabled: boolean }`
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The updated preview mode
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const { enabled } = await request.json();
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'Enabled must be a boolean' }, { status: 400 });
+    }
+
+    const existing = await prisma.guildConfig.findUnique({ where: { guildId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Guild is not configured' }, { status: 404 });
+    }
+
+    const config = await prisma.guildConfig.update({
+      where: { guildId },
+      data: { previewMode: enabled },
+    });
+
+    // Going live applies the previewed changes right away
+    if (!enabled) {
+      botService.syncGuild(guildId).catch(error => {
+        logger.error('Error syncing guild after leaving preview mode', { guildId, error });
+      });
+    }
+
+    return NextResponse.json({ previewMode: config.previewMode });
+  } catch (error) {
+    logger.error('Error updating preview mode', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
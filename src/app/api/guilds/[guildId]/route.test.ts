@@ -0,0 +1,99 @@
+/**
+ * @file route.test.ts
+ * @description Tests that the guild configuration route only serves guilds the caller can manage
+ * @module app/api/guilds/[guildId]/route.test
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PermissionFlagsBits } from 'discord.js';
+import { getServerSession } from 'next-auth';
+import { FakeDiscordServer, FakeGuild } from '@/testing/fake-discord';
+import { getGuildConfig } from '@/lib/guild-config';
+import { buildSession } from '@/testing/session';
+import { GET } from './route';
+
+const discord = vi.hoisted(() => ({ apiUrl: '' }));
+
+vi.mock('@/lib/discord-api', () => ({
+  get DISCORD_API_URL() {
+    return discord.apiUrl;
+  },
+}));
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/services/bot', () => ({ botService: { fetchGuild: vi.fn().mockResolvedValue(null) } }));
+vi.mock('@/lib/guild-config', () => ({ getGuildConfig: vi.fn() }));
+
+describe('GET /api/guilds/[guildId]', () => {
+  const fake = new FakeDiscordServer();
+  let guild: FakeGuild;
+  let managerId: string;
+  let memberId: string;
+
+  /**
+   * Calls the route for a guild
+   * @param {string} guildId - The guild ID in the URL
+   * @returns {Promise<Response>} The response
+   */
+  const get = (guildId: string) => GET(
+    new Request(`http://localhost/api/guilds/${guildId}`),
+    { params: Promise.resolve({ guildId }) }
+  );
+
+  /**
+   * Signs a user in with their own OAuth access token
+   * @param {string} userId - The user's Discord ID
+   */
+  const signIn = (userId: string) => {
+    fake.addOAuthToken(`token-${userId}`, userId);
+    vi.mocked(getServerSession).mockResolvedValue(buildSession(userId, `token-${userId}`));
+  };
+
+  beforeAll(async () => {
+    await fake.start();
+    discord.apiUrl = fake.apiUrl;
+
+    guild = fake.addGuild();
+    const adminRole = fake.addRole(guild.id, { permissions: PermissionFlagsBits.Administrator.toString() });
+    managerId = fake.addMember(guild.id, { roles: [adminRole.id] }).userId;
+    memberId = fake.addMember(guild.id).userId;
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    vi.mocked(getServerSession).mockReset();
+    vi.mocked(getGuildConfig).mockReset();
+  });
+
+  it('returns 401 without a session', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await get(guild.id);
+
+    expect(response.status).toBe(401);
+    expect(getGuildConfig).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 to a member without Manage Server', async () => {
+    signIn(memberId);
+
+    const response = await get(guild.id);
+
+    expect(response.status).toBe(403);
+    expect(getGuildConfig).not.toHaveBeenCalled();
+  });
+
+  it('lets an administrator read the guild\'s configuration', async () => {
+    signIn(managerId);
+    vi.mocked(getGuildConfig).mockResolvedValue(null);
+
+    const response = await get(guild.id);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toBeNull();
+    expect(getGuildConfig).toHaveBeenCalledWith(guild.id);
+  });
+});
@@ -1,25 +1,22 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { botService } from '@/services/bot';
+import { getGuildConfig, GuildConfigConflictError, parseGuildConfigInput, saveGuildConfig } from '@/lib/guild-config';
+import { logger } from '@/utils/logger';
 
 export async function GET(
   request: Request,
   context: { params: Promise<{ guildId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
 
-    // Fetch guild configuration
-    const config = await prisma.guildConfig.findUnique({
-      where: { guildId }
-    });
+    // Fetch guild configuration with its tag-to-role mappings
+    const config = await getGuildConfig(guildId);
 
     if (!config) {
       return NextResponse.json(null);
@@ -27,7 +24,7 @@ export async function GET(
 
     return NextResponse.json(config);
   } catch (error) {
-    console.error('Error fetching guild configuration:', error);
+    logger.error('Error fetching guild configuration', { error });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 }
@@ -37,33 +34,39 @@ export async function POST(
   context: { params: Promise<{ guildId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
     }
 
-    const { guildId } = await context.params;
     const body = await request.json();
-    const { roleId, logChannelId } = body;
+    const { data, error } = parseGuildConfigInput(guildId, body);
+
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
 
     // Update or create guild configuration
-    const config = await prisma.guildConfig.upsert({
-      where: { guildId },
-      update: {
-        roleId,
-        logChannelId
-      },
-      create: {
-        guildId,
-        roleId,
-        logChannelId
-      }
+    const config = await saveGuildConfig(guildId, data);
+
+    // Report setup problems with the saved configuration right away
+    const health = await botService.checkHealth(config).catch(error => {
+      logger.error('Error checking guild health after configuration change', { guildId, error });
+      return null;
     });
 
-    return NextResponse.json(config);
+    // Apply the new configuration now instead of waiting for the next scheduled sync
+    botService.syncGuild(guildId).catch(error => {
+      logger.error('Error syncing guild after configuration change', { guildId, error });
+    });
+
+    return NextResponse.json({ ...config, health });
   } catch (error) {
-    console.error('Error updating guild configuration:', error);
+    if (error instanceof GuildConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error('Error updating guild configuration', { error });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 } 
\ No newline at end of file
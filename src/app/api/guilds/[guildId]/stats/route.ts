@@ -0,0 +1,70 @@
+/**
+ * @file route.ts
+ * @description Stats API route for a guild's tag adoption over time
+ * @module app/api/guilds/[guildId]/stats/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { prisma } from '@/lib/prisma';
+import { STATS_RANGES, bucketSnapshots, isStatsGranularity, isStatsRange, isStatsResolutionAllowed } from '@/lib/stats';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for stats API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request; supports `range` (7d, 30d, 90d or 365d) and `granularity` (hour, day or week) query parameters
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} The tag adoption series, oldest first
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = searchParams.get('range') || '30d';
+    const granularity = searchParams.get('granularity') || 'day';
+
+    if (!isStatsRange(range)) {
+      return NextResponse.json({ error: `Range must be one of ${Object.keys(STATS_RANGES).join(', ')}` }, { status: 400 });
+    }
+
+    if (!isStatsGranularity(granularity)) {
+      return NextResponse.json({ error: 'Granularity must be "hour", "day" or "week"' }, { status: 400 });
+    }
+
+    if (!isStatsResolutionAllowed(range, granularity)) {
+      return NextResponse.json({ error: 'Too many points; use a coarser granularity for this range' }, { status: 400 });
+    }
+
+    const snapshots = await prisma.tagStatSnapshot.findMany({
+      where: { guildId, createdAt: { gte: new Date(Date.now() - STATS_RANGES[range]) } },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        memberCount: true,
+        tagWearers: true,
+        roleHolders: true,
+        rolesAdded: true,
+        rolesRemoved: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({ range, granularity, points: bucketSnapshots(snapshots, granularity) });
+  } catch (error) {
+    logger.error('Error fetching tag stats', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @file route.ts
+ * @description Sync API route for triggering and inspecting guild reconciliations
+ * @module app/api/guilds/[guildId]/sync/route
+ */
+
+import { NextResponse } from 'next/server';
+import { authorizeGuild } from '@/lib/guild-auth';
+import { botService } from '@/services/bot';
+import { ensureBotStarted } from '@/lib/server-init';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const RECENT_FAILURES = 10;
+
+/**
+ * GET handler for sync API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} Sync timing metrics and recent failed or blocked syncs for the guild
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const failures = await prisma.syncFailure.findMany({
+      where: { guildId },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_FAILURES,
+      select: { id: true, type: true, message: true, createdAt: true },
+    });
+
+    return NextResponse.json({
+      metrics: botService.getSyncMetrics(guildId),
+      failures
+    });
+  } catch (error) {
+    logger.error('Error fetching sync metrics', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler for sync API route
+ * @async
+ * @function POST
+ * @param {Request} request - The incoming request; an optional `{ confirmRemovals: true }` body applies removals above the safety threshold
+ * @param {Object} context - Route context
+ * @param {Promise<{guildId: string}>} context.params - Route parameters
+ * @returns {Promise<NextResponse>} Counts of role changes applied by the sync, with 409 if it was blocked or the configuration is archived, or 502 if it failed
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ guildId: string }> }
+) {
+  try {
+    const { guildId } = await context.params;
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    // Ensure bot is started
+    try {
+      await ensureBotStarted();
+    } catch (error) {
+      logger.error('Failed to start bot', { error });
+      return NextResponse.json({ error: 'Bot is not ready' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.confirmRemovals !== undefined && typeof body.confirmRemovals !== 'boolean') {
+      return NextResponse.json({ error: 'confirmRemovals must be a boolean' }, { status: 400 });
+    }
+
+    const result = await botService.syncGuild(guildId, { confirmRemovals: body?.confirmRemovals });
+    if (!result) {
+      return NextResponse.json({ error: 'Guild is not configured' }, { status: 404 });
+    }
+
+    const status = result.status === 'blocked' || result.status === 'archived' ? 409 : result.status === 'failed' ? 502 : 200;
+    return NextResponse.json({
+      ...result,
+      metrics: botService.getSyncMetrics(guildId)
+    }, { status });
+  } catch (error) {
+    logger.error('Error syncing guild', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
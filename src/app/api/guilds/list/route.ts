@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -33,13 +34,13 @@ export async function GET() {
     }
 
     if (!botService.isLoggedIn()) {
-      console.log('Bot not ready after retries');
+      logger.warn('Bot not ready after retries');
       return NextResponse.json({ error: 'Bot is not ready' }, { status: 503 });
     }
 
     const guilds = botService.getGuilds();
     if (guilds.length === 0) {
-      console.log('No guilds found');
+      logger.info('No guilds found');
       return NextResponse.json({ guilds: [] });
     }
 
@@ -50,7 +51,7 @@ export async function GET() {
 
     return NextResponse.json({ guilds: formattedGuilds });
   } catch (error) {
-    console.error('Error fetching guilds:', error);
+    logger.error('Error fetching guilds', { error });
     return NextResponse.json(
       { error: 'Failed to fetch guilds' },
       { status: 500 }
@@ -8,6 +8,10 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { botService } from '@/services/bot';
+import { GUILD_CONFIG_INCLUDE, GuildConfigConflictError, parseGuildConfigInput, saveGuildConfig } from '@/lib/guild-config';
+import { authorizeGuild, getManageableGuildIds } from '@/lib/guild-auth';
+import { logger } from '@/utils/logger';
 
 export async function GET() {
   try {
@@ -16,10 +20,15 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const configs = await prisma.guildConfig.findMany();
+    // Only return configurations for guilds the user can manage
+    const guildIds = await getManageableGuildIds(session);
+    const configs = await prisma.guildConfig.findMany({
+      where: { guildId: { in: Array.from(guildIds) } },
+      include: GUILD_CONFIG_INCLUDE,
+    });
     return NextResponse.json(configs);
   } catch (error) {
-    console.error('Error fetching guild configurations:', error);
+    logger.error('Error fetching guild configurations', { error });
     return NextResponse.json(
       { error: 'Failed to fetch guild configurations' },
       { status: 500 }
@@ -32,7 +41,7 @@ export async function GET() {
  * @async
  * @function POST
  * @param {Request} request - The incoming request containing guild configuration
- * @returns {Promise<NextResponse>} Updated guild configuration
+ * @returns {Promise<NextResponse>} Updated guild configuration with its health report
  */
 export async function POST(request: Request) {
   try {
@@ -41,34 +50,47 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const data = await request.json();
-    const { guildId, roleId, logChannelId } = data;
+    const body = await request.json();
+    const { guildId } = body;
 
     // Validate required fields
-    if (!guildId || !roleId) {
+    if (!guildId) {
       return NextResponse.json(
         { error: 'Guild ID and Role ID are required' },
         { status: 400 }
       );
     }
 
+    const auth = await authorizeGuild(guildId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const { data, error } = parseGuildConfigInput(guildId, body);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
     // Create or update guild configuration
-    const config = await prisma.guildConfig.upsert({
-      where: { guildId },
-      update: {
-        roleId,
-        logChannelId: logChannelId || null,
-      },
-      create: {
-        guildId,
-        roleId,
-        logChannelId: logChannelId || null,
-      },
+    const config = await saveGuildConfig(guildId, data);
+
+    // Report setup problems with the saved configuration right away
+    const health = await botService.checkHealth(config).catch(error => {
+      logger.error('Error checking guild health after configuration change', { guildId, error });
+      return null;
+    });
+
+    // Apply the new configuration now instead of waiting for the next scheduled sync
+    botService.syncGuild(guildId).catch(error => {
+      logger.error('Error syncing guild after configuration change', { guildId, error });
     });
 
-    return NextResponse.json(config);
+    return NextResponse.json({ ...config, health });
   } catch (error) {
-    console.error('Error saving guild configuration:', error);
+    if (error instanceof GuildConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error('Error saving guild configuration', { error });
     return NextResponse.json(
       { error: 'Failed to save guild configuration' },
       { status: 500 }
@@ -0,0 +1,22 @@
+/**
+ * @file route.ts
+ * @description Liveness probe API route; only reports that the process is running
+ * @module app/api/health/live/route
+ */
+
+import { NextResponse } from 'next/server';
+import { checkLiveness } from '@/services/probes';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for liveness probe API route
+ * @function GET
+ * @returns {NextResponse} The process uptime
+ */
+export function GET() {
+  return NextResponse.json(checkLiveness(), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * @file route.test.ts
+ * @description Tests that the readiness probe only shows its individual checks to operators
+ * @module app/api/health/ready/route.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { checkReadiness, Readiness } from '@/services/probes';
+import { buildSession } from '@/testing/session';
+import { GET } from './route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/services/bot', () => ({ botService: {} }));
+vi.mock('@/services/probes', () => ({ checkReadiness: vi.fn() }));
+
+const READINESS: Readiness = {
+  ready: false,
+  checks: {
+    gateway: { ok: true, status: 'ready', ping: 40 },
+    database: { ok: false, latencyMs: null, error: 'Connection refused to db.internal:3306' },
+    syncLoop: { ok: true, lastFullSync: null, sinceLastFullSyncMs: null },
+  },
+  guilds: [{ guildId: '123456789012345678', lastCompletedAt: null, sinceLastSyncMs: null, lastError: 'Missing Access' }],
+};
+
+describe('GET /api/health/ready', () => {
+  /**
+   * Calls the route
+   * @param {Record<string, string>} [headers] - Request headers
+   * @returns {Promise<Response>} The response
+   */
+  const get = (headers: Record<string, string> = {}) => GET(new Request('http://localhost/api/health/ready', { headers }));
+
+  beforeEach(() => {
+    vi.stubEnv('METRICS_TOKEN', 'metrics-token');
+    vi.stubEnv('BOT_ADMIN_IDS', '111111111111111111');
+    vi.mocked(getServerSession).mockResolvedValue(null);
+    vi.mocked(checkReadiness).mockResolvedValue(READINESS);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('only reports whether the app is ready to anonymous callers', async () => {
+    const response = await get();
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ ready: false });
+  });
+
+  it('returns 200 when every check passes', async () => {
+    vi.mocked(checkReadiness).mockResolvedValue({ ...READINESS, ready: true });
+
+    const response = await get();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ready: true });
+  });
+
+  it('ignores a wrong metrics token', async () => {
+    const response = await get({ authorization: 'Bearer wrong-token' });
+
+    expect(await response.json()).toEqual({ ready: false });
+  });
+
+  it('shows the individual checks with the metrics token', async () => {
+    const response = await get({ authorization: 'Bearer metrics-token' });
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual(READINESS);
+  });
+
+  it('shows the individual checks to a bot administrator', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(buildSession('111111111111111111'));
+
+    const response = await get();
+
+    expect(await response.json()).toEqual(READINESS);
+  });
+
+  it('hides the individual checks from other signed-in users', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(buildSession('222222222222222222'));
+
+    const response = await get();
+
+    expect(await response.json()).toEqual({ ready: false });
+  });
+});
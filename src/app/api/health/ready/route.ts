@@ -0,0 +1,53 @@
+/**
+ * @file route.ts
+ * @description Readiness probe API route checking the gateway, the database and the sync loop without starting the bot
+ * @module app/api/health/ready/route
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isBearerAuthorized } from '@/lib/bearer-auth';
+import { isBotAdmin } from '@/lib/guild-auth';
+import { checkReadiness } from '@/services/probes';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Checks whether a request may see the individual checks, which name guilds and carry raw errors
+ * @async
+ * @param {Request} request - The incoming request
+ * @returns {Promise<boolean>} Whether the request carries the metrics token or a bot administrator's session
+ */
+async function canViewDetails(request: Request): Promise<boolean> {
+  const token = process.env.METRICS_TOKEN;
+  if (token && isBearerAuthorized(request, token)) {
+    return true;
+  }
+
+  const session = await getServerSession(authOptions);
+  return isBotAdmin(session?.user?.id);
+}
+
+/**
+ * GET handler for readiness probe API route
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request; `Authorization: Bearer <METRICS_TOKEN>` or a bot administrator's session adds the individual checks
+ * @returns {Promise<NextResponse>} Whether the app is ready, with status 503 if any check failed
+ */
+export async function GET(request: Request) {
+  try {
+    const readiness = await checkReadiness();
+    const body = await canViewDetails(request) ? readiness : { ready: readiness.ready };
+    return NextResponse.json(body, {
+      status: readiness.ready ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Error checking readiness', { error });
+    return NextResponse.json({ ready: false, error: 'Readiness check failed' }, { status: 503 });
+  }
+}
@@ -7,6 +7,7 @@
 import { NextResponse } from 'next/server';
 import { botService } from '@/services/bot';
 import { ensureBotStarted } from '@/lib/server-init';
+import { logger } from '@/utils/logger';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -25,7 +26,7 @@ export async function POST() {
     const isLoggedIn = botService.isLoggedIn();
     return NextResponse.json({ status: 'success', isLoggedIn });
   } catch (error) {
-    console.error('Heartbeat error:', error);
+    logger.error('Heartbeat error', { error });
     return NextResponse.json({ 
       status: 'error',
       message: error instanceof Error ? error.message : 'Unknown error'
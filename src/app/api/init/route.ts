@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 // Force this route to be server-side only
 export const dynamic = 'force-dynamic';
@@ -29,7 +30,7 @@ export async function POST() {
     await botService.start();
     return NextResponse.json({ success: true, message: 'Application initialized successfully' });
   } catch (error) {
-    console.error('Error initializing application:', error);
+    logger.error('Error initializing application', { error });
     return NextResponse.json(
       { error: 'Failed to initialize application' },
       { status: 500 }
@@ -1,22 +1,10 @@
 import { NextResponse } from 'next/server';
 import tweetnacl from 'tweetnacl';
+import { handleCommand } from '@/services/commands';
+import { DiscordInteraction } from '@/types/interaction';
 
-// Discord interaction types
-interface DiscordInteraction {
-  type: number;
-  token: string;
-  id: string;
-  application_id: string;
-  data?: {
-    name: string;
-    type: number;
-    options?: Array<{
-      name: string;
-      type: number;
-      value: string | number | boolean;
-    }>;
-  };
-}
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
 
 export async function POST(request: Request) {
   try {
@@ -75,13 +63,7 @@ export async function POST(request: Request) {
       switch (body.type) {
         case 2: // APPLICATION_COMMAND
           return new NextResponse(
-            JSON.stringify({ 
-              type: 4, 
-              data: { 
-                content: 'Command received!',
-                flags: 64 // Ephemeral message
-              } 
-            }), 
+            JSON.stringify(await handleCommand(body)), 
             { 
               status: 200,
               headers: {
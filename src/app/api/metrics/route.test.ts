@@ -0,0 +1,66 @@
+/**
+ * @file route.test.ts
+ * @description Tests that the metrics route is disabled without a token and only serves callers presenting it
+ * @module app/api/metrics/route.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OPENMETRICS_CONTENT_TYPE } from '@/lib/openmetrics';
+import { collectMetrics } from '@/services/metrics';
+import { GET } from './route';
+
+vi.mock('@/services/metrics', () => ({ collectMetrics: vi.fn() }));
+
+describe('GET /api/metrics', () => {
+  /**
+   * Calls the route
+   * @param {Record<string, string>} [headers] - Request headers
+   * @returns {Promise<Response>} The response
+   */
+  const get = (headers: Record<string, string> = {}) => GET(new Request('http://localhost/api/metrics', { headers }));
+
+  beforeEach(() => {
+    vi.mocked(collectMetrics).mockReset().mockResolvedValue('# EOF\n');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 404 when METRICS_TOKEN is not set', async () => {
+    vi.stubEnv('METRICS_TOKEN', '');
+
+    const response = await get({ authorization: 'Bearer anything' });
+
+    expect(response.status).toBe(404);
+    expect(collectMetrics).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 with a wrong token', async () => {
+    vi.stubEnv('METRICS_TOKEN', 'metrics-token');
+
+    const response = await get({ authorization: 'Bearer wrong-token' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(collectMetrics).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without a token', async () => {
+    vi.stubEnv('METRICS_TOKEN', 'metrics-token');
+
+    const response = await get();
+
+    expect(response.status).toBe(401);
+  });
+
+  it('serves the metrics in the OpenMetrics format with the token', async () => {
+    vi.stubEnv('METRICS_TOKEN', 'metrics-token');
+
+    const response = await get({ authorization: 'Bearer metrics-token' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(await response.text()).toBe('# EOF\n');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @file route.ts
+ * @description Prometheus metrics API route exposing bot, sync and process metrics in the OpenMetrics format
+ * @module app/api/metrics/route
+ */
+
+import { NextResponse } from 'next/server';
+import { isBearerAuthorized } from '@/lib/bearer-auth';
+import { OPENMETRICS_CONTENT_TYPE } from '@/lib/openmetrics';
+import { collectMetrics } from '@/services/metrics';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for metrics API route. Scraping never starts the bot, so a bot that is
+ * down shows up as not ready rather than being restarted by Prometheus.
+ * @async
+ * @function GET
+ * @param {Request} request - The incoming request, authorized with `Authorization: Bearer <METRICS_TOKEN>`
+ * @returns {Promise<NextResponse>} The metrics in the OpenMetrics text format
+ */
+export async function GET(request: Request) {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Metrics are disabled' }, { status: 404 });
+  }
+
+  if (!isBearerAuthorized(request, token)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  }
+
+  try {
+    return new NextResponse(await collectMetrics(), {
+      headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE },
+    });
+  } catch (error) {
+    logger.error('Error collecting metrics', { error });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -9,71 +9,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
 import { ensureBotStarted } from '@/lib/server-init';
-import { Session } from 'next-auth';
-
-// Cache for guild data
-const guildCache = new Map<string, {
-  data: any;
-  timestamp: number;
-}>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-/**
- * Represents a Discord guild (server)
- * @interface Guild
- * @property {string} id - The unique identifier of the guild
- * @property {string} name - The name of the guild
- * @property {string} permissions - The permissions string for the bot in this guild
- * @property {boolean} [hasBot] - Whether the bot is present in this guild
- * @property {string[]} [features] - Array of guild features
- */
-interface Guild {
-  id: string;
-  name: string;
-  permissions: string;
-  hasBot?: boolean;
-  features?: string[];
-  hasTagsFeature?: boolean;
-}
-
-/**
- * Fetches user's guilds from Discord API with caching
- * @param {string} accessToken - User's access token
- * @returns {Promise<Guild[]>} Array of guilds
- */
-async function fetchUserGuilds(accessToken: string): Promise<Guild[]> {
-  const cacheKey = `guilds_${accessToken}`;
-  const cached = guildCache.get(cacheKey);
-  
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
-  }
-
-  const response = await fetch('https://discord.com/api/users/@me/guilds', {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      const delay = retryAfter ? parseInt(retryAfter) * 1000 : 5000;
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return fetchUserGuilds(accessToken);
-    }
-    throw new Error(`Failed to fetch servers: ${response.status} ${response.statusText}`);
-  }
-
-  const guilds = await response.json() as Guild[];
-  guildCache.set(cacheKey, {
-    data: guilds,
-    timestamp: Date.now()
-  });
-
-  return guilds;
-}
+import { canManageGuild, fetchUserGuilds, DiscordUserGuild } from '@/lib/guild-auth';
+import { logger } from '@/utils/logger';
 
 /**
  * GET handler for fetching user's Discord servers
@@ -120,7 +57,7 @@ export async function GET() {
         }, { status: 503 });
       }
     } catch (error) {
-      console.error('Failed to start bot:', error);
+      logger.error('Failed to start bot', { error });
       return NextResponse.json({ 
         error: 'Bot is not ready',
         details: error instanceof Error ? error.message : 'Unknown error'
@@ -134,11 +71,9 @@ export async function GET() {
     // Fetch user's guilds with caching
     const guilds = await fetchUserGuilds(accessToken);
 
-    // Filter guilds where the user has ADMINISTRATOR permission and bot is present
-    const managedGuilds = guilds.filter((guild: Guild) => {
-      const permissions = BigInt(guild.permissions);
-      const ADMINISTRATOR = BigInt(0x8);
-      const isAdmin = (permissions & ADMINISTRATOR) === ADMINISTRATOR;
+    // Filter guilds where the user has MANAGE_GUILD or ADMINISTRATOR permission
+    const managedGuilds = guilds.filter((guild: DiscordUserGuild) => {
+      const canManage = canManageGuild(guild.permissions);
       const hasBot = botGuildIds.has(guild.id);
       
       // Add bot presence info to the guild object
@@ -147,12 +82,12 @@ export async function GET() {
       // Add hasTagsFeature property
       guild.hasTagsFeature = guild.features?.includes('GUILD_TAGS') || false;
       
-      return isAdmin;
+      return canManage;
     });
 
     return NextResponse.json(managedGuilds);
   } catch (error) {
-    console.error('Error fetching servers:', error);
+    logger.error('Error fetching servers', { error });
     return NextResponse.json(
       { error: 'Failed to fetch servers' },
       { status: 500 }
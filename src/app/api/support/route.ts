@@ -5,7 +5,8 @@
  */
 
 import { NextResponse } from 'next/server';
-import nodemailer from 'nodemailer';
+import { createMailTransport, getMissingSmtpVars } from '@/lib/mailer';
+import { logger } from '@/utils/logger';
 
 /**
  * Interface for the support form data
@@ -125,18 +126,9 @@ export async function POST(request: Request) {
     }
 
     // Validate SMTP configuration
-    const requiredEnvVars = [
-      'NEXT_PUBLIC_SMTP_HOST',
-      'NEXT_PUBLIC_SMTP_PORT',
-      'NEXT_PUBLIC_SMTP_USER',
-      'NEXT_PUBLIC_SMTP_PASSWORD',
-      'NEXT_PUBLIC_SMTP_FROM',
-      'NEXT_PUBLIC_SUPPORT_EMAIL'
-    ];
-
-    const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+    const missingVars = getMissingSmtpVars(['NEXT_PUBLIC_SUPPORT_EMAIL']);
     if (missingVars.length > 0) {
-      console.error('Missing required SMTP environment variables:', missingVars);
+      logger.error('Missing required SMTP environment variables', { missingVars });
       return NextResponse.json(
         { error: 'Email configuration is incomplete' },
         { status: 500 }
@@ -144,21 +136,13 @@ export async function POST(request: Request) {
     }
 
     // Create transporter
-    const transporter = nodemailer.createTransport({
-      host: process.env.NEXT_PUBLIC_SMTP_HOST,
-      port: Number(process.env.NEXT_PUBLIC_SMTP_PORT),
-      secure: process.env.NEXT_PUBLIC_SMTP_SECURE === 'true',
-      auth: {
-        user: process.env.NEXT_PUBLIC_SMTP_USER,
-        pass: process.env.NEXT_PUBLIC_SMTP_PASSWORD,
-      },
-    });
+    const transporter = createMailTransport();
 
     // Verify SMTP connection
     try {
       await transporter.verify();
     } catch (error: any) {
-      console.error('SMTP connection verification failed:', error);
+      logger.error('SMTP connection verification failed', { error });
       if (error.code === 'EAUTH') {
         return NextResponse.json(
           { error: 'SMTP authentication failed. Please check your email credentials.' },
@@ -210,7 +194,7 @@ ${message}
 
     return NextResponse.json({ message: 'Email sent successfully' });
   } catch (error: any) {
-    console.error('Error sending email:', error);
+    logger.error('Error sending email', { error });
     
     // Provide more specific error messages based on the error type
     if (error.code === 'EAUTH') {
@@ -6,6 +6,7 @@
 
 import { NextResponse } from 'next/server';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -21,7 +22,7 @@ export async function POST() {
     const info = botService.getStatusInfo();
     return NextResponse.json(info);
   } catch (error) {
-    console.error('Error getting system info:', error);
+    logger.error('Error getting system info', { error });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 } 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 export async function GET(request: Request) {
   try {
@@ -36,7 +37,7 @@ export async function GET(request: Request) {
       });
 
       if (!response.ok) {
-        console.error('Discord verification failed:', await response.text());
+        logger.error('Discord verification failed', { status: response.status, body: await response.text() });
         return new NextResponse('Verification failed', { status: 400 });
       }
 
@@ -51,11 +52,11 @@ export async function GET(request: Request) {
         expires_in: data.expires_in,
       });
     } catch (error) {
-      console.error('Error verifying with Discord:', error);
+      logger.error('Error verifying with Discord', { error });
       return new NextResponse('Verification failed', { status: 500 });
     }
   } catch (error) {
-    console.error('Error in verification:', error);
+    logger.error('Error in verification', { error });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 } 
\ No newline at end of file
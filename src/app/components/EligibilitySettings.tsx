@@ -0,0 +1,164 @@
+/**
+ * @file EligibilitySettings.tsx
+ * @description Settings deciding which members the bot manages and which may receive tag roles
+ * @module app/components/EligibilitySettings
+ */
+
+'use client';
+
+import React from 'react';
+import { FaUserCheck, FaTimes } from 'react-icons/fa';
+import { EligibilityRules } from '@/types/guild';
+
+/**
+ * Represents a Discord role
+ * @interface Role
+ * @property {string} id - The unique identifier of the role
+ * @property {string} name - The name of the role
+ * @property {string} color - The color of the role in hexadecimal format
+ */
+interface Role {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for the EligibilitySettings component
+ * @interface EligibilitySettingsProps
+ * @property {EligibilityRules} rules - The current eligibility rules
+ * @property {(rules: EligibilityRules) => void} onChange - Called with the updated rules
+ * @property {Role[]} roles - The server's roles to choose from
+ * @property {(hexColor: string) => string} getRoleColor - Gets a readable text color for a role
+ * @property {boolean} disabled - Whether the role lists are still loading
+ */
+interface EligibilitySettingsProps {
+  rules: EligibilityRules;
+  onChange: (rules: EligibilityRules) => void;
+  roles: Role[];
+  getRoleColor: (hexColor: string) => string;
+  disabled: boolean;
+}
+
+/**
+ * Rules used when a guild has not configured eligibility
+ * @type {EligibilityRules}
+ */
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  ignoreBots: true,
+  exemptRoleIds: [],
+  requiredRoleId: null,
+  minMembershipDays: 0,
+};
+
+/**
+ * Eligibility settings component
+ * @component
+ * @param {EligibilitySettingsProps} props - Component props
+ * @returns {JSX.Element} The eligibility settings
+ */
+export default function EligibilitySettings({ rules, onChange, roles, getRoleColor, disabled }: EligibilitySettingsProps) {
+  const inputClassName = 'bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40';
+  const availableExemptRoles = roles.filter(role =>
+    !rules.exemptRoleIds.includes(role.id) && role.id !== rules.requiredRoleId
+  );
+
+  /**
+   * Renders role options for a select
+   * @function renderRoleOptions
+   * @param {Role[]} options - The roles to list
+   * @returns {JSX.Element[]} The options
+   */
+  const renderRoleOptions = (options: Role[]) => options.map((role) => (
+    <option
+      key={role.id}
+      value={role.id}
+      style={{
+        color: getRoleColor(role.color)
+      }}
+    >
+      {role.name}
+    </option>
+  ));
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-lime-light mb-2">
+        <div className="flex items-center gap-2">
+          <FaUserCheck className="text-lime" />
+          Eligibility
+        </div>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={rules.ignoreBots}
+          onChange={(e) => onChange({ ...rules, ignoreBots: e.target.checked })}
+          className="accent-lime"
+        />
+        Ignore bots
+      </label>
+
+      <div className="mt-3">
+        <p className="mb-2 text-sm text-gray-400">Exempt roles: members with any of these are never given or stripped of tag roles.</p>
+        <div className="flex flex-wrap gap-2">
+          {rules.exemptRoleIds.map(roleId => {
+            const role = roles.find(candidate => candidate.id === roleId);
+            return (
+              <span key={roleId} className="flex items-center gap-1 px-2 py-1 rounded bg-dark-lighter text-sm text-gray-300">
+                <span style={role ? { color: getRoleColor(role.color) } : undefined}>{role?.name ?? roleId}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...rules, exemptRoleIds: rules.exemptRoleIds.filter(id => id !== roleId) })}
+                  className="text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove exempt role ${role?.name ?? roleId}`}
+                >
+                  <FaTimes />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange({ ...rules, exemptRoleIds: [...rules.exemptRoleIds, e.target.value] })}
+          className={`${inputClassName} mt-2 w-full`}
+          disabled={disabled}
+          aria-label="Add exempt role"
+        >
+          <option value="">Add an exempt role</option>
+          {renderRoleOptions(availableExemptRoles)}
+        </select>
+      </div>
+
+      <div className="mt-3">
+        <p className="mb-2 text-sm text-gray-400">Required role: only members with this role receive tag roles.</p>
+        <select
+          value={rules.requiredRoleId ?? ''}
+          onChange={(e) => onChange({ ...rules, requiredRoleId: e.target.value || null })}
+          className={`${inputClassName} w-full`}
+          disabled={disabled}
+          aria-label="Required role"
+        >
+          <option value="">No required role</option>
+          {renderRoleOptions(roles.filter(role => !rules.exemptRoleIds.includes(role.id)))}
+        </select>
+      </div>
+
+      <div className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+        <label htmlFor="minMembershipDays">Only members who joined at least</label>
+        <input
+          id="minMembershipDays"
+          type="number"
+          min={0}
+          max={365}
+          value={rules.minMembershipDays}
+          onChange={(e) => onChange({ ...rules, minMembershipDays: Math.min(365, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+          className="w-20 bg-dark border border-lime/20 rounded-lg px-2 py-1 text-gray-300 focus:outline-none focus:border-lime/40"
+        />
+        <span>days ago</span>
+      </div>
+    </div>
+  );
+}
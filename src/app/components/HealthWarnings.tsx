@@ -0,0 +1,68 @@
+/**
+ * @file HealthWarnings.tsx
+ * @description Warnings listing the problems found by a guild's preflight health check
+ * @module app/components/HealthWarnings
+ */
+
+'use client';
+
+import React from 'react';
+import { FaExclamationTriangle, FaSyncAlt } from 'react-icons/fa';
+import { GuildHealthReport } from '@/types/guild';
+
+/**
+ * Props for the HealthWarnings component
+ * @interface HealthWarningsProps
+ * @property {GuildHealthReport | null} report - The latest health report, null when none is available
+ * @property {() => void} onRecheck - Called to run the check again
+ * @property {boolean} checking - Whether a check is in progress
+ */
+interface HealthWarningsProps {
+  report: GuildHealthReport | null;
+  onRecheck: () => void;
+  checking: boolean;
+}
+
+/**
+ * Health warnings component, rendering nothing while the guild is healthy
+ * @component
+ * @param {HealthWarningsProps} props - Component props
+ * @returns {JSX.Element | null} The warnings
+ */
+export default function HealthWarnings({ report, onRecheck, checking }: HealthWarningsProps) {
+  if (!report || report.problems.length === 0) {
+    return null;
+  }
+
+  const hasErrors = report.problems.some(problem => problem.severity === 'error');
+
+  return (
+    <div className={`rounded-lg border p-4 text-sm ${hasErrors ? 'bg-red-900/20 border-red-900/40' : 'bg-yellow-900/20 border-yellow-900/40'}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className={`flex items-center gap-2 font-medium ${hasErrors ? 'text-red-400' : 'text-yellow-400'}`}>
+          <FaExclamationTriangle />
+          {hasErrors ? 'Roles are not being synced' : 'Some features need attention'}
+        </div>
+        <button
+          type="button"
+          onClick={onRecheck}
+          disabled={checking}
+          className="flex items-center gap-1 text-gray-300 hover:text-lime-light transition-colors disabled:opacity-50"
+        >
+          <FaSyncAlt className={checking ? 'animate-spin' : ''} />
+          Check again
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {report.problems.map((problem, index) => (
+          <li key={index} className={problem.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}>
+            {problem.message}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-gray-400">
+        Checked {new Date(report.checkedAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * @file LogFormatSettings.tsx
+ * @description Log format settings with a live preview of the resulting log messages
+ * @module app/components/LogFormatSettings
+ */
+
+'use client';
+
+import React from 'react';
+import { useMemo } from 'react';
+import { FaPalette } from 'react-icons/fa';
+import { LogFormat, LogSettings } from '@/types/guild';
+import {
+  LOG_FORMATS,
+  TEMPLATE_PLACEHOLDERS,
+  COMPACT_TEMPLATE,
+  LoggedRoleChange,
+  buildRoleChangeLogMessages,
+  validateLogTemplate
+} from '@/lib/role-change-log';
+
+/**
+ * Represents a Discord role
+ * @interface Role
+ * @property {string} id - The unique identifier of the role
+ * @property {string} name - The name of the role
+ * @property {string} color - The color of the role in hexadecimal format
+ */
+interface Role {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for the LogFormatSettings component
+ * @interface LogFormatSettingsProps
+ * @property {LogSettings} settings - The current log settings
+ * @property {(settings: LogSettings) => void} onChange - Called with the updated settings
+ * @property {Role[]} roles - The server's roles, used to name roles in the preview
+ * @property {string[]} previewRoleIds - Roles to use for the sample changes in the preview
+ */
+interface LogFormatSettingsProps {
+  settings: LogSettings;
+  onChange: (settings: LogSettings) => void;
+  roles: Role[];
+  previewRoleIds: string[];
+}
+
+const FORMAT_LABELS: Record<LogFormat, string> = {
+  detailed: 'Detailed embed',
+  compact: 'Compact text',
+  summary: 'Summary embed',
+  custom: 'Custom template',
+};
+
+const DEFAULT_COLOR = '#2f3136';
+const SAMPLE_USER_IDS = ['123456789012345678', '234567890123456789', '345678901234567890'];
+
+/**
+ * Replaces Discord markup in preview text with readable equivalents
+ * @param {string} text - The text to format
+ * @returns {string} The formatted text
+ */
+function formatPreviewText(text: string): string {
+  return text
+    .replace(/<@(\d+)>/g, (_, id: string) => `@member${id.slice(-4)}`)
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Log format settings component
+ * @component
+ * @param {LogFormatSettingsProps} props - Component props
+ * @returns {JSX.Element} The log format settings
+ */
+export default function LogFormatSettings({ settings, onChange, roles, previewRoleIds }: LogFormatSettingsProps) {
+  const templateError = settings.logFormat === 'custom'
+    ? validateLogTemplate(settings.logTemplate ?? '')
+    : null;
+
+  const previewMessages = useMemo(() => {
+    if (templateError) {
+      return [];
+    }
+
+    const roleIds = previewRoleIds.filter(Boolean);
+    const sampleRoleIds = roleIds.length > 0 ? roleIds : ['000000000000000000'];
+    const changes: LoggedRoleChange[] = SAMPLE_USER_IDS.map((userId, index) => ({
+      userId,
+      roleId: sampleRoleIds[index % sampleRoleIds.length],
+      action: index === 2 ? 'remove' : 'add',
+      reason: index === 2 ? 'tag removed' : 'tag equipped',
+    }));
+    const roleNames = new Map(roles.map(role => [role.id, role.name]));
+    roleNames.set('000000000000000000', 'Tag Role');
+
+    return buildRoleChangeLogMessages(changes, roleNames, settings);
+  }, [settings, roles, previewRoleIds, templateError]);
+
+  const inputClassName = 'w-full bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40';
+  const usesEmbed = settings.logFormat === 'detailed' || settings.logFormat === 'summary';
+
+  return (
+    <div>
+      <label htmlFor="logFormat" className="block text-sm font-medium text-lime-light mb-2">
+        <div className="flex items-center gap-2">
+          <FaPalette className="text-lime" />
+          Log Format
+        </div>
+      </label>
+      <select
+        id="logFormat"
+        value={settings.logFormat}
+        onChange={(e) => {
+          const logFormat = e.target.value as LogFormat;
+          onChange({
+            ...settings,
+            logFormat,
+            // Start custom templates from the compact line so there is something to edit
+            logTemplate: logFormat === 'custom' && !settings.logTemplate ? COMPACT_TEMPLATE : settings.logTemplate,
+          });
+        }}
+        className={inputClassName}
+      >
+        {LOG_FORMATS.map(format => (
+          <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+        ))}
+      </select>
+
+      {usesEmbed && (
+        <div className="mt-3 flex gap-2">
+          <input
+            type="text"
+            placeholder="Role Updates"
+            maxLength={240}
+            value={settings.logTitle ?? ''}
+            onChange={(e) => onChange({ ...settings, logTitle: e.target.value || null })}
+            className={`${inputClassName} flex-1 min-w-0`}
+            aria-label="Embed title"
+          />
+          <input
+            type="color"
+            value={settings.logColor !== null ? `#${settings.logColor.toString(16).padStart(6, '0')}` : DEFAULT_COLOR}
+            onChange={(e) => onChange({ ...settings, logColor: parseInt(e.target.value.slice(1), 16) })}
+            className="h-10 w-12 bg-dark border border-lime/20 rounded-lg cursor-pointer"
+            aria-label="Embed color"
+          />
+        </div>
+      )}
+
+      {settings.logFormat === 'custom' && (
+        <div className="mt-3">
+          <textarea
+            value={settings.logTemplate ?? ''}
+            onChange={(e) => onChange({ ...settings, logTemplate: e.target.value })}
+            rows={2}
+            className={`${inputClassName} font-mono text-sm`}
+            aria-label="Log template"
+          />
+          <p className="mt-2 text-xs text-gray-400">
+            One line is sent per change. Placeholders:{' '}
+            {Object.entries(TEMPLATE_PLACEHOLDERS).map(([name, description], index) => (
+              <span key={name} title={description}>
+                {index > 0 && ', '}
+                <code className="text-lime-light">{`{${name}}`}</code>
+              </span>
+            ))}
+          </p>
+          {templateError && (
+            <p className="mt-2 text-sm text-red-400">{templateError}</p>
+          )}
+        </div>
+      )}
+
+      {previewMessages.length > 0 && (
+        <div className="mt-3 p-3 bg-dark rounded-lg border border-lime/10 space-y-2">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Preview</p>
+          {previewMessages.map((message, index) => (
+            <div key={index} className="space-y-2">
+              {message.content && (
+                <p className="text-sm text-gray-300 whitespace-pre-line">{formatPreviewText(message.content)}</p>
+              )}
+              {message.embeds?.map((embed, embedIndex) => (
+                <div
+                  key={embedIndex}
+                  className="pl-3 py-2 border-l-4 rounded bg-dark-lighter"
+                  style={{ borderColor: `#${(embed.color ?? 0).toString(16).padStart(6, '0')}` }}
+                >
+                  <p className="text-sm font-semibold text-gray-200">{embed.title}</p>
+                  {embed.description && (
+                    <p className="text-sm text-gray-400">{embed.description}</p>
+                  )}
+                  <div className={`mt-1 ${embed.fields?.some(field => field.inline) ? 'grid grid-cols-3 gap-2' : 'space-y-1'}`}>
+                    {embed.fields?.map((field, fieldIndex) => (
+                      <div key={fieldIndex}>
+                        <p className="text-xs font-semibold text-gray-300">{field.name}</p>
+                        <p className="text-xs text-gray-400 whitespace-pre-line">{formatPreviewText(field.value)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
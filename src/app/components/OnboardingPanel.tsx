@@ -0,0 +1,141 @@
+/**
+ * @file OnboardingPanel.tsx
+ * @description Progress bar and summary for the first live sync of a newly configured server
+ * @module app/components/OnboardingPanel
+ */
+
+'use client';
+
+import React from 'react';
+import { useState, useEffect } from 'react';
+import { FaRocket } from 'react-icons/fa';
+import { Server } from '@/types/server';
+import { OnboardingProgress } from '@/types/guild';
+
+/**
+ * Props for the OnboardingPanel component
+ * @interface OnboardingPanelProps
+ * @property {Server} server - The server being onboarded
+ * @property {number} refreshKey - Changes whenever the configuration is saved, to check for a new job
+ */
+interface OnboardingPanelProps {
+  server: Server;
+  refreshKey: number;
+}
+
+const POLL_INTERVAL = 2000;
+// A job that stays pending is waiting for something else, e.g. a failed health check
+const MAX_PENDING_POLLS = 15;
+
+/**
+ * Onboarding panel component, shown while the first sync runs and with its summary once it finishes
+ * @component
+ * @param {OnboardingPanelProps} props - Component props
+ * @returns {JSX.Element | null} The onboarding panel
+ */
+export default function OnboardingPanel({ server, refreshKey }: OnboardingPanelProps) {
+  const [progress, setProgress] = useState<OnboardingProgress | null>(null);
+  const [isTracking, setIsTracking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pendingPolls = 0;
+
+    /**
+     * Fetches the onboarding progress, polling again while the job is pending or running
+     * @async
+     * @function poll
+     * @returns {Promise<void>}
+     */
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/guilds/${server.id}/onboarding`);
+        if (!response.ok || cancelled) {
+          return;
+        }
+
+        const data: OnboardingProgress | null = await response.json();
+        if (cancelled) {
+          return;
+        }
+        setProgress(data);
+
+        if (data?.status === 'running' || (data?.status === 'pending' && pendingPolls++ < MAX_PENDING_POLLS)) {
+          setIsTracking(true);
+          timer = setTimeout(poll, POLL_INTERVAL);
+        }
+      } catch (error) {
+        console.error('Error fetching onboarding progress:', error);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [server.id, refreshKey]);
+
+  // Finished jobs are only summarized for admins who watched them run
+  if (!progress || (!isTracking && progress.status !== 'running')) {
+    return null;
+  }
+
+  const percent = progress.totalMembers > 0
+    ? Math.min(100, Math.round((progress.scannedMembers / progress.totalMembers) * 100))
+    : 0;
+
+  return (
+    <div className="p-4 bg-dark rounded-lg border border-lime/20 space-y-3 text-sm">
+      <h3 className="flex items-center gap-2 font-semibold text-lime-light">
+        <FaRocket className="text-lime" />
+        {progress.status === 'completed' ? 'Initial sync complete' : 'Initial sync'}
+      </h3>
+
+      {progress.status === 'pending' && (
+        <p className="text-gray-400">Waiting for the first sync to start…</p>
+      )}
+
+      {progress.status === 'running' && (
+        <>
+          <div className="h-2 w-full bg-dark-lighter rounded-full overflow-hidden">
+            <div className="h-full bg-lime transition-all duration-500" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-gray-400">
+            {progress.totalMembers > 0
+              ? `Scanned ${progress.scannedMembers} of ${progress.totalMembers} members`
+              : 'Fetching members…'}
+          </p>
+        </>
+      )}
+
+      {(progress.status === 'failed' || progress.status === 'blocked') && (
+        <p className="text-red-400">{progress.error ?? 'The initial sync did not finish.'} It will be retried with the next sync.</p>
+      )}
+
+      {progress.status !== 'pending' && (
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-gray-300">
+          <div>
+            <dt className="text-gray-500">Wearing tag</dt>
+            <dd>{progress.tagWearers}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Roles added</dt>
+            <dd>{progress.rolesAdded}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Roles removed</dt>
+            <dd>{progress.rolesRemoved}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Errors</dt>
+            <dd className={progress.errors > 0 ? 'text-red-400' : undefined}>{progress.errors}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * @file PreviewPanel.tsx
+ * @description Panel showing the role changes a configuration in preview mode would apply
+ * @module app/components/PreviewPanel
+ */
+
+'use client';
+
+import React from 'react';
+import { useState, useEffect } from 'react';
+import { signOut } from 'next-auth/react';
+import { FaEye, FaSyncAlt } from 'react-icons/fa';
+import { Server } from '@/types/server';
+import { ProjectedRoleChange, RoleChangePreview } from '@/types/guild';
+
+/**
+ * Represents a Discord role
+ * @interface Role
+ * @property {string} id - The unique identifier of the role
+ * @property {string} name - The name of the role
+ * @property {string} color - The color of the role in hexadecimal format
+ */
+interface Role {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for the PreviewPanel component
+ * @interface PreviewPanelProps
+ * @property {Server} server - The server being previewed
+ * @property {Role[]} roles - The server's roles, used to display role names
+ * @property {() => void} onGoLive - Called after preview mode has been turned off
+ */
+interface PreviewPanelProps {
+  server: Server;
+  roles: Role[];
+  onGoLive: () => void;
+}
+
+const MAX_LISTED = 50;
+
+/**
+ * Preview panel component
+ * @component
+ * @param {PreviewPanelProps} props - Component props
+ * @returns {JSX.Element} The preview panel
+ */
+export default function PreviewPanel({ server, roles, onGoLive }: PreviewPanelProps) {
+  const [preview, setPreview] = useState<RoleChangePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGoingLive, setIsGoingLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPreview(false);
+  }, [server.id]);
+
+  /**
+   * Fetches the projected role changes for the server
+   * @async
+   * @function fetchPreview
+   * @param {boolean} refresh - Whether to recompute the preview instead of using the last one
+   * @returns {Promise<void>}
+   */
+  const fetchPreview = async (refresh: boolean) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`/api/guilds/${server.id}/preview${refresh ? '?refresh=true' : ''}`);
+      if (!response.ok) {
+        const data = await response.json();
+        if (response.status === 401) {
+          signOut({ callbackUrl: '/' });
+          return;
+        }
+        throw new Error(data.error || 'Failed to fetch preview');
+      }
+      setPreview(await response.json());
+    } catch (error) {
+      console.error('Error fetching preview:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load preview');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Turns off preview mode so the projected changes are applied
+   * @async
+   * @function handleGoLive
+   * @returns {Promise<void>}
+   */
+  const handleGoLive = async () => {
+    try {
+      setIsGoingLive(true);
+      setError(null);
+      const response = await fetch(`/api/guilds/${server.id}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled: false }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to go live');
+      }
+      onGoLive();
+    } catch (error) {
+      console.error('Error going live:', error);
+      setError(error instanceof Error ? error.message : 'Failed to go live');
+    } finally {
+      setIsGoingLive(false);
+    }
+  };
+
+  /**
+   * Renders a list of projected changes
+   * @function renderChanges
+   * @param {ProjectedRoleChange[]} changes - The changes to render
+   * @returns {JSX.Element} The rendered list
+   */
+  const renderChanges = (changes: ProjectedRoleChange[]) => (
+    <ul className="text-sm text-gray-300 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+      {changes.slice(0, MAX_LISTED).map((change) => (
+        <li key={`${change.userId}-${change.roleId}`}>
+          {change.displayName}
+          <span className="text-gray-500"> · {roles.find(role => role.id === change.roleId)?.name ?? change.roleId}</span>
+        </li>
+      ))}
+      {changes.length > MAX_LISTED && (
+        <li className="text-gray-500">…and {changes.length - MAX_LISTED} more</li>
+      )}
+    </ul>
+  );
+
+  return (
+    <div className="p-4 bg-dark rounded-lg border border-yellow-500/40 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-yellow-400">
+          <FaEye />
+          Preview Mode
+        </h3>
+        <button
+          type="button"
+          onClick={() => fetchPreview(true)}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-lime-light hover:text-lime disabled:text-gray-600 transition-colors"
+        >
+          <FaSyncAlt className={isLoading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-gray-400">
+        No roles are changed while preview mode is on. Review the projected changes below, then go live to apply them.
+      </p>
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 border border-red-900/40 rounded-lg p-3">
+          {error}
+        </div>
+      )}
+
+      {isLoading && !preview ? (
+        <p className="text-sm text-gray-400">Computing preview...</p>
+      ) : preview && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-green-400 mb-2">Would add ({preview.adds.length})</h4>
+            {renderChanges(preview.adds)}
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-red-400 mb-2">Would remove ({preview.removes.length})</h4>
+            {renderChanges(preview.removes)}
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <p className="text-xs text-gray-500">Computed {new Date(preview.computedAt).toLocaleString()}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={handleGoLive}
+        disabled={isGoingLive || isLoading}
+        className={`w-full py-2 px-4 rounded-lg font-medium transition-all duration-300
+          ${isGoingLive || isLoading
+            ? 'bg-dark-lighter text-gray-500 cursor-not-allowed'
+            : 'bg-gradient-to-r from-lime to-lime-dark hover:from-lime-light hover:to-lime text-dark-darker'
+          }`}
+      >
+        {isGoingLive ? 'Going live...' : 'Go Live'}
+      </button>
+    </div>
+  );
+}
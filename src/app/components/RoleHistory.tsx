@@ -0,0 +1,217 @@
+/**
+ * @file RoleHistory.tsx
+ * @description Role change history table with filters and pagination
+ * @module app/components/RoleHistory
+ */
+
+'use client';
+
+import React from 'react';
+import { useState, useEffect } from 'react';
+import { signOut } from 'next-auth/react';
+import { FaHistory, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+import { Server } from '@/types/server';
+import { RoleChangeEntry } from '@/types/guild';
+
+/**
+ * Represents a Discord role
+ * @interface Role
+ * @property {string} id - The unique identifier of the role
+ * @property {string} name - The name of the role
+ * @property {string} color - The color of the role in hexadecimal format
+ */
+interface Role {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for the RoleHistory component
+ * @interface RoleHistoryProps
+ * @property {Server} server - The server to show history for
+ * @property {Role[]} roles - The server's roles, used to display role names
+ */
+interface RoleHistoryProps {
+  server: Server;
+  roles: Role[];
+}
+
+const PAGE_SIZE = 25;
+
+/**
+ * Role change history component
+ * @component
+ * @param {RoleHistoryProps} props - Component props
+ * @returns {JSX.Element} The role change history table
+ */
+export default function RoleHistory({ server, roles }: RoleHistoryProps) {
+  const [entries, setEntries] = useState<RoleChangeEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [userId, setUserId] = useState('');
+  const [action, setAction] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    fetchHistory();
+  }, [server.id, page, userId, action, from, to]);
+
+  /**
+   * Fetches a page of role change history for the server
+   * @async
+   * @function fetchHistory
+   * @returns {Promise<void>}
+   */
+  const fetchHistory = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      });
+      if (userId) params.set('userId', userId);
+      if (action) params.set('action', action);
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const response = await fetch(`/api/guilds/${server.id}/history?${params}`);
+      if (!response.ok) {
+        const data = await response.json();
+        if (response.status === 401) {
+          signOut({ callbackUrl: '/' });
+          return;
+        }
+        throw new Error(data.error || 'Failed to fetch history');
+      }
+
+      const data = await response.json();
+      setEntries(data.entries);
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Error fetching history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = 'bg-dark border border-lime/20 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40';
+
+  return (
+    <div className="mt-8">
+      <h2 className="flex items-center gap-2 text-xl font-semibold text-lime-light mb-4">
+        <FaHistory className="text-lime" />
+        Role History
+      </h2>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <input
+          type="text"
+          placeholder="Filter by user ID"
+          value={userId}
+          onChange={(e) => { setUserId(e.target.value.trim()); setPage(1); }}
+          className={inputClassName}
+        />
+        <select
+          value={action}
+          onChange={(e) => { setAction(e.target.value); setPage(1); }}
+          className={inputClassName}
+        >
+          <option value="">All actions</option>
+          <option value="add">Added</option>
+          <option value="remove">Removed</option>
+        </select>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+          className={inputClassName}
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => { setTo(e.target.value); setPage(1); }}
+          className={inputClassName}
+          aria-label="To date"
+        />
+      </div>
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 border border-red-900/40 rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-lime/20">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-dark text-lime-light">
+            <tr>
+              <th className="px-3 py-2 font-medium">Time</th>
+              <th className="px-3 py-2 font-medium">User</th>
+              <th className="px-3 py-2 font-medium">Role</th>
+              <th className="px-3 py-2 font-medium">Action</th>
+              <th className="px-3 py-2 font-medium">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-300">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-gray-400">Loading history...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-6 text-center text-gray-400">No role changes recorded</td>
+              </tr>
+            ) : entries.map((entry) => (
+              <tr key={entry.id} className="border-t border-lime/10">
+                <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                <td className="px-3 py-2 font-mono text-xs">{entry.userId}</td>
+                <td className="px-3 py-2">{roles.find(role => role.id === entry.roleId)?.name ?? entry.roleId}</td>
+                <td className="px-3 py-2">
+                  <span className={`px-2 py-1 text-xs rounded ${entry.action === 'add' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                    {entry.action === 'add' ? 'Added' : 'Removed'}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-gray-400">{entry.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-3 text-sm text-gray-400">
+        <span>{total} change{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || isLoading}
+            className="p-2 text-lime-light disabled:text-gray-600 disabled:cursor-not-allowed"
+            aria-label="Previous page"
+          >
+            <FaChevronLeft />
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="p-2 text-lime-light disabled:text-gray-600 disabled:cursor-not-allowed"
+            aria-label="Next page"
+          >
+            <FaChevronRight />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,19 @@
 import React from 'react';
 import { useState, useEffect } from 'react';
 import { useSession, signOut } from 'next-auth/react';
-import { FaUserTag, FaHashtag } from 'react-icons/fa';
+import { FaUserTag, FaHashtag, FaHandshake, FaPlus, FaTrash, FaHourglassHalf, FaShieldAlt } from 'react-icons/fa';
 import { Server } from '@/types/server';
+import { EligibilityRules, GuildHealthReport, LogSettings, TagRoleMapping, TenureTier, ThankYouSettings as ThankYouSettingsData } from '@/types/guild';
+import { DEFAULT_LOG_SETTINGS, validateLogTemplate } from '@/lib/role-change-log';
+import { DEFAULT_THANK_YOU_SETTINGS } from '@/lib/thank-you';
+import PreviewPanel from './PreviewPanel';
+import LogFormatSettings from './LogFormatSettings';
+import ThankYouSettings, { hasThankYouError } from './ThankYouSettings';
+import TenureTierEditor from './TenureTierEditor';
+import EligibilitySettings, { DEFAULT_ELIGIBILITY_RULES } from './EligibilitySettings';
+import HealthWarnings from './HealthWarnings';
+import OnboardingPanel from './OnboardingPanel';
+import SyncFailures from './SyncFailures';
 
 /**
  * Represents a Discord role
@@ -55,6 +66,8 @@ interface ServerConfigFormProps {
   hasTagsFeature?: boolean;
 }
 
+const DEFAULT_MAX_REMOVAL_PERCENT = 20;
+
 /**
  * Server configuration form component
  * @component
@@ -67,9 +80,23 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
   const [channels, setChannels] = useState<Channel[]>([]);
   const [selectedRole, setSelectedRole] = useState('');
   const [selectedChannel, setSelectedChannel] = useState('');
+  const [mappings, setMappings] = useState<TagRoleMapping[]>([]);
+  const [tiers, setTiers] = useState<TenureTier[]>([]);
+  const [eligibilityRules, setEligibilityRules] = useState<EligibilityRules>(DEFAULT_ELIGIBILITY_RULES);
+  // New configurations start in preview mode so admins can review changes before going live
+  const [previewMode, setPreviewMode] = useState(true);
+  const [savedPreviewMode, setSavedPreviewMode] = useState(false);
+  const [healthAlertsEnabled, setHealthAlertsEnabled] = useState(false);
+  const [health, setHealth] = useState<GuildHealthReport | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+  const [removalGraceMinutes, setRemovalGraceMinutes] = useState(0);
+  const [maxRemovalPercent, setMaxRemovalPercent] = useState(DEFAULT_MAX_REMOVAL_PERCENT);
+  const [logSettings, setLogSettings] = useState<LogSettings>(DEFAULT_LOG_SETTINGS);
+  const [thankYouSettings, setThankYouSettings] = useState<ThankYouSettingsData>(DEFAULT_THANK_YOU_SETTINGS);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [saveCount, setSaveCount] = useState(0);
   const [isLoadingRoles, setIsLoadingRoles] = useState(true);
   const [isLoadingChannels, setIsLoadingChannels] = useState(true);
 
@@ -133,6 +160,17 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
       setChannels([]);
       setSelectedRole('');
       setSelectedChannel('');
+      setMappings([]);
+      setTiers([]);
+      setEligibilityRules(DEFAULT_ELIGIBILITY_RULES);
+      setPreviewMode(true);
+      setSavedPreviewMode(false);
+      setHealthAlertsEnabled(false);
+      setHealth(null);
+      setRemovalGraceMinutes(0);
+      setMaxRemovalPercent(DEFAULT_MAX_REMOVAL_PERCENT);
+      setLogSettings(DEFAULT_LOG_SETTINGS);
+      setThankYouSettings(DEFAULT_THANK_YOU_SETTINGS);
       setIsLoadingRoles(false);
       setIsLoadingChannels(false);
     }
@@ -224,6 +262,17 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
           // Configuration doesn't exist yet, which is fine
           setSelectedRole('');
           setSelectedChannel('');
+          setMappings([]);
+          setTiers([]);
+          setEligibilityRules(DEFAULT_ELIGIBILITY_RULES);
+          setPreviewMode(true);
+          setSavedPreviewMode(false);
+          setHealthAlertsEnabled(false);
+          setHealth(null);
+          setRemovalGraceMinutes(0);
+          setMaxRemovalPercent(DEFAULT_MAX_REMOVAL_PERCENT);
+          setLogSettings(DEFAULT_LOG_SETTINGS);
+          setThankYouSettings(DEFAULT_THANK_YOU_SETTINGS);
           return;
         }
         throw new Error(data.error || 'Failed to fetch configuration');
@@ -233,10 +282,54 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
       if (data === null || data === undefined) {
         setSelectedRole('');
         setSelectedChannel('');
+        setMappings([]);
+        setTiers([]);
+        setEligibilityRules(DEFAULT_ELIGIBILITY_RULES);
+        setPreviewMode(true);
+        setSavedPreviewMode(false);
+        setHealthAlertsEnabled(false);
+        setHealth(null);
+        setRemovalGraceMinutes(0);
+        setMaxRemovalPercent(DEFAULT_MAX_REMOVAL_PERCENT);
+        setLogSettings(DEFAULT_LOG_SETTINGS);
+        setThankYouSettings(DEFAULT_THANK_YOU_SETTINGS);
         return;
       }
       setSelectedRole(data.roleId || '');
       setSelectedChannel(data.logChannelId || '');
+      setMappings((data.mappings || []).map((mapping: TagRoleMapping) => ({
+        sourceGuildId: mapping.sourceGuildId,
+        roleId: mapping.roleId,
+      })));
+      setTiers((data.tiers || []).map((tier: TenureTier) => ({
+        days: tier.days,
+        roleId: tier.roleId,
+      })));
+      setEligibilityRules({
+        ignoreBots: data.ignoreBots ?? DEFAULT_ELIGIBILITY_RULES.ignoreBots,
+        exemptRoleIds: (data.exemptRoles || []).map((role: { roleId: string }) => role.roleId),
+        requiredRoleId: data.requiredRoleId ?? null,
+        minMembershipDays: data.minMembershipDays ?? 0,
+      });
+      setPreviewMode(Boolean(data.previewMode));
+      setSavedPreviewMode(Boolean(data.previewMode));
+      setHealthAlertsEnabled(Boolean(data.healthAlertsEnabled));
+      setRemovalGraceMinutes(data.removalGraceMinutes ?? 0);
+      setMaxRemovalPercent(data.maxRemovalPercent ?? DEFAULT_MAX_REMOVAL_PERCENT);
+      setLogSettings({
+        logFormat: data.logFormat || DEFAULT_LOG_SETTINGS.logFormat,
+        logTemplate: data.logTemplate ?? null,
+        logTitle: data.logTitle ?? null,
+        logColor: data.logColor ?? null,
+      });
+      setThankYouSettings({
+        welcomeDmEnabled: Boolean(data.welcomeDmEnabled),
+        welcomeDmMessage: data.welcomeDmMessage ?? null,
+        shoutoutChannelId: data.shoutoutChannelId ?? null,
+        shoutoutMessage: data.shoutoutMessage ?? null,
+        thankYouCooldownHours: data.thankYouCooldownHours ?? DEFAULT_THANK_YOU_SETTINGS.thankYouCooldownHours,
+      });
+      fetchHealth();
     } catch (error) {
       console.error('Error fetching configuration:', error);
       // Don't set error state for missing configuration
@@ -246,6 +339,39 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
     }
   };
 
+  /**
+   * Runs the preflight health check for the saved configuration
+   * @async
+   * @function fetchHealth
+   * @returns {Promise<void>}
+   */
+  const fetchHealth = async () => {
+    try {
+      setIsCheckingHealth(true);
+      const response = await fetch(`/api/guilds/${server.id}/health`);
+      // The check is advisory, so an unconfigured guild or a bot that isn't ready just hides it
+      setHealth(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error checking server health:', error);
+      setHealth(null);
+    } finally {
+      setIsCheckingHealth(false);
+    }
+  };
+
+  /**
+   * Updates a single field of a tag-to-role mapping
+   * @function updateMapping
+   * @param {number} index - The index of the mapping to update
+   * @param {keyof TagRoleMapping} field - The field to update
+   * @param {string} value - The new value
+   */
+  const updateMapping = (index: number, field: keyof TagRoleMapping, value: string) => {
+    setMappings(current => current.map((mapping, i) =>
+      i === index ? { ...mapping, [field]: value } : mapping
+    ));
+  };
+
   /**
    * Handles form submission to save the server configuration
    * @async
@@ -269,11 +395,20 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
           guildId: server.id,
           roleId: selectedRole,
           logChannelId: selectedChannel || null,
+          previewMode,
+          healthAlertsEnabled,
+          removalGraceMinutes,
+          maxRemovalPercent,
+          mappings,
+          tiers,
+          ...eligibilityRules,
+          ...logSettings,
+          ...thankYouSettings,
         }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         if (response.status === 401) {
           signOut({ callbackUrl: '/' });
           return;
@@ -281,7 +416,10 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
         throw new Error(data.error || 'Failed to save configuration');
       }
 
+      setHealth(data.health ?? null);
       setSuccess(true);
+      setSaveCount(count => count + 1);
+      setSavedPreviewMode(previewMode);
     } catch (error) {
       console.error('Error saving configuration:', error);
       setError(error instanceof Error ? error.message : 'Failed to save configuration');
@@ -290,6 +428,9 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
     }
   };
 
+  const hasTemplateError = logSettings.logFormat === 'custom' && validateLogTemplate(logSettings.logTemplate ?? '') !== null;
+  const isSubmitDisabled = loading || !selectedRole || isLoadingRoles || isLoadingChannels || hasTemplateError || hasThankYouError(thankYouSettings);
+
   if (!session) {
     return (
       <div className="text-center p-4">
@@ -303,6 +444,8 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
 
       {hasTagsFeature && (
         <>
+          <HealthWarnings report={health} onRecheck={fetchHealth} checking={isCheckingHealth} />
+
           <div>
             <label htmlFor="role" className="block text-sm font-medium text-lime-light mb-2">
               <div className="flex items-center gap-2">
@@ -383,8 +526,193 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
                   );
                 })}
             </select>
+            {selectedChannel && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={healthAlertsEnabled}
+                  onChange={(e) => setHealthAlertsEnabled(e.target.checked)}
+                  className="accent-lime"
+                />
+                Post setup problems, like missing permissions or deleted roles, to this channel
+              </label>
+            )}
           </div>
 
+          <LogFormatSettings
+            settings={logSettings}
+            onChange={setLogSettings}
+            roles={roles}
+            previewRoleIds={[selectedRole, ...mappings.map(mapping => mapping.roleId), ...tiers.map(tier => tier.roleId)]}
+          />
+
+          <ThankYouSettings
+            settings={thankYouSettings}
+            onChange={setThankYouSettings}
+            channels={channels}
+            serverName={server.name}
+            roleName={roles.find(role => role.id === selectedRole)?.name ?? 'Tag Role'}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-lime-light mb-2">
+              <div className="flex items-center gap-2">
+                <FaHandshake className="text-lime" />
+                Partner Tag Roles
+              </div>
+            </label>
+            <p className="mb-3 text-sm text-gray-400">
+              Grant a different role to members wearing another server's tag.
+            </p>
+            <div className="space-y-2">
+              {mappings.map((mapping, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    pattern="\d{17,20}"
+                    placeholder="Partner server ID"
+                    value={mapping.sourceGuildId}
+                    onChange={(e) => updateMapping(index, 'sourceGuildId', e.target.value.trim())}
+                    className="flex-1 min-w-0 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+                    required
+                  />
+                  <select
+                    value={mapping.roleId}
+                    onChange={(e) => updateMapping(index, 'roleId', e.target.value)}
+                    className="flex-1 min-w-0 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+                    required
+                    disabled={isLoadingRoles}
+                  >
+                    <option value="">Select a role</option>
+                    {roles.map((role) => (
+                      <option
+                        key={role.id}
+                        value={role.id}
+                        style={{
+                          color: getTextColor(role.color)
+                        }}
+                      >
+                        {role.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setMappings(current => current.filter((_, i) => i !== index))}
+                    className="p-3 text-red-400 hover:text-red-300 transition-colors"
+                    aria-label="Remove mapping"
+                  >
+                    <FaTrash />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setMappings(current => [...current, { sourceGuildId: '', roleId: '' }])}
+              className="mt-2 flex items-center gap-2 text-sm text-lime-light hover:text-lime transition-colors"
+            >
+              <FaPlus />
+              Add partner tag
+            </button>
+          </div>
+
+          <TenureTierEditor
+            tiers={tiers}
+            onChange={setTiers}
+            roles={roles}
+            getRoleColor={getTextColor}
+            disabled={isLoadingRoles}
+          />
+
+          <EligibilitySettings
+            rules={eligibilityRules}
+            onChange={setEligibilityRules}
+            roles={roles.filter(role => role.id !== selectedRole)}
+            getRoleColor={getTextColor}
+            disabled={isLoadingRoles}
+          />
+
+          <div>
+            <label htmlFor="removalGraceMinutes" className="block text-sm font-medium text-lime-light mb-2">
+              <div className="flex items-center gap-2">
+                <FaHourglassHalf className="text-lime" />
+                Removal Grace Period
+              </div>
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="removalGraceMinutes"
+                type="number"
+                min={0}
+                max={10080}
+                value={removalGraceMinutes}
+                onChange={(e) => setRemovalGraceMinutes(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                className="w-28 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+              />
+              <span className="text-sm text-gray-300">minutes</span>
+            </div>
+            <p className="mt-2 text-sm text-gray-400">
+              Keep the role this long after a member takes the tag off, so briefly switching tags doesn't remove it. Use 0 to remove immediately.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="maxRemovalPercent" className="block text-sm font-medium text-lime-light mb-2">
+              <div className="flex items-center gap-2">
+                <FaShieldAlt className="text-lime" />
+                Removal Safety Threshold
+              </div>
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="maxRemovalPercent"
+                type="number"
+                min={1}
+                max={100}
+                value={maxRemovalPercent}
+                onChange={(e) => setMaxRemovalPercent(Math.min(100, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                className="w-28 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+              />
+              <span className="text-sm text-gray-300">% of role holders</span>
+            </div>
+            <p className="mt-2 text-sm text-gray-400">
+              A sync that would remove a role from more members than this is blocked until confirmed below or with <code>/tagrole sync confirm:True</code>.
+            </p>
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={previewMode}
+              onChange={(e) => setPreviewMode(e.target.checked)}
+              className="mt-1 accent-lime"
+            />
+            <span>
+              <span className="block text-sm font-medium text-lime-light">Preview mode</span>
+              <span className="block text-sm text-gray-400">Show the role changes the bot would make without applying them.</span>
+            </span>
+          </label>
+
+          {!savedPreviewMode && (
+            <>
+              <OnboardingPanel server={server} refreshKey={saveCount} />
+              <SyncFailures server={server} refreshKey={saveCount} />
+            </>
+          )}
+
+          {savedPreviewMode && (
+            <PreviewPanel
+              server={server}
+              roles={roles}
+              onGoLive={() => {
+                setPreviewMode(false);
+                setSavedPreviewMode(false);
+              }}
+            />
+          )}
+
           {error && (
             <div className="text-red-400 text-sm bg-red-900/20 border border-red-900/40 rounded-lg p-3">
               {error}
@@ -399,9 +727,9 @@ export default function ServerConfigForm({ server, hasTagsFeature = false }: Ser
 
           <button
             type="submit"
-            disabled={loading || !selectedRole || isLoadingRoles || isLoadingChannels}
+            disabled={isSubmitDisabled}
             className={`w-full flex justify-center items-center gap-2 py-3 px-4 rounded-lg font-medium transition-all duration-300
-              ${loading || !selectedRole || isLoadingRoles || isLoadingChannels
+              ${isSubmitDisabled
                 ? 'bg-dark-lighter text-gray-500 cursor-not-allowed'
                 : 'bg-gradient-to-r from-lime to-lime-dark hover:from-lime-light hover:to-lime text-dark-darker shadow-lg shadow-lime/25 hover:shadow-lime/40 hover:scale-105'
               }`}
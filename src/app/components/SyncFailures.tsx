@@ -0,0 +1,181 @@
+/**
+ * @file SyncFailures.tsx
+ * @description Recent failed and blocked syncs of a server, with a confirmation for syncs blocked by the removal safety threshold
+ * @module app/components/SyncFailures
+ */
+
+'use client';
+
+import React from 'react';
+import { useState, useEffect } from 'react';
+import { FaExclamationTriangle, FaCheck } from 'react-icons/fa';
+import { Server } from '@/types/server';
+import { SyncFailureEntry, SyncStatus } from '@/types/guild';
+
+/**
+ * Props for the SyncFailures component
+ * @interface SyncFailuresProps
+ * @property {Server} server - The server whose syncs are shown
+ * @property {number} refreshKey - Changes whenever the configuration is saved, to load the failures again
+ */
+interface SyncFailuresProps {
+  server: Server;
+  refreshKey: number;
+}
+
+/**
+ * Sync state as returned by the sync API
+ * @interface SyncState
+ * @property {{lastCompletedAt: number | null} | null} metrics - Timing of the guild's syncs since the bot started
+ * @property {SyncFailureEntry[]} failures - Recent failed or blocked syncs, newest first
+ */
+interface SyncState {
+  metrics: { lastCompletedAt: number | null } | null;
+  failures: SyncFailureEntry[];
+}
+
+/**
+ * Result of a confirmed sync as returned by the sync API
+ * @interface ConfirmResult
+ * @property {number} added - Roles added
+ * @property {number} removed - Roles removed
+ * @property {SyncStatus} status - Whether the sync completed, failed or was blocked
+ */
+interface ConfirmResult {
+  added: number;
+  removed: number;
+  status: SyncStatus;
+}
+
+/**
+ * Sync failures component, rendering nothing until a sync has failed or been blocked
+ * @component
+ * @param {SyncFailuresProps} props - Component props
+ * @returns {JSX.Element | null} The failures
+ */
+export default function SyncFailures({ server, refreshKey }: SyncFailuresProps) {
+  const [state, setState] = useState<SyncState | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmResult, setConfirmResult] = useState<ConfirmResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetches the recent failures and the guild's sync metrics
+   * @async
+   * @function fetchState
+   * @returns {Promise<void>}
+   */
+  const fetchState = async () => {
+    try {
+      const response = await fetch(`/api/guilds/${server.id}/sync`);
+      setState(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error fetching sync failures:', error);
+      setState(null);
+    }
+  };
+
+  useEffect(() => {
+    setConfirmResult(null);
+    setError(null);
+    fetchState();
+  }, [server.id, refreshKey]);
+
+  /**
+   * Runs a sync that applies removals above the safety threshold
+   * @async
+   * @function confirmRemovals
+   * @returns {Promise<void>}
+   */
+  const confirmRemovals = async () => {
+    setIsConfirming(true);
+    setError(null);
+    setConfirmResult(null);
+
+    try {
+      const response = await fetch(`/api/guilds/${server.id}/sync`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ confirmRemovals: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sync');
+      }
+      setConfirmResult(data);
+    } catch (error) {
+      console.error('Error confirming removals:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sync');
+    } finally {
+      setIsConfirming(false);
+      fetchState();
+    }
+  };
+
+  if (!state || (state.failures.length === 0 && !confirmResult)) {
+    return null;
+  }
+
+  // A blocked sync stays blocked until a later sync completes
+  const latest = state.failures[0];
+  const lastCompletedAt = state.metrics?.lastCompletedAt ?? null;
+  const isBlocked = latest?.type === 'blocked'
+    && (lastCompletedAt === null || lastCompletedAt < new Date(latest.createdAt).getTime());
+
+  return (
+    <div className="p-4 bg-dark rounded-lg border border-lime/20 space-y-3 text-sm">
+      {isBlocked && (
+        <div className="rounded-lg border p-3 bg-yellow-900/20 border-yellow-900/40 space-y-2">
+          <div className="flex items-center gap-2 font-medium text-yellow-400">
+            <FaExclamationTriangle />
+            Sync blocked
+          </div>
+          <p className="text-yellow-300">{latest.message}</p>
+          <p className="text-gray-400">
+            Confirm only if members really took the tag off, e.g. after a tag change. Roles are not removed until you do.
+          </p>
+          <button
+            type="button"
+            onClick={confirmRemovals}
+            disabled={isConfirming}
+            className="px-4 py-2 rounded-lg font-medium bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 transition-colors disabled:opacity-50"
+          >
+            {isConfirming ? 'Syncing...' : 'Confirm removals and sync'}
+          </button>
+        </div>
+      )}
+
+      {confirmResult && (
+        <p className="flex items-center gap-2 text-lime-light">
+          <FaCheck />
+          Sync completed: {confirmResult.added} role{confirmResult.added === 1 ? '' : 's'} added, {confirmResult.removed} removed.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-red-400">{error}</p>
+      )}
+
+      {state.failures.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-lime-light mb-2">Recent sync problems</h3>
+          <ul className="space-y-1">
+            {state.failures.map(failure => (
+              <li key={failure.id} className="text-gray-300">
+                <span className={failure.type === 'blocked' ? 'text-yellow-400' : 'text-red-400'}>
+                  {failure.type === 'blocked' ? 'Blocked' : 'Failed'}
+                </span>
+                {' '}
+                <span className="text-gray-500">{new Date(failure.createdAt).toLocaleString()}</span>
+                {' – '}
+                {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
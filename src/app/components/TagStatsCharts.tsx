@@ -0,0 +1,266 @@
+/**
+ * @file TagStatsCharts.tsx
+ * @description Charts of a server's tag adoption and role changes over time
+ * @module app/components/TagStatsCharts
+ */
+
+'use client';
+
+import React from 'react';
+import { useState, useEffect } from 'react';
+import { signOut } from 'next-auth/react';
+import { FaChartLine } from 'react-icons/fa';
+import { Server } from '@/types/server';
+import { StatsGranularity, StatsRange, TagStatsPoint } from '@/types/guild';
+import { STATS_GRANULARITIES, STATS_RANGES, isStatsResolutionAllowed } from '@/lib/stats';
+
+/**
+ * Props for the TagStatsCharts component
+ * @interface TagStatsChartsProps
+ * @property {Server} server - The server to show stats for
+ */
+interface TagStatsChartsProps {
+  server: Server;
+}
+
+/**
+ * A line drawn on the adoption chart
+ * @interface Series
+ * @property {string} label - The legend label
+ * @property {string} className - Tailwind classes coloring the line
+ * @property {(point: TagStatsPoint) => number} value - Reads the line's value from a point
+ */
+interface Series {
+  label: string;
+  className: string;
+  value: (point: TagStatsPoint) => number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const ADOPTION_SERIES: Series[] = [
+  { label: 'Wearing tag', className: 'stroke-lime', value: point => point.tagWearers },
+  { label: 'With role', className: 'stroke-sky-400', value: point => point.roleHolders },
+];
+
+const RANGE_LABELS: Record<StatsRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last year',
+};
+
+/**
+ * Tag stats charts component
+ * @component
+ * @param {TagStatsChartsProps} props - Component props
+ * @returns {JSX.Element} The stats charts
+ */
+export default function TagStatsCharts({ server }: TagStatsChartsProps) {
+  const [range, setRange] = useState<StatsRange>('30d');
+  const [granularity, setGranularity] = useState<StatsGranularity>('day');
+  const [points, setPoints] = useState<TagStatsPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStats();
+  }, [server.id, range, granularity]);
+
+  /**
+   * Fetches the tag adoption series for the server
+   * @async
+   * @function fetchStats
+   * @returns {Promise<void>}
+   */
+  const fetchStats = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/guilds/${server.id}/stats?${new URLSearchParams({ range, granularity })}`);
+      if (!response.ok) {
+        const data = await response.json();
+        if (response.status === 401) {
+          signOut({ callbackUrl: '/' });
+          return;
+        }
+        throw new Error(data.error || 'Failed to fetch stats');
+      }
+
+      const data = await response.json();
+      setPoints(data.points);
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load stats');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Changes the range, switching to a coarser granularity if the current one would have too many points
+   * @function changeRange
+   * @param {StatsRange} value - The new range
+   */
+  const changeRange = (value: StatsRange) => {
+    setRange(value);
+    if (!isStatsResolutionAllowed(value, granularity)) {
+      setGranularity(isStatsResolutionAllowed(value, 'day') ? 'day' : 'week');
+    }
+  };
+
+  /**
+   * Maps a point's index to its horizontal position
+   * @function xFor
+   * @param {number} index - The point's index
+   * @returns {number} The x coordinate
+   */
+  const xFor = (index: number) => points.length > 1 ? (index / (points.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+
+  /**
+   * Renders the tag wearers and role holders lines
+   * @function renderAdoptionChart
+   * @returns {JSX.Element} The chart
+   */
+  const renderAdoptionChart = () => {
+    const max = Math.max(1, ...points.flatMap(point => ADOPTION_SERIES.map(series => series.value(point))));
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none" role="img" aria-label="Tag wearers and role holders over time">
+        {ADOPTION_SERIES.map(series => (
+          <polyline
+            key={series.label}
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className={series.className}
+            points={points.map((point, index) => `${xFor(index)},${CHART_HEIGHT - (series.value(point) / max) * (CHART_HEIGHT - 4) - 2}`).join(' ')}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  /**
+   * Renders roles added above the axis and roles removed below it
+   * @function renderChangesChart
+   * @returns {JSX.Element} The chart
+   */
+  const renderChangesChart = () => {
+    const max = Math.max(1, ...points.map(point => Math.max(point.rolesAdded, point.rolesRemoved)));
+    const middle = CHART_HEIGHT / 2;
+    const barWidth = Math.max(1, CHART_WIDTH / Math.max(points.length, 1) - 2);
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none" role="img" aria-label="Roles added and removed over time">
+        <line x1={0} x2={CHART_WIDTH} y1={middle} y2={middle} className="stroke-gray-600" vectorEffect="non-scaling-stroke" />
+        {points.map((point, index) => {
+          const x = (index / Math.max(points.length, 1)) * CHART_WIDTH + 1;
+          const added = (point.rolesAdded / max) * middle;
+          const removed = (point.rolesRemoved / max) * middle;
+          return (
+            <g key={point.time}>
+              <rect x={x} y={middle - added} width={barWidth} height={added} className="fill-green-500/70">
+                <title>{`${new Date(point.time).toLocaleString()}: ${point.rolesAdded} added`}</title>
+              </rect>
+              <rect x={x} y={middle} width={barWidth} height={removed} className="fill-red-500/70">
+                <title>{`${new Date(point.time).toLocaleString()}: ${point.rolesRemoved} removed`}</title>
+              </rect>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  const latest = points[points.length - 1];
+  const inputClassName = 'bg-dark border border-lime/20 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40';
+
+  return (
+    <div className="mt-8">
+      <h2 className="flex items-center gap-2 text-xl font-semibold text-lime-light mb-4">
+        <FaChartLine className="text-lime" />
+        Tag Adoption
+      </h2>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <select
+          value={range}
+          onChange={(e) => changeRange(e.target.value as StatsRange)}
+          className={inputClassName}
+          aria-label="Range"
+        >
+          {(Object.keys(STATS_RANGES) as StatsRange[]).map(value => (
+            <option key={value} value={value}>{RANGE_LABELS[value]}</option>
+          ))}
+        </select>
+        <select
+          value={granularity}
+          onChange={(e) => setGranularity(e.target.value as StatsGranularity)}
+          className={inputClassName}
+          aria-label="Granularity"
+        >
+          {(Object.keys(STATS_GRANULARITIES) as StatsGranularity[]).map(value => (
+            <option key={value} value={value} disabled={!isStatsResolutionAllowed(range, value)}>
+              {`By ${value}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 border border-red-900/40 rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="py-6 text-center text-sm text-gray-400">Loading stats...</p>
+      ) : points.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-400">No stats recorded yet. Snapshots are taken after each full sync.</p>
+      ) : (
+        <div className="space-y-4">
+          {latest && (
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="p-3 bg-dark rounded-lg border border-lime/20">
+                <div className="text-gray-400">Wearing tag</div>
+                <div className="text-lg text-lime-light">{latest.tagWearers}</div>
+              </div>
+              <div className="p-3 bg-dark rounded-lg border border-lime/20">
+                <div className="text-gray-400">With role</div>
+                <div className="text-lg text-sky-400">{latest.roleHolders}</div>
+              </div>
+              <div className="p-3 bg-dark rounded-lg border border-lime/20">
+                <div className="text-gray-400">Adoption</div>
+                <div className="text-lg text-gray-300">
+                  {latest.memberCount > 0 ? `${((latest.tagWearers / latest.memberCount) * 100).toFixed(1)}%` : '–'}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 bg-dark rounded-lg border border-lime/20">
+            {renderAdoptionChart()}
+            <div className="flex gap-4 mt-2 text-xs text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-lime" />Wearing tag</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-sky-400" />With role</span>
+            </div>
+          </div>
+
+          <div className="p-3 bg-dark rounded-lg border border-lime/20">
+            {renderChangesChart()}
+            <div className="flex gap-4 mt-2 text-xs text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 bg-green-500/70" />Roles added</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-500/70" />Roles removed</span>
+            </div>
+          </div>
+
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{new Date(points[0].time).toLocaleDateString()}</span>
+            <span>{new Date(latest.time).toLocaleDateString()}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * @file TenureTierEditor.tsx
+ * @description Editor for the extra roles granted after wearing the server tag for a number of days
+ * @module app/components/TenureTierEditor
+ */
+
+'use client';
+
+import React from 'react';
+import { FaMedal, FaPlus, FaTrash } from 'react-icons/fa';
+import { TenureTier } from '@/types/guild';
+
+/**
+ * Represents a Discord role
+ * @interface Role
+ * @property {string} id - The unique identifier of the role
+ * @property {string} name - The name of the role
+ * @property {string} color - The color of the role in hexadecimal format
+ */
+interface Role {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for the TenureTierEditor component
+ * @interface TenureTierEditorProps
+ * @property {TenureTier[]} tiers - The current tiers
+ * @property {(tiers: TenureTier[]) => void} onChange - Called with the updated tiers
+ * @property {Role[]} roles - The server's roles to choose tier roles from
+ * @property {(hexColor: string) => string} getRoleColor - Gets a readable text color for a role
+ * @property {boolean} disabled - Whether the role lists are still loading
+ */
+interface TenureTierEditorProps {
+  tiers: TenureTier[];
+  onChange: (tiers: TenureTier[]) => void;
+  roles: Role[];
+  getRoleColor: (hexColor: string) => string;
+  disabled: boolean;
+}
+
+const MAX_TIERS = 10;
+const SUGGESTED_DAYS = [7, 30, 90, 180, 365];
+
+/**
+ * Tenure tier editor component
+ * @component
+ * @param {TenureTierEditorProps} props - Component props
+ * @returns {JSX.Element} The tier editor
+ */
+export default function TenureTierEditor({ tiers, onChange, roles, getRoleColor, disabled }: TenureTierEditorProps) {
+  /**
+   * Updates a field of a tier
+   * @function updateTier
+   * @param {number} index - The tier's index
+   * @param {Partial<TenureTier>} changes - The fields to change
+   */
+  const updateTier = (index: number, changes: Partial<TenureTier>) => {
+    onChange(tiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier));
+  };
+
+  /**
+   * Adds a tier, suggesting the next common milestone
+   * @function addTier
+   */
+  const addTier = () => {
+    const longest = Math.max(0, ...tiers.map(tier => tier.days));
+    const days = SUGGESTED_DAYS.find(value => value > longest) ?? longest + 30;
+    onChange([...tiers, { days, roleId: '' }]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-lime-light mb-2">
+        <div className="flex items-center gap-2">
+          <FaMedal className="text-lime" />
+          Tenure Roles
+        </div>
+      </label>
+      <p className="mb-3 text-sm text-gray-400">
+        Grant extra roles to members who keep wearing this server's tag. Taking the tag off resets their streak.
+      </p>
+      <div className="space-y-2">
+        {tiers.map((tier, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={3650}
+              value={tier.days}
+              onChange={(e) => updateTier(index, { days: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+              className="w-24 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+              aria-label="Days worn"
+              required
+            />
+            <span className="text-sm text-gray-300">days</span>
+            <select
+              value={tier.roleId}
+              onChange={(e) => updateTier(index, { roleId: e.target.value })}
+              className="flex-1 min-w-0 bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40"
+              required
+              disabled={disabled}
+            >
+              <option value="">Select a role</option>
+              {roles.map((role) => (
+                <option
+                  key={role.id}
+                  value={role.id}
+                  style={{
+                    color: getRoleColor(role.color)
+                  }}
+                >
+                  {role.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+              className="p-3 text-red-400 hover:text-red-300 transition-colors"
+              aria-label="Remove tier"
+            >
+              <FaTrash />
+            </button>
+          </div>
+        ))}
+      </div>
+      {tiers.length < MAX_TIERS && (
+        <button
+          type="button"
+          onClick={addTier}
+          className="mt-2 flex items-center gap-2 text-sm text-lime-light hover:text-lime transition-colors"
+        >
+          <FaPlus />
+          Add tier
+        </button>
+      )}
+    </div>
+  );
+}
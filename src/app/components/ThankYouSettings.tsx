@@ -0,0 +1,184 @@
+/**
+ * @file ThankYouSettings.tsx
+ * @description Settings for the DM and shout-out sent when a member equips the server tag
+ * @module app/components/ThankYouSettings
+ */
+
+'use client';
+
+import React from 'react';
+import { FaGift } from 'react-icons/fa';
+import { ThankYouSettings as ThankYouSettingsData } from '@/types/guild';
+import {
+  THANK_YOU_PLACEHOLDERS,
+  DEFAULT_WELCOME_DM,
+  DEFAULT_SHOUTOUT,
+  MAX_THANK_YOU_LENGTH,
+  renderThankYouMessage,
+  validateThankYouTemplate
+} from '@/lib/thank-you';
+
+/**
+ * Represents a Discord channel
+ * @interface Channel
+ * @property {string} id - The unique identifier of the channel
+ * @property {string} name - The name of the channel
+ * @property {boolean} isCategory - Whether the channel is a category
+ * @property {number} position - The position of the channel in the channel list
+ */
+interface Channel {
+  id: string;
+  name: string;
+  isCategory: boolean;
+  position: number;
+}
+
+/**
+ * Props for the ThankYouSettings component
+ * @interface ThankYouSettingsProps
+ * @property {ThankYouSettingsData} settings - The current thank-you settings
+ * @property {(settings: ThankYouSettingsData) => void} onChange - Called with the updated settings
+ * @property {Channel[]} channels - The server's channels to choose a shout-out channel from
+ * @property {string} serverName - The server's name, used in the previews
+ * @property {string} roleName - The tag role's name, used in the previews
+ */
+interface ThankYouSettingsProps {
+  settings: ThankYouSettingsData;
+  onChange: (settings: ThankYouSettingsData) => void;
+  channels: Channel[];
+  serverName: string;
+  roleName: string;
+}
+
+const SAMPLE_USERNAME = 'member1234';
+
+/**
+ * Checks the templates of enabled thank-you messages
+ * @param {ThankYouSettingsData} settings - The settings to check
+ * @returns {boolean} Whether any enabled template is invalid
+ */
+export function hasThankYouError(settings: ThankYouSettingsData): boolean {
+  return (settings.welcomeDmEnabled && settings.welcomeDmMessage !== null && validateThankYouTemplate(settings.welcomeDmMessage) !== null)
+    || (settings.shoutoutChannelId !== null && settings.shoutoutMessage !== null && validateThankYouTemplate(settings.shoutoutMessage) !== null);
+}
+
+/**
+ * Thank-you settings component
+ * @component
+ * @param {ThankYouSettingsProps} props - Component props
+ * @returns {JSX.Element} The thank-you settings
+ */
+export default function ThankYouSettings({ settings, onChange, channels, serverName, roleName }: ThankYouSettingsProps) {
+  const inputClassName = 'w-full bg-dark border border-lime/20 rounded-lg px-4 py-2 text-gray-300 focus:outline-none focus:border-lime/40 focus:ring-1 focus:ring-lime/40';
+  const context = { userId: '0', username: SAMPLE_USERNAME, serverName, roleName };
+
+  /**
+   * Renders a template editor with its validation error and preview
+   * @function renderTemplateEditor
+   * @param {string | null} template - The current template, the default when null
+   * @param {string} fallback - The default template
+   * @param {(template: string | null) => void} onTemplateChange - Called with the updated template
+   * @param {string} label - Accessible label of the editor
+   * @returns {JSX.Element} The editor
+   */
+  const renderTemplateEditor = (
+    template: string | null,
+    fallback: string,
+    onTemplateChange: (template: string | null) => void,
+    label: string
+  ) => {
+    const error = template !== null ? validateThankYouTemplate(template) : null;
+    return (
+      <div className="mt-2">
+        <textarea
+          value={template ?? fallback}
+          onChange={(e) => onTemplateChange(e.target.value === fallback ? null : e.target.value)}
+          rows={2}
+          maxLength={MAX_THANK_YOU_LENGTH}
+          className={`${inputClassName} text-sm`}
+          aria-label={label}
+        />
+        {error ? (
+          <p className="mt-1 text-sm text-red-400">{error}</p>
+        ) : (
+          <p className="mt-1 text-xs text-gray-400">
+            Preview: {renderThankYouMessage(template, fallback, context).replace('<@0>', `@${SAMPLE_USERNAME}`)}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-lime-light mb-2">
+        <div className="flex items-center gap-2">
+          <FaGift className="text-lime" />
+          Thank Members
+        </div>
+      </label>
+      <p className="mb-3 text-sm text-gray-400">
+        Thank members when they equip this server's tag. Placeholders:{' '}
+        {Object.entries(THANK_YOU_PLACEHOLDERS).map(([name, description], index) => (
+          <span key={name} title={description}>
+            {index > 0 && ', '}
+            <code className="text-lime-light">{`{${name}}`}</code>
+          </span>
+        ))}
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.welcomeDmEnabled}
+          onChange={(e) => onChange({ ...settings, welcomeDmEnabled: e.target.checked })}
+          className="accent-lime"
+        />
+        Send a direct message
+      </label>
+      {settings.welcomeDmEnabled && renderTemplateEditor(
+        settings.welcomeDmMessage,
+        DEFAULT_WELCOME_DM,
+        (welcomeDmMessage) => onChange({ ...settings, welcomeDmMessage }),
+        'Welcome DM template'
+      )}
+
+      <select
+        value={settings.shoutoutChannelId ?? ''}
+        onChange={(e) => onChange({ ...settings, shoutoutChannelId: e.target.value || null })}
+        className={`${inputClassName} mt-3`}
+        aria-label="Shout-out channel"
+      >
+        <option value="">No public shout-out</option>
+        {channels
+          .filter(channel => !channel.isCategory)
+          .sort((a, b) => a.position - b.position)
+          .map(channel => (
+            <option key={channel.id} value={channel.id}>#{channel.name}</option>
+          ))}
+      </select>
+      {settings.shoutoutChannelId && renderTemplateEditor(
+        settings.shoutoutMessage,
+        DEFAULT_SHOUTOUT,
+        (shoutoutMessage) => onChange({ ...settings, shoutoutMessage }),
+        'Shout-out template'
+      )}
+
+      {(settings.welcomeDmEnabled || settings.shoutoutChannelId) && (
+        <div className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+          <label htmlFor="thankYouCooldownHours">Thank each member at most once every</label>
+          <input
+            id="thankYouCooldownHours"
+            type="number"
+            min={0}
+            max={720}
+            value={settings.thankYouCooldownHours}
+            onChange={(e) => onChange({ ...settings, thankYouCooldownHours: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className="w-20 bg-dark border border-lime/20 rounded-lg px-2 py-1 text-gray-300 focus:outline-none focus:border-lime/40"
+          />
+          <span>hours</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import { useSession, signOut } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { FaServer, FaChevronDown } from 'react-icons/fa';
 import ServerConfigForm from '../components/ServerConfigForm';
+import RoleHistory from '../components/RoleHistory';
+import TagStatsCharts from '../components/TagStatsCharts';
 import AddToDiscordButton from '@/components/AddToDiscordButton';
 import { Server } from '@/types/server';
 import ServerList from '@/components/ServerList';
@@ -347,6 +349,21 @@ export default function DashboardPage() {
               hasTagsFeature={selectedServer.hasTagsFeature}
             />
           )}
+
+          {selectedServer && selectedServer.hasBot && selectedServer.hasTagsFeature && (
+            <TagStatsCharts
+              key={`stats-${selectedServer.id}`}
+              server={selectedServer}
+            />
+          )}
+
+          {selectedServer && selectedServer.hasBot && selectedServer.hasTagsFeature && (
+            <RoleHistory
+              key={selectedServer.id}
+              server={selectedServer}
+              roles={roles}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,23 @@
+/**
+ * @file instrumentation.ts
+ * @description Starts the bot when the server boots, so readiness doesn't depend on the first request
+ * @module instrumentation
+ */
+
+/**
+ * Next.js server startup hook
+ * @async
+ * @returns {Promise<void>}
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Imported here so the edge runtime never loads the logger's file system access
+  const { ensureBotStarted } = await import('@/lib/server-init');
+  const { logger } = await import('@/utils/logger');
+  ensureBotStarted().catch(error => {
+    logger.error('Failed to start bot on server startup', { error });
+  });
+}
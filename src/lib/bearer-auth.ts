@@ -0,0 +1,25 @@
+/**
+ * @file bearer-auth.ts
+ * @description Bearer token check for operator endpoints such as metrics and probe details
+ * @module lib/bearer-auth
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Checks a request's bearer token against an expected token in constant time
+ * @param {Request} request - The incoming request
+ * @param {string} token - The expected token
+ * @returns {boolean} Whether the request is authorized
+ */
+export function isBearerAuthorized(request: Request, token: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  if (!header.startsWith('Bearer ')) {
+    return false;
+  }
+
+  // Hashing first gives both sides the same length without revealing the token's
+  const provided = createHash('sha256').update(header.slice('Bearer '.length)).digest();
+  const expected = createHash('sha256').update(token).digest();
+  return timingSafeEqual(provided, expected);
+}
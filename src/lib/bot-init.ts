@@ -5,13 +5,14 @@
  */
 
 import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
 
 // Only run on server side
 if (typeof window === 'undefined') {
   // Start the bot automatically when the application starts
-  console.log('Initializing bot on server side...');
+  logger.info('Initializing bot on server side');
   botService.start().catch((error: Error) => {
-    console.error('Failed to start bot:', error);
+    logger.error('Failed to start bot', { error });
   });
 }
 
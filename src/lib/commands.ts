@@ -0,0 +1,49 @@
+/**
+ * @file commands.ts
+ * @description Slash command definitions published to Discord
+ * @module lib/commands
+ */
+
+import { ChannelType, InteractionContextType, SlashCommandBuilder } from 'discord.js';
+
+/**
+ * The `/tagrole` command and its subcommands
+ * @type {SlashCommandBuilder}
+ */
+export const tagRoleCommand = new SlashCommandBuilder()
+  .setName('tagrole')
+  .setDescription('Manage server tag roles')
+  .setContexts(InteractionContextType.Guild)
+  .addSubcommand(subcommand => subcommand
+    .setName('status')
+    .setDescription('Show the current configuration and role counts'))
+  .addSubcommand(subcommand => subcommand
+    .setName('sync')
+    .setDescription('Resync tag roles for this server now')
+    .addBooleanOption(option => option
+      .setName('confirm')
+      .setDescription('Apply removals even if they exceed the safety threshold')))
+  .addSubcommand(subcommand => subcommand
+    .setName('check')
+    .setDescription('Explain why a member does or does not have the tag role')
+    .addUserOption(option => option
+      .setName('user')
+      .setDescription('The member to check')
+      .setRequired(true)))
+  .addSubcommand(subcommand => subcommand
+    .setName('config')
+    .setDescription('Set the tag role and log channel')
+    .addRoleOption(option => option
+      .setName('role')
+      .setDescription('The role granted to members wearing this server\'s tag')
+      .setRequired(true))
+    .addChannelOption(option => option
+      .setName('log')
+      .setDescription('The channel role changes are logged to')
+      .addChannelTypes(ChannelType.GuildText)));
+
+/**
+ * All command definitions in the format expected by Discord's API
+ * @type {Object[]}
+ */
+export const commandDefinitions = [tagRoleCommand.toJSON()];
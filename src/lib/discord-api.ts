@@ -0,0 +1,12 @@
+/**
+ * @file discord-api.ts
+ * @description Base URL of the Discord HTTP API
+ * @module lib/discord-api
+ */
+
+/**
+ * Base URL of the Discord HTTP API, without a version segment. Point `DISCORD_API_URL`
+ * at a stand-in such as the fake Discord server to run without network access.
+ * @type {string}
+ */
+export const DISCORD_API_URL = process.env.DISCORD_API_URL || 'https://discord.com/api';
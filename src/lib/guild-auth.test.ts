@@ -0,0 +1,136 @@
+/**
+ * @file guild-auth.test.ts
+ * @description Tests for guild authorization against the fake Discord server's OAuth guild list and the bot-side fallback
+ * @module lib/guild-auth.test
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PermissionFlagsBits, PermissionsBitField } from 'discord.js';
+import { getServerSession } from 'next-auth';
+import { FakeDiscordServer, FakeGuild } from '@/testing/fake-discord';
+import { buildSession } from '@/testing/session';
+import { botService } from '@/services/bot';
+import { authorizeGuild } from '@/lib/guild-auth';
+
+const discord = vi.hoisted(() => ({ apiUrl: '' }));
+
+vi.mock('@/lib/discord-api', () => ({
+  get DISCORD_API_URL() {
+    return discord.apiUrl;
+  },
+}));
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/services/bot', () => ({ botService: { fetchGuild: vi.fn() } }));
+
+const MANAGE_GUILD = PermissionFlagsBits.ManageGuild.toString();
+
+describe('authorizeGuild', () => {
+  const fake = new FakeDiscordServer();
+  let guild: FakeGuild;
+  let managerId: string;
+  let memberId: string;
+  let tokenCount = 0;
+
+  /**
+   * Signs a user in, with an OAuth access token unless `withToken` is false
+   * @param {string} userId - The user's Discord ID
+   * @param {boolean} [withToken=true] - Whether the session carries an access token
+   */
+  const signIn = (userId: string, withToken = true) => {
+    // Fresh tokens keep the OAuth guild list cache from leaking between tests
+    const accessToken = withToken ? `token-${++tokenCount}` : undefined;
+    if (accessToken) {
+      fake.addOAuthToken(accessToken, userId);
+    }
+    vi.mocked(getServerSession).mockResolvedValue(buildSession(userId, accessToken));
+  };
+
+  beforeAll(async () => {
+    await fake.start();
+    discord.apiUrl = fake.apiUrl;
+
+    guild = fake.addGuild({ name: 'Test Server' });
+    const managerRole = fake.addRole(guild.id, { name: 'Mods', permissions: MANAGE_GUILD });
+    managerId = fake.addMember(guild.id, { roles: [managerRole.id] }).userId;
+    memberId = fake.addMember(guild.id).userId;
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    vi.mocked(getServerSession).mockReset();
+    vi.mocked(botService.fetchGuild).mockReset();
+    fake.clearInjectedErrors();
+  });
+
+  it('returns 401 without a session', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error?.status).toBe(401);
+  });
+
+  it('authorizes a user with Manage Server in their OAuth guild list', async () => {
+    signIn(managerId);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error).toBeUndefined();
+    expect(result.session?.user.id).toBe(managerId);
+    expect(botService.fetchGuild).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a guild the user cannot manage', async () => {
+    signIn(memberId);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error?.status).toBe(403);
+    expect(botService.fetchGuild).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for a guild the user is not in', async () => {
+    signIn(managerId);
+
+    const result = await authorizeGuild(fake.nextId());
+
+    expect(result.error?.status).toBe(403);
+  });
+
+  it('falls back to the bot\'s view of the member when the session has no access token', async () => {
+    signIn(managerId, false);
+    const fetchMember = vi.fn().mockResolvedValue({ permissions: new PermissionsBitField(PermissionFlagsBits.ManageGuild) });
+    vi.mocked(botService.fetchGuild).mockResolvedValue({ members: { fetch: fetchMember } } as any);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error).toBeUndefined();
+    expect(botService.fetchGuild).toHaveBeenCalledWith(guild.id);
+    expect(fetchMember).toHaveBeenCalledWith(managerId);
+  });
+
+  it('falls back to the bot\'s view of the member when the OAuth guild list fails', async () => {
+    signIn(memberId);
+    fake.injectError({ path: /^\/users\/@me\/guilds$/, status: 500 });
+    const fetchMember = vi.fn().mockResolvedValue({ permissions: new PermissionsBitField() });
+    vi.mocked(botService.fetchGuild).mockResolvedValue({ members: { fetch: fetchMember } } as any);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error?.status).toBe(403);
+    expect(fetchMember).toHaveBeenCalledWith(memberId);
+  });
+
+  it('returns 403 when the bot can\'t see the guild either', async () => {
+    signIn(managerId, false);
+    vi.mocked(botService.fetchGuild).mockResolvedValue(null);
+
+    const result = await authorizeGuild(guild.id);
+
+    expect(result.error?.status).toBe(403);
+  });
+});
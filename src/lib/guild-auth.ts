@@ -0,0 +1,211 @@
+/**
+ * @file guild-auth.ts
+ * @description Authorization helpers for guild-scoped API routes
+ * @module lib/guild-auth
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession, Session } from 'next-auth';
+import { PermissionFlagsBits } from 'discord.js';
+import { authOptions } from '@/lib/auth';
+import { DISCORD_API_URL } from '@/lib/discord-api';
+import { botService } from '@/services/bot';
+import { logger } from '@/utils/logger';
+
+const ADMINISTRATOR = BigInt(0x8);
+const MANAGE_GUILD = BigInt(0x20);
+
+// Cache for OAuth guild lists, keyed by access token
+const guildCache = new Map<string, {
+  data: DiscordUserGuild[];
+  timestamp: number;
+}>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Represents a guild returned by Discord's `/users/@me/guilds` endpoint
+ * @interface DiscordUserGuild
+ * @property {string} id - The unique identifier of the guild
+ * @property {string} name - The name of the guild
+ * @property {string | null} [icon] - The guild's icon hash
+ * @property {string} permissions - The user's permissions bitfield in this guild
+ * @property {boolean} [hasBot] - Whether the bot is present in this guild
+ * @property {string[]} [features] - Array of guild features
+ * @property {boolean} [hasTagsFeature] - Whether the guild has the tags feature enabled
+ */
+export interface DiscordUserGuild {
+  id: string;
+  name: string;
+  icon?: string | null;
+  permissions: string;
+  hasBot?: boolean;
+  features?: string[];
+  hasTagsFeature?: boolean;
+}
+
+/**
+ * Result of authorizing a request against a guild
+ * @typedef {Object} GuildAuthResult
+ * @property {Session} [session] - The caller's session when authorized
+ * @property {NextResponse} [error] - The response to return when not authorized
+ */
+export type GuildAuthResult =
+  | { session: Session; error?: undefined }
+  | { session?: undefined; error: NextResponse };
+
+/**
+ * Fetches user's guilds from Discord API with caching
+ * @async
+ * @param {string} accessToken - User's access token
+ * @returns {Promise<DiscordUserGuild[]>} Array of guilds
+ */
+export async function fetchUserGuilds(accessToken: string): Promise<DiscordUserGuild[]> {
+  const cacheKey = `guilds_${accessToken}`;
+  const cached = guildCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  const response = await fetch(`${DISCORD_API_URL}/users/@me/guilds`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      const delay = retryAfter ? parseInt(retryAfter) * 1000 : 5000;
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return fetchUserGuilds(accessToken);
+    }
+    throw new Error(`Failed to fetch servers: ${response.status} ${response.statusText}`);
+  }
+
+  const guilds = await response.json() as DiscordUserGuild[];
+  guildCache.set(cacheKey, {
+    data: guilds,
+    timestamp: Date.now()
+  });
+
+  return guilds;
+}
+
+/**
+ * Checks whether a permissions bitfield grants Manage Guild or Administrator
+ * @param {string} permissions - The permissions bitfield as a string
+ * @returns {boolean} Whether the permissions allow managing the guild
+ */
+export function canManageGuild(permissions: string): boolean {
+  const bits = BigInt(permissions);
+  return (bits & ADMINISTRATOR) === ADMINISTRATOR || (bits & MANAGE_GUILD) === MANAGE_GUILD;
+}
+
+/**
+ * Checks whether a user may control the bot process itself, as listed in `BOT_ADMIN_IDS`
+ * @param {string | undefined} userId - The user's Discord ID
+ * @returns {boolean} Whether the user is a bot administrator
+ */
+export function isBotAdmin(userId: string | undefined): boolean {
+  if (!userId) {
+    return false;
+  }
+
+  const adminIds = (process.env.BOT_ADMIN_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  return adminIds.includes(userId);
+}
+
+/**
+ * Checks the user's permissions through the bot's view of the guild
+ * @async
+ * @param {string} guildId - The guild to check
+ * @param {string} userId - The user's Discord ID
+ * @returns {Promise<boolean>} Whether the user can manage the guild
+ */
+async function hasBotSideManagePermission(guildId: string, userId: string): Promise<boolean> {
+  try {
+    const guild = await botService.fetchGuild(guildId);
+    if (!guild) {
+      return false;
+    }
+
+    const member = await guild.members.fetch(userId);
+    return member.permissions.has(PermissionFlagsBits.ManageGuild);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Gets the IDs of all guilds the session's user can manage
+ * @async
+ * @param {Session} session - The caller's session
+ * @returns {Promise<Set<string>>} IDs of manageable guilds
+ */
+export async function getManageableGuildIds(session: Session): Promise<Set<string>> {
+  const accessToken = session.user?.accessToken;
+  if (!accessToken) {
+    return new Set();
+  }
+
+  const guilds = await fetchUserGuilds(accessToken);
+  return new Set(
+    guilds
+      .filter(guild => canManageGuild(guild.permissions))
+      .map(guild => guild.id)
+  );
+}
+
+/**
+ * Checks whether the session's user can manage a guild, preferring their OAuth
+ * guild list and falling back to the bot's member data if that list is unavailable
+ * @async
+ * @param {Session} session - The caller's session
+ * @param {string} guildId - The guild to check
+ * @returns {Promise<boolean>} Whether the user can manage the guild
+ */
+export async function canManageGuildId(session: Session, guildId: string): Promise<boolean> {
+  try {
+    const manageable = await getManageableGuildIds(session);
+    if (manageable.has(guildId)) {
+      return true;
+    }
+    if (session.user?.accessToken) {
+      return false;
+    }
+  } catch (error) {
+    logger.error('Error fetching user guilds for authorization', { error });
+  }
+
+  const userId = session.user?.id;
+  return userId ? hasBotSideManagePermission(guildId, userId) : false;
+}
+
+/**
+ * Authorizes the current request against a guild
+ * @async
+ * @param {string} guildId - The guild the request targets
+ * @returns {Promise<GuildAuthResult>} The session, or an error response to return
+ */
+export async function authorizeGuild(guildId: string): Promise<GuildAuthResult> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!(await canManageGuildId(session, guildId))) {
+    return {
+      error: NextResponse.json(
+        { error: 'You need the Manage Server permission in this server' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { session };
+}
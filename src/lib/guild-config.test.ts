@@ -0,0 +1,91 @@
+/**
+ * @file guild-config.test.ts
+ * @description Tests for guild configuration validation and saving
+ * @module lib/guild-config.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { GuildConfigConflictError, parseGuildConfigInput, saveGuildConfig } from '@/lib/guild-config';
+
+vi.mock('@/lib/prisma', () => {
+  const tx = {
+    guildConfig: { findUnique: vi.fn(), upsert: vi.fn(), findUniqueOrThrow: vi.fn() },
+    onboardingJob: { create: vi.fn() },
+    tagRoleMapping: { deleteMany: vi.fn(), createMany: vi.fn() },
+    tenureTier: { deleteMany: vi.fn(), createMany: vi.fn() },
+    exemptRole: { deleteMany: vi.fn(), createMany: vi.fn() },
+  };
+  return { prisma: { ...tx, $transaction: vi.fn((run: (client: typeof tx) => unknown) => run(tx)) } };
+});
+
+const GUILD_ID = '100000000000000001';
+const ROLE_ID = '100000000000000002';
+const OTHER_ROLE_ID = '100000000000000003';
+const PARTNER_GUILD_ID = '100000000000000004';
+
+describe('parseGuildConfigInput', () => {
+  it('rejects a partner tag mapped to the main tag role', () => {
+    const { error } = parseGuildConfigInput(GUILD_ID, {
+      roleId: ROLE_ID,
+      mappings: [{ sourceGuildId: PARTNER_GUILD_ID, roleId: ROLE_ID }],
+    });
+
+    expect(error).toBe('A partner tag can\'t use the main tag role');
+  });
+});
+
+describe('saveGuildConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates new configurations in preview mode', async () => {
+    vi.mocked(prisma.guildConfig.findUnique).mockResolvedValue(null);
+
+    await saveGuildConfig(GUILD_ID, { roleId: ROLE_ID, logChannelId: null });
+
+    expect(prisma.guildConfig.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ guildId: GUILD_ID, previewMode: true }),
+      update: expect.not.objectContaining({ previewMode: expect.anything() }),
+    }));
+  });
+
+  it('creates a live configuration when asked to', async () => {
+    vi.mocked(prisma.guildConfig.findUnique).mockResolvedValue(null);
+
+    await saveGuildConfig(GUILD_ID, { roleId: ROLE_ID, logChannelId: null, previewMode: false });
+
+    expect(prisma.guildConfig.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ previewMode: false }),
+    }));
+  });
+
+  it('rejects a main role that a stored tier already grants', async () => {
+    vi.mocked(prisma.guildConfig.findUnique).mockResolvedValue({
+      roleId: ROLE_ID,
+      requiredRoleId: null,
+      mappings: [],
+      tiers: [{ days: 30, roleId: OTHER_ROLE_ID }],
+      exemptRoles: [],
+    } as unknown as Awaited<ReturnType<typeof prisma.guildConfig.findUnique>>);
+
+    await expect(saveGuildConfig(GUILD_ID, { roleId: OTHER_ROLE_ID, logChannelId: null }))
+      .rejects.toThrow(new GuildConfigConflictError('A tier can\'t use the main tag role'));
+    expect(prisma.guildConfig.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects exempting a role granted by a stored partner tag', async () => {
+    vi.mocked(prisma.guildConfig.findUnique).mockResolvedValue({
+      roleId: ROLE_ID,
+      requiredRoleId: null,
+      mappings: [{ sourceGuildId: PARTNER_GUILD_ID, roleId: OTHER_ROLE_ID }],
+      tiers: [],
+      exemptRoles: [],
+    } as unknown as Awaited<ReturnType<typeof prisma.guildConfig.findUnique>>);
+
+    await expect(saveGuildConfig(GUILD_ID, { roleId: ROLE_ID, logChannelId: null, exemptRoleIds: [OTHER_ROLE_ID] }))
+      .rejects.toBeInstanceOf(GuildConfigConflictError);
+    expect(prisma.guildConfig.upsert).not.toHaveBeenCalled();
+  });
+});
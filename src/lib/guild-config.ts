@@ -0,0 +1,421 @@
+/**
+ * @file guild-config.ts
+ * @description Validation and persistence helpers for guild configurations
+ * @module lib/guild-config
+ */
+
+import { prisma } from '@/lib/prisma';
+import { EligibilityRules, LogSettings, TagRoleMapping, TenureTier, ThankYouSettings } from '@/types/guild';
+import { parseLogSettings } from '@/lib/role-change-log';
+import { parseThankYouSettings } from '@/lib/thank-you';
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+const MAX_REMOVAL_GRACE_MINUTES = 7 * 24 * 60;
+const MAX_TIERS = 10;
+const MAX_TIER_DAYS = 3650;
+const MAX_EXEMPT_ROLES = 25;
+const MAX_MEMBERSHIP_DAYS = 365;
+
+/**
+ * Relations loaded with every guild configuration
+ * @type {Object}
+ */
+export const GUILD_CONFIG_INCLUDE = { mappings: true, tiers: true, exemptRoles: true } as const;
+
+/**
+ * Validated input for creating or updating a guild configuration
+ * @interface GuildConfigInput
+ * @property {string} roleId - ID of the role granted for wearing the guild's own tag
+ * @property {string | null} logChannelId - ID of the channel for logging role changes
+ * @property {boolean} [previewMode] - Whether role changes are only projected, left untouched when omitted and on for new configurations
+ * @property {boolean} [healthAlertsEnabled] - Whether health check problems are posted to the log channel, left untouched when omitted
+ * @property {TagRoleMapping[]} [mappings] - Tag-to-role mappings, left untouched when omitted
+ * @property {TenureTier[]} [tiers] - Tenure tiers, left untouched when omitted
+ * @property {number} [removalGraceMinutes] - Minutes before a missing tag's role is removed, left untouched when omitted
+ * @property {number} [maxRemovalPercent] - Share of role holders a sync may remove unconfirmed, left untouched when omitted
+ * @property {LogFormat} [logFormat] - Log style, left untouched when omitted, as are the other log settings
+ * @property {boolean} [welcomeDmEnabled] - Whether to DM members who equip the tag, left untouched when omitted, as are the other thank-you settings
+ * @property {string[]} [exemptRoleIds] - Roles whose members are left untouched, left untouched when omitted, as are the other eligibility rules
+ */
+export interface GuildConfigInput extends Partial<LogSettings>, Partial<ThankYouSettings>, Partial<EligibilityRules> {
+  roleId: string;
+  logChannelId: string | null;
+  previewMode?: boolean;
+  healthAlertsEnabled?: boolean;
+  mappings?: TagRoleMapping[];
+  tiers?: TenureTier[];
+  removalGraceMinutes?: number;
+  maxRemovalPercent?: number;
+}
+
+/**
+ * Error rejecting a configuration whose roles conflict once merged with the stored configuration
+ * @class GuildConfigConflictError
+ */
+export class GuildConfigConflictError extends Error {}
+
+/**
+ * Roles of a configuration that may not overlap
+ * @interface ConfigRoles
+ * @property {string} roleId - The main tag role
+ * @property {TagRoleMapping[]} mappings - Partner tag mappings
+ * @property {TenureTier[]} tiers - Tenure tiers
+ * @property {string[]} exemptRoleIds - Roles whose members are left untouched
+ * @property {string | null} requiredRoleId - Role members need to receive tag roles
+ */
+interface ConfigRoles {
+  roleId: string;
+  mappings: TagRoleMapping[];
+  tiers: TenureTier[];
+  exemptRoleIds: string[];
+  requiredRoleId: string | null;
+}
+
+/**
+ * Finds a role used for two purposes that would make syncs fight over it
+ * @param {ConfigRoles} config - The roles of the configuration
+ * @returns {string | null} A message describing the conflict, or null if there is none
+ */
+function findRoleConflict({ roleId, mappings, tiers, exemptRoleIds, requiredRoleId }: ConfigRoles): string | null {
+  if (mappings.some(mapping => mapping.roleId === roleId)) {
+    return 'A partner tag can\'t use the main tag role';
+  }
+  if (tiers.some(tier => tier.roleId === roleId)) {
+    return 'A tier can\'t use the main tag role';
+  }
+  if (mappings.some(mapping => tiers.some(tier => tier.roleId === mapping.roleId))) {
+    return 'A role can\'t be used by both a partner tag and a tier';
+  }
+
+  const managedRoleIds = new Set([roleId, ...mappings.map(mapping => mapping.roleId), ...tiers.map(tier => tier.roleId)]);
+  if (exemptRoleIds.some(exemptRoleId => managedRoleIds.has(exemptRoleId))) {
+    return 'A role granted by the bot can\'t be exempt';
+  }
+  if (requiredRoleId && managedRoleIds.has(requiredRoleId)) {
+    return 'The required role can\'t be a role granted by the bot';
+  }
+  if (requiredRoleId && exemptRoleIds.includes(requiredRoleId)) {
+    return 'A role can\'t be both required and exempt';
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a value looks like a Discord snowflake ID
+ * @param {unknown} value - The value to check
+ * @returns {boolean} Whether the value is a snowflake string
+ */
+export function isSnowflake(value: unknown): value is string {
+  return typeof value === 'string' && SNOWFLAKE_PATTERN.test(value);
+}
+
+/**
+ * Parses and validates tenure tiers from a request body
+ * @param {unknown} tiers - The submitted tiers
+ * @param {string} roleId - The base tag role, which a tier may not reuse
+ * @returns {{ data?: TenureTier[]; error?: string }} The tiers sorted by days, or an error message
+ */
+function parseTenureTiers(tiers: unknown, roleId: string): { data?: TenureTier[]; error?: string } {
+  if (!Array.isArray(tiers)) {
+    return { error: 'Tiers must be an array' };
+  }
+  if (tiers.length > MAX_TIERS) {
+    return { error: `At most ${MAX_TIERS} tiers are allowed` };
+  }
+
+  const seenDays = new Set<number>();
+  const seenRoles = new Set<string>();
+  const parsedTiers: TenureTier[] = [];
+
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier?.days) || tier.days < 1 || tier.days > MAX_TIER_DAYS) {
+      return { error: `Each tier needs a number of days between 1 and ${MAX_TIER_DAYS}` };
+    }
+    if (!isSnowflake(tier?.roleId)) {
+      return { error: 'Each tier needs a valid role ID' };
+    }
+    if (tier.roleId === roleId) {
+      return { error: 'A tier can\'t use the main tag role' };
+    }
+    if (seenDays.has(tier.days)) {
+      return { error: `Duplicate tier for ${tier.days} days` };
+    }
+    if (seenRoles.has(tier.roleId)) {
+      return { error: 'Each tier needs a different role' };
+    }
+
+    seenDays.add(tier.days);
+    seenRoles.add(tier.roleId);
+    parsedTiers.push({ days: tier.days, roleId: tier.roleId });
+  }
+
+  return { data: parsedTiers.sort((a, b) => a.days - b.days) };
+}
+
+/**
+ * Parses and validates eligibility rules from a request body, keeping only the fields that were sent
+ * @param {any} body - The parsed JSON request body
+ * @returns {{ data?: Partial<EligibilityRules>; error?: string }} The validated rules or an error message
+ */
+function parseEligibilityRules(body: any): { data?: Partial<EligibilityRules>; error?: string } {
+  const { roleId, ignoreBots, exemptRoleIds, requiredRoleId, minMembershipDays } = body ?? {};
+  const data: Partial<EligibilityRules> = {};
+
+  if (ignoreBots !== undefined) {
+    if (typeof ignoreBots !== 'boolean') {
+      return { error: 'Ignore bots must be a boolean' };
+    }
+    data.ignoreBots = ignoreBots;
+  }
+
+  if (exemptRoleIds !== undefined) {
+    if (!Array.isArray(exemptRoleIds) || !exemptRoleIds.every(isSnowflake)) {
+      return { error: 'Exempt roles must be an array of role IDs' };
+    }
+    if (exemptRoleIds.length > MAX_EXEMPT_ROLES) {
+      return { error: `At most ${MAX_EXEMPT_ROLES} exempt roles are allowed` };
+    }
+    data.exemptRoleIds = Array.from(new Set<string>(exemptRoleIds));
+  }
+
+  if (requiredRoleId !== undefined) {
+    if (requiredRoleId && !isSnowflake(requiredRoleId)) {
+      return { error: 'Required role must be a valid role ID' };
+    }
+    if (requiredRoleId && requiredRoleId === roleId) {
+      return { error: 'The required role can\'t be the tag role itself' };
+    }
+    data.requiredRoleId = requiredRoleId || null;
+  }
+
+  if (data.requiredRoleId && data.exemptRoleIds?.includes(data.requiredRoleId)) {
+    return { error: 'A role can\'t be both required and exempt' };
+  }
+
+  if (minMembershipDays !== undefined) {
+    if (!Number.isInteger(minMembershipDays) || minMembershipDays < 0 || minMembershipDays > MAX_MEMBERSHIP_DAYS) {
+      return { error: `Minimum membership age must be between 0 and ${MAX_MEMBERSHIP_DAYS} days` };
+    }
+    data.minMembershipDays = minMembershipDays;
+  }
+
+  return { data };
+}
+
+/**
+ * Parses and validates a guild configuration request body
+ * @param {string} guildId - The guild the configuration belongs to
+ * @param {any} body - The parsed JSON request body
+ * @returns {{ data?: GuildConfigInput; error?: string }} The validated input or an error message
+ */
+export function parseGuildConfigInput(
+  guildId: string,
+  body: any
+): { data?: GuildConfigInput; error?: string } {
+  const { roleId, logChannelId, previewMode, healthAlertsEnabled, mappings, tiers, removalGraceMinutes, maxRemovalPercent } = body ?? {};
+
+  if (!roleId) {
+    return { error: 'Role ID is required' };
+  }
+
+  if (!isSnowflake(roleId)) {
+    return { error: 'Role must be a valid role ID' };
+  }
+
+  if (logChannelId && !isSnowflake(logChannelId)) {
+    return { error: 'Log channel must be a valid channel ID' };
+  }
+
+  if (previewMode !== undefined && typeof previewMode !== 'boolean') {
+    return { error: 'Preview mode must be a boolean' };
+  }
+
+  if (healthAlertsEnabled !== undefined && typeof healthAlertsEnabled !== 'boolean') {
+    return { error: 'Health alerts must be a boolean' };
+  }
+
+  if (removalGraceMinutes !== undefined && (
+    !Number.isInteger(removalGraceMinutes) || removalGraceMinutes < 0 || removalGraceMinutes > MAX_REMOVAL_GRACE_MINUTES
+  )) {
+    return { error: `Removal grace period must be between 0 and ${MAX_REMOVAL_GRACE_MINUTES} minutes` };
+  }
+
+  if (maxRemovalPercent !== undefined && (
+    !Number.isInteger(maxRemovalPercent) || maxRemovalPercent < 1 || maxRemovalPercent > 100
+  )) {
+    return { error: 'Removal safety threshold must be between 1 and 100 percent' };
+  }
+
+  const logSettings = parseLogSettings(body);
+  if (logSettings.error) {
+    return { error: logSettings.error };
+  }
+
+  const thankYouSettings = parseThankYouSettings(body);
+  if (thankYouSettings.error) {
+    return { error: thankYouSettings.error };
+  }
+
+  const eligibilityRules = parseEligibilityRules(body);
+  if (eligibilityRules.error) {
+    return { error: eligibilityRules.error };
+  }
+
+  const parsedTiers = tiers === undefined ? undefined : parseTenureTiers(tiers, roleId);
+  if (parsedTiers?.error) {
+    return { error: parsedTiers.error };
+  }
+
+  if (mappings === undefined) {
+    return {
+      data: {
+        roleId,
+        logChannelId: logChannelId || null,
+        previewMode,
+        healthAlertsEnabled,
+        removalGraceMinutes,
+        maxRemovalPercent,
+        tiers: parsedTiers?.data,
+        ...logSettings.data,
+        ...thankYouSettings.data,
+        ...eligibilityRules.data,
+      },
+    };
+  }
+
+  if (!Array.isArray(mappings)) {
+    return { error: 'Mappings must be an array' };
+  }
+
+  const seen = new Set<string>();
+  const parsedMappings: TagRoleMapping[] = [];
+
+  for (const mapping of mappings) {
+    if (!isSnowflake(mapping?.sourceGuildId)) {
+      return { error: 'Each mapping needs a valid source guild ID' };
+    }
+    if (!isSnowflake(mapping?.roleId)) {
+      return { error: 'Each mapping needs a valid role ID' };
+    }
+    if (mapping.sourceGuildId === guildId) {
+      return { error: 'This server\'s own tag is handled by the main role' };
+    }
+    if (mapping.roleId === roleId) {
+      return { error: 'A partner tag can\'t use the main tag role' };
+    }
+    if (seen.has(mapping.sourceGuildId)) {
+      return { error: `Duplicate mapping for guild ${mapping.sourceGuildId}` };
+    }
+    if (parsedTiers?.data?.some(tier => tier.roleId === mapping.roleId)) {
+      return { error: 'A role can\'t be used by both a partner tag and a tier' };
+    }
+
+    seen.add(mapping.sourceGuildId);
+    parsedMappings.push({
+      sourceGuildId: mapping.sourceGuildId,
+      roleId: mapping.roleId,
+    });
+  }
+
+  return {
+    data: {
+      roleId,
+      logChannelId: logChannelId || null,
+      previewMode,
+      healthAlertsEnabled,
+      removalGraceMinutes,
+      maxRemovalPercent,
+      mappings: parsedMappings,
+      tiers: parsedTiers?.data,
+      ...logSettings.data,
+      ...thankYouSettings.data,
+      ...eligibilityRules.data,
+    },
+  };
+}
+
+/**
+ * Fetches a guild configuration together with its tag-to-role mappings, tenure tiers and exempt roles
+ * @async
+ * @param {string} guildId - The guild to fetch the configuration for
+ * @returns {Promise<Object | null>} The configuration, or null if none exists
+ */
+export async function getGuildConfig(guildId: string) {
+  return prisma.guildConfig.findUnique({
+    where: { guildId },
+    include: GUILD_CONFIG_INCLUDE,
+  });
+}
+
+/**
+ * Creates or updates a guild configuration, replacing its mappings, tiers and exempt roles when provided.
+ * A new configuration starts in preview mode unless the input turns it off, and gets a pending
+ * onboarding job, run by its first live sync. Omitted fields keep their stored values, so role
+ * conflicts are checked against the merged configuration.
+ * @async
+ * @param {string} guildId - The guild to save the configuration for
+ * @param {GuildConfigInput} input - The validated configuration input
+ * @returns {Promise<Object>} The saved configuration with its mappings
+ * @throws {GuildConfigConflictError} If a role would be used for two purposes
+ */
+export async function saveGuildConfig(guildId: string, input: GuildConfigInput) {
+  const { mappings, tiers, exemptRoleIds, ...fields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.guildConfig.findUnique({ where: { guildId }, include: GUILD_CONFIG_INCLUDE });
+
+    const conflict = findRoleConflict({
+      roleId: fields.roleId,
+      mappings: mappings ?? existing?.mappings ?? [],
+      tiers: tiers ?? existing?.tiers ?? [],
+      exemptRoleIds: exemptRoleIds ?? existing?.exemptRoles.map(role => role.roleId) ?? [],
+      requiredRoleId: fields.requiredRoleId !== undefined ? fields.requiredRoleId : existing?.requiredRoleId ?? null,
+    });
+    if (conflict) {
+      throw new GuildConfigConflictError(conflict);
+    }
+
+    await tx.guildConfig.upsert({
+      where: { guildId },
+      update: fields,
+      create: { guildId, ...fields, previewMode: fields.previewMode ?? true },
+    });
+
+    if (!existing) {
+      await tx.onboardingJob.create({ data: { guildId } });
+    }
+
+    if (mappings) {
+      await tx.tagRoleMapping.deleteMany({ where: { guildId } });
+      if (mappings.length > 0) {
+        await tx.tagRoleMapping.createMany({
+          data: mappings.map(mapping => ({ guildId, ...mapping })),
+        });
+      }
+    }
+
+    if (tiers) {
+      await tx.tenureTier.deleteMany({ where: { guildId } });
+      if (tiers.length > 0) {
+        await tx.tenureTier.createMany({
+          data: tiers.map(tier => ({ guildId, ...tier })),
+        });
+      }
+    }
+
+    if (exemptRoleIds) {
+      await tx.exemptRole.deleteMany({ where: { guildId } });
+      if (exemptRoleIds.length > 0) {
+        await tx.exemptRole.createMany({
+          data: exemptRoleIds.map(roleId => ({ guildId, roleId })),
+        });
+      }
+    }
+
+    return tx.guildConfig.findUniqueOrThrow({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE,
+    });
+  });
+}
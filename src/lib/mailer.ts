@@ -0,0 +1,50 @@
+/**
+ * @file mailer.ts
+ * @description SMTP transport built from the email environment variables, shared by support requests and admin alerts
+ * @module lib/mailer
+ */
+
+import nodemailer from 'nodemailer';
+
+// Keeps an unreachable or stalled SMTP server from holding up alerts and support requests
+const SMTP_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Environment variables required to send email
+ * @type {string[]}
+ */
+export const SMTP_ENV_VARS = [
+  'NEXT_PUBLIC_SMTP_HOST',
+  'NEXT_PUBLIC_SMTP_PORT',
+  'NEXT_PUBLIC_SMTP_USER',
+  'NEXT_PUBLIC_SMTP_PASSWORD',
+  'NEXT_PUBLIC_SMTP_FROM'
+];
+
+/**
+ * Lists the required email environment variables that are not set
+ * @param {string[]} [extraVars=[]] - Additional variables the caller needs
+ * @returns {string[]} The names of the missing variables
+ */
+export function getMissingSmtpVars(extraVars: string[] = []): string[] {
+  return [...SMTP_ENV_VARS, ...extraVars].filter(varName => !process.env[varName]);
+}
+
+/**
+ * Creates an SMTP transport from the email environment variables, giving up on a server that stops responding
+ * @returns {nodemailer.Transporter} The transport
+ */
+export function createMailTransport() {
+  return nodemailer.createTransport({
+    host: process.env.NEXT_PUBLIC_SMTP_HOST,
+    port: Number(process.env.NEXT_PUBLIC_SMTP_PORT),
+    secure: process.env.NEXT_PUBLIC_SMTP_SECURE === 'true',
+    auth: {
+      user: process.env.NEXT_PUBLIC_SMTP_USER,
+      pass: process.env.NEXT_PUBLIC_SMTP_PASSWORD,
+    },
+    connectionTimeout: SMTP_TIMEOUT,
+    greetingTimeout: SMTP_TIMEOUT,
+    socketTimeout: SMTP_TIMEOUT,
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * @file openmetrics.test.ts
+ * @description Tests for the OpenMetrics text renderer and histograms
+ * @module lib/openmetrics.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createHistogram, observeHistogram, renderOpenMetrics } from '@/lib/openmetrics';
+
+describe('renderOpenMetrics', () => {
+  it('renders gauges and counters, adding _total to counter samples', () => {
+    const text = renderOpenMetrics([
+      { name: 'tagrole_bot_ready', type: 'gauge', help: 'Whether the bot is ready', samples: [{ value: 1 }] },
+      {
+        name: 'tagrole_role_changes',
+        type: 'counter',
+        help: 'Role changes applied',
+        samples: [{ labels: { action: 'add' }, value: 3 }, { labels: { action: 'remove' }, value: 0 }],
+      },
+    ]);
+
+    expect(text).toBe([
+      '# TYPE tagrole_bot_ready gauge',
+      '# HELP tagrole_bot_ready Whether the bot is ready',
+      'tagrole_bot_ready 1',
+      '# TYPE tagrole_role_changes counter',
+      '# HELP tagrole_role_changes Role changes applied',
+      'tagrole_role_changes_total{action="add"} 3',
+      'tagrole_role_changes_total{action="remove"} 0',
+      '# EOF',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets with +Inf, count and sum', () => {
+    const histogram = createHistogram([1, 5]);
+    [0.5, 2, 10].forEach(value => observeHistogram(histogram, value));
+
+    const text = renderOpenMetrics([{
+      name: 'tagrole_sync_duration_seconds',
+      type: 'histogram',
+      unit: 'seconds',
+      help: 'Duration of guild syncs',
+      histograms: [{ labels: { guild: '123' }, histogram }],
+    }]);
+
+    expect(text).toBe([
+      '# TYPE tagrole_sync_duration_seconds histogram',
+      '# UNIT tagrole_sync_duration_seconds seconds',
+      '# HELP tagrole_sync_duration_seconds Duration of guild syncs',
+      'tagrole_sync_duration_seconds_bucket{guild="123",le="1"} 1',
+      'tagrole_sync_duration_seconds_bucket{guild="123",le="5"} 2',
+      'tagrole_sync_duration_seconds_bucket{guild="123",le="+Inf"} 3',
+      'tagrole_sync_duration_seconds_count{guild="123"} 3',
+      'tagrole_sync_duration_seconds_sum{guild="123"} 12.5',
+      '# EOF',
+      '',
+    ].join('\n'));
+  });
+
+  it('escapes label values and help text', () => {
+    const text = renderOpenMetrics([{
+      name: 'tagrole_info',
+      type: 'gauge',
+      help: 'Line one\nback\\slash',
+      samples: [{ labels: { name: 'say "hi"\\\n' }, value: 1 }],
+    }]);
+
+    expect(text).toContain('# HELP tagrole_info Line one\\nback\\\\slash\n');
+    expect(text).toContain('tagrole_info{name="say \\"hi\\"\\\\\\n"} 1\n');
+  });
+
+  it('renders non-finite values and ends an empty exposition with # EOF', () => {
+    const text = renderOpenMetrics([{
+      name: 'tagrole_ratio',
+      type: 'gauge',
+      help: 'A ratio',
+      samples: [{ value: Infinity }, { value: -Infinity }, { value: NaN }],
+    }]);
+
+    expect(text).toContain('tagrole_ratio +Inf\ntagrole_ratio -Inf\ntagrole_ratio NaN\n# EOF\n');
+    expect(renderOpenMetrics([])).toBe('# EOF\n');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @file openmetrics.ts
+ * @description Minimal OpenMetrics text exposition: metric families, histograms and rendering
+ * @module lib/openmetrics
+ */
+
+/**
+ * Content type of the OpenMetrics text format
+ * @type {string}
+ */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Label names and values of a sample
+ * @typedef {Record<string, string>} MetricLabels
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * A single gauge or counter value
+ * @interface MetricSample
+ * @property {MetricLabels} [labels] - The sample's labels
+ * @property {number} value - The value
+ */
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+/**
+ * Cumulative bucket counts of observed values
+ * @interface Histogram
+ * @property {number[]} bounds - Upper bounds of the buckets, ascending
+ * @property {number[]} bucketCounts - Observations less than or equal to each bound
+ * @property {number} sum - Sum of all observations
+ * @property {number} count - Number of observations
+ */
+export interface Histogram {
+  bounds: number[];
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * A named metric and its samples
+ * @typedef {Object} MetricFamily
+ * @property {string} name - The family name, without `_total` for counters
+ * @property {string} help - A description of the metric
+ * @property {string} [unit] - The unit, which the name must end with
+ */
+export type MetricFamily = {
+  name: string;
+  help: string;
+  unit?: string;
+} & (
+  | { type: 'gauge' | 'counter'; samples: MetricSample[] }
+  | { type: 'histogram'; histograms: Array<{ labels?: MetricLabels; histogram: Histogram }> }
+);
+
+/**
+ * Creates an empty histogram
+ * @param {number[]} bounds - Upper bounds of the buckets, ascending
+ * @returns {Histogram} The histogram
+ */
+export function createHistogram(bounds: number[]): Histogram {
+  return { bounds, bucketCounts: bounds.map(() => 0), sum: 0, count: 0 };
+}
+
+/**
+ * Records a value in a histogram
+ * @param {Histogram} histogram - The histogram
+ * @param {number} value - The observed value
+ */
+export function observeHistogram(histogram: Histogram, value: number) {
+  histogram.bounds.forEach((bound, index) => {
+    if (value <= bound) {
+      histogram.bucketCounts[index]++;
+    }
+  });
+  histogram.sum += value;
+  histogram.count++;
+}
+
+/**
+ * Escapes a label value
+ * @param {string} value - The raw value
+ * @returns {string} The escaped value
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a sample line
+ * @param {string} name - The sample name
+ * @param {MetricLabels | undefined} labels - The sample's labels
+ * @param {number} value - The value
+ * @returns {string} The line
+ */
+function formatSample(name: string, labels: MetricLabels | undefined, value: number): string {
+  const entries = Object.entries(labels ?? {});
+  const labelText = entries.length > 0
+    ? `{${entries.map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`).join(',')}}`
+    : '';
+  const valueText = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+  return `${name}${labelText} ${valueText}`;
+}
+
+/**
+ * Renders metric families in the OpenMetrics text format
+ * @param {MetricFamily[]} families - The families to render
+ * @returns {string} The exposition, terminated by `# EOF`
+ */
+export function renderOpenMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.unit) {
+      lines.push(`# UNIT ${family.name} ${family.unit}`);
+    }
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+
+    if (family.type === 'histogram') {
+      for (const { labels, histogram } of family.histograms) {
+        histogram.bounds.forEach((bound, index) => {
+          lines.push(formatSample(`${family.name}_bucket`, { ...labels, le: String(bound) }, histogram.bucketCounts[index]));
+        });
+        lines.push(formatSample(`${family.name}_bucket`, { ...labels, le: '+Inf' }, histogram.count));
+        lines.push(formatSample(`${family.name}_count`, labels, histogram.count));
+        lines.push(formatSample(`${family.name}_sum`, labels, histogram.sum));
+      }
+    } else {
+      const suffix = family.type === 'counter' ? '_total' : '';
+      for (const sample of family.samples) {
+        lines.push(formatSample(`${family.name}${suffix}`, sample.labels, sample.value));
+      }
+    }
+  }
+
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,426 @@
+/**
+ * @file role-change-log.ts
+ * @description Builds role change log messages from per-guild log settings, within Discord's message limits.
+ * Free of runtime discord.js imports so the dashboard can render live previews with the same code.
+ * @module lib/role-change-log
+ */
+
+import type { APIEmbed, APIEmbedField } from 'discord.js';
+import { LogFormat, LogSettings, RoleChangeAction, RoleChangeReason } from '@/types/guild';
+import { renderTemplate, validateTemplate } from '@/lib/templates';
+
+// Discord's limits for a single message and embed
+const MAX_CONTENT = 2000;
+const MAX_FIELD_VALUE = 1024;
+const MAX_FIELDS = 25;
+const MAX_EMBED_CHARS = 6000;
+const MAX_TITLE = 240; // Leaves room for a page counter within Discord's 256
+
+/**
+ * Messages a batch may be spread over before it is sent as a CSV attachment instead
+ * @type {number}
+ */
+export const MAX_LOG_MESSAGES = 5;
+
+/**
+ * Longest accepted custom template
+ * @type {number}
+ */
+export const MAX_TEMPLATE_LENGTH = 500;
+
+/**
+ * Available log formats
+ * @type {LogFormat[]}
+ */
+export const LOG_FORMATS: LogFormat[] = ['detailed', 'compact', 'summary', 'custom'];
+
+/**
+ * Placeholders a custom template may use, with what they are replaced by
+ * @type {Record<string, string>}
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  user: 'Mention of the member',
+  userId: 'ID of the member',
+  role: 'Name of the role',
+  roleId: 'ID of the role',
+  action: '"added" or "removed"',
+  emoji: '✅ for additions, ❌ for removals',
+  reason: 'Why the change was made',
+  count: 'Number of changes in the batch',
+};
+
+/**
+ * Line template used by the compact format
+ * @type {string}
+ */
+export const COMPACT_TEMPLATE = '{emoji} {user} (`{userId}`) {action} **{role}**';
+
+/**
+ * Settings used when a guild has not customised its logs
+ * @type {LogSettings}
+ */
+export const DEFAULT_LOG_SETTINGS: LogSettings = {
+  logFormat: 'detailed',
+  logTemplate: null,
+  logTitle: null,
+  logColor: null,
+};
+
+const DEFAULT_COLOR = 0x2F3136;
+const DEFAULT_TITLE = 'Role Updates';
+const EMBED_DESCRIPTION = 'The following role changes were made:';
+
+/**
+ * A role change to be logged
+ * @interface LoggedRoleChange
+ * @property {string} userId - The member whose role changed
+ * @property {string} roleId - The role that was added or removed
+ * @property {RoleChangeAction} action - Whether the role was added or removed
+ * @property {RoleChangeReason} reason - Why the change was made
+ */
+export interface LoggedRoleChange {
+  userId: string;
+  roleId: string;
+  action: RoleChangeAction;
+  reason: RoleChangeReason;
+}
+
+/**
+ * A log message ready to be sent. Attachments are described as plain data and turned
+ * into files by the sender.
+ * @interface LogMessage
+ * @property {string} [content] - The message text
+ * @property {APIEmbed[]} [embeds] - The message embeds
+ * @property {Object} [csv] - A CSV file to attach
+ */
+export interface LogMessage {
+  content?: string;
+  embeds?: APIEmbed[];
+  csv?: { name: string; content: string };
+}
+
+/**
+ * Checks a custom template for problems
+ * @param {unknown} template - The template to check
+ * @returns {string | null} An error message, or null if the template is valid
+ */
+export function validateLogTemplate(template: unknown): string | null {
+  return validateTemplate(template, TEMPLATE_PLACEHOLDERS, MAX_TEMPLATE_LENGTH);
+}
+
+/**
+ * Checks log settings from a request body, leaving omitted fields out of the result
+ * @param {any} body - The parsed JSON request body
+ * @returns {{ data?: Partial<LogSettings>; error?: string }} The validated settings or an error message
+ */
+export function parseLogSettings(body: any): { data?: Partial<LogSettings>; error?: string } {
+  const { logFormat, logTemplate, logTitle, logColor } = body ?? {};
+  const data: Partial<LogSettings> = {};
+
+  if (logFormat !== undefined) {
+    if (!LOG_FORMATS.includes(logFormat)) {
+      return { error: `Log format must be one of: ${LOG_FORMATS.join(', ')}` };
+    }
+    data.logFormat = logFormat;
+  }
+
+  if (logTemplate !== undefined) {
+    if (logTemplate !== null && logTemplate !== '') {
+      const error = validateLogTemplate(logTemplate);
+      if (error) {
+        return { error };
+      }
+    }
+    data.logTemplate = logTemplate || null;
+  }
+
+  if (logFormat === 'custom' && !data.logTemplate) {
+    return { error: 'A template is required for the custom log format' };
+  }
+
+  if (logTitle !== undefined) {
+    if (logTitle !== null && (typeof logTitle !== 'string' || logTitle.length > MAX_TITLE)) {
+      return { error: `Log title must be at most ${MAX_TITLE} characters` };
+    }
+    data.logTitle = logTitle?.trim() || null;
+  }
+
+  if (logColor !== undefined) {
+    if (logColor !== null && (!Number.isInteger(logColor) || logColor < 0 || logColor > 0xFFFFFF)) {
+      return { error: 'Log color must be an RGB integer' };
+    }
+    data.logColor = logColor;
+  }
+
+  return { data };
+}
+
+/**
+ * Renders a template for one change
+ * @param {string} template - The template
+ * @param {LoggedRoleChange} change - The change
+ * @param {Map<string, string>} roleNames - Role names by ID
+ * @param {number} count - Number of changes in the batch
+ * @returns {string} The rendered line
+ */
+export function renderLogTemplate(
+  template: string,
+  change: LoggedRoleChange,
+  roleNames: Map<string, string>,
+  count: number
+): string {
+  return renderTemplate(template, {
+    user: `<@${change.userId}>`,
+    userId: change.userId,
+    role: roleNames.get(change.roleId) ?? change.roleId,
+    roleId: change.roleId,
+    action: change.action === 'add' ? 'added' : 'removed',
+    emoji: change.action === 'add' ? '✅' : '❌',
+    reason: change.reason,
+    count: String(count),
+  });
+}
+
+/**
+ * Formats a member so the entry stays identifiable after nickname changes
+ * @param {string} userId - The member's ID
+ * @returns {string} The list line
+ */
+function formatMember(userId: string): string {
+  return `• <@${userId}> (\`${userId}\`)`;
+}
+
+/**
+ * Counts the characters Discord applies to the 6000 character embed limit
+ * @param {APIEmbed} embed - The embed
+ * @returns {number} The character count
+ */
+function countEmbedChars(embed: APIEmbed): number {
+  return (embed.title?.length ?? 0)
+    + (embed.description?.length ?? 0)
+    + (embed.footer?.text.length ?? 0)
+    + (embed.fields ?? []).reduce((total, field) => total + field.name.length + field.value.length, 0);
+}
+
+/**
+ * Joins lines into chunks no longer than the given limit
+ * @param {string[]} lines - The lines to join
+ * @param {number} limit - Maximum characters per chunk
+ * @returns {string[]} The chunks
+ */
+function chunkLines(lines: string[], limit: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const rawLine of lines) {
+    const line = rawLine.length > limit ? `${rawLine.slice(0, limit - 1)}…` : rawLine;
+    if (current && current.length + 1 + line.length > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Builds one field per 1024 characters of members for every role and action
+ * @param {LoggedRoleChange[]} changes - The changes to list
+ * @param {Map<string, string>} roleNames - Role names by ID
+ * @returns {APIEmbedField[]} The fields, grouped by role
+ */
+function buildFields(changes: LoggedRoleChange[], roleNames: Map<string, string>): APIEmbedField[] {
+  const fields: APIEmbedField[] = [];
+  const roleIds = Array.from(new Set(changes.map(change => change.roleId)));
+
+  for (const roleId of roleIds) {
+    const roleName = roleNames.get(roleId) ?? roleId;
+
+    for (const action of ['add', 'remove'] as const) {
+      const userIds = changes
+        .filter(change => change.roleId === roleId && change.action === action)
+        .map(change => change.userId);
+      const chunks = chunkLines(userIds.map(formatMember), MAX_FIELD_VALUE);
+      const name = action === 'add' ? `✅ Added ${roleName} Role` : `❌ Removed ${roleName} Role`;
+
+      chunks.forEach((value, index) => {
+        fields.push({ name: index === 0 ? name : `${name} (continued)`, value });
+      });
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Packs fields into as few embeds as the field count and character limits allow
+ * @param {APIEmbedField[]} fields - The fields to pack
+ * @param {string} title - The embed title
+ * @returns {APIEmbed[]} The embeds
+ */
+function packEmbeds(fields: APIEmbedField[], title: string): APIEmbed[] {
+  const embeds: APIEmbed[] = [];
+  // Reserve room for the page counter added to the title afterwards
+  const newEmbed = (): APIEmbed => ({ title: `${title} (00/00)`, description: EMBED_DESCRIPTION, fields: [] });
+  let current = newEmbed();
+
+  for (const field of fields) {
+    const wouldOverflow = current.fields!.length >= MAX_FIELDS
+      || countEmbedChars(current) + field.name.length + field.value.length > MAX_EMBED_CHARS;
+    if (wouldOverflow && current.fields!.length > 0) {
+      embeds.push(current);
+      current = newEmbed();
+    }
+    current.fields!.push(field);
+  }
+  if (current.fields!.length > 0) {
+    embeds.push(current);
+  }
+
+  return embeds;
+}
+
+/**
+ * Builds an embed counting additions and removals per role
+ * @param {LoggedRoleChange[]} changes - The changes to summarise
+ * @param {Map<string, string>} roleNames - Role names by ID
+ * @param {string} title - The embed title
+ * @param {number} color - The embed color
+ * @param {string} description - The embed description
+ * @param {Date} now - When the changes were made
+ * @returns {APIEmbed} The summary embed
+ */
+function buildSummaryEmbed(
+  changes: LoggedRoleChange[],
+  roleNames: Map<string, string>,
+  title: string,
+  color: number,
+  description: string,
+  now: Date
+): APIEmbed {
+  const roleIds = Array.from(new Set(changes.map(change => change.roleId)));
+  const fields = roleIds.slice(0, MAX_FIELDS).map(roleId => {
+    const added = changes.filter(change => change.roleId === roleId && change.action === 'add').length;
+    const removed = changes.filter(change => change.roleId === roleId && change.action === 'remove').length;
+    return {
+      name: roleNames.get(roleId) ?? roleId,
+      value: `✅ ${added} added\n❌ ${removed} removed`,
+      inline: true,
+    };
+  });
+
+  return {
+    color,
+    title,
+    description,
+    fields,
+    timestamp: now.toISOString(),
+  };
+}
+
+/**
+ * Escapes a value for a CSV cell
+ * @param {string} value - The value
+ * @returns {string} The escaped cell
+ */
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Builds a CSV listing every change
+ * @param {LoggedRoleChange[]} changes - The changes to list
+ * @param {Map<string, string>} roleNames - Role names by ID
+ * @returns {string} The CSV contents
+ */
+export function buildRoleChangeCsv(changes: LoggedRoleChange[], roleNames: Map<string, string>): string {
+  const rows = changes.map(change => [
+    change.userId,
+    change.roleId,
+    roleNames.get(change.roleId) ?? '',
+    change.action,
+    change.reason,
+  ].map(csvCell).join(','));
+
+  return ['user_id,role_id,role_name,action,reason', ...rows].join('\n');
+}
+
+/**
+ * Builds the messages logging a batch of role changes in the guild's chosen format.
+ * Members are listed by mention and ID and split across fields, embeds and messages
+ * to respect Discord's limits. Batches that would need more than {@link MAX_LOG_MESSAGES}
+ * messages are summarised with a CSV attachment instead.
+ * @param {LoggedRoleChange[]} changes - The changes to log
+ * @param {Map<string, string>} roleNames - Role names by ID
+ * @param {LogSettings} [settings=DEFAULT_LOG_SETTINGS] - The guild's log settings
+ * @param {Date} [now=new Date()] - When the changes were made
+ * @returns {LogMessage[]} The messages to send, in order
+ */
+export function buildRoleChangeLogMessages(
+  changes: LoggedRoleChange[],
+  roleNames: Map<string, string>,
+  settings: LogSettings = DEFAULT_LOG_SETTINGS,
+  now: Date = new Date()
+): LogMessage[] {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const title = settings.logTitle || DEFAULT_TITLE;
+  const color = settings.logColor ?? DEFAULT_COLOR;
+  const csvFallback = (): LogMessage[] => [{
+    embeds: [buildSummaryEmbed(
+      changes,
+      roleNames,
+      title,
+      color,
+      `${changes.length} role changes were made. The full list is attached.`,
+      now
+    )],
+    csv: {
+      name: `role-changes-${now.toISOString().replace(/[:.]/g, '-')}.csv`,
+      content: buildRoleChangeCsv(changes, roleNames),
+    },
+  }];
+
+  switch (settings.logFormat) {
+    case 'summary':
+      return [{
+        embeds: [buildSummaryEmbed(changes, roleNames, title, color, `${changes.length} role change${changes.length === 1 ? ' was' : 's were'} made.`, now)],
+      }];
+
+    case 'compact':
+    case 'custom': {
+      const template = settings.logFormat === 'custom' && settings.logTemplate
+        ? settings.logTemplate
+        : COMPACT_TEMPLATE;
+      const lines = changes.map(change => renderLogTemplate(template, change, roleNames, changes.length));
+      const chunks = chunkLines(lines, MAX_CONTENT);
+      if (chunks.length > MAX_LOG_MESSAGES) {
+        return csvFallback();
+      }
+      return chunks.map(content => ({ content }));
+    }
+
+    case 'detailed':
+    default: {
+      const embeds = packEmbeds(buildFields(changes, roleNames), title);
+      if (embeds.length > MAX_LOG_MESSAGES) {
+        return csvFallback();
+      }
+
+      return embeds.map((embed, index) => ({
+        embeds: [{
+          ...embed,
+          color,
+          title: embeds.length > 1 ? `${title} (${index + 1}/${embeds.length})` : title,
+          timestamp: now.toISOString(),
+        }],
+      }));
+    }
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import { botService } from '@/services/bot';
+import { flushLogs, logger } from '@/utils/logger';
 
 let botStartPromise: Promise<void> | null = null;
 let lastError: Error | null = null;
@@ -22,7 +23,7 @@ export async function initializeServer() {
     // Start the bot
     await botService.start();
   } catch (error) {
-    console.error('Failed to initialize server:', error);
+    logger.error('Failed to initialize server', { error });
     throw error;
   }
 }
@@ -37,8 +38,8 @@ export async function ensureBotStarted(): Promise<void> {
     return Promise.resolve();
   }
 
-  // If bot is already logged in, return immediately
-  if (botService.isLoggedIn()) {
+  // If bot is already logged in or was deliberately stopped, return immediately
+  if (botService.isLoggedIn() || botService.isStopped()) {
     return Promise.resolve();
   }
 
@@ -50,11 +51,11 @@ export async function ensureBotStarted(): Promise<void> {
   // Start the bot and store the promise
   botStartPromise = (async () => {
     try {
-      console.log('Starting bot from server-init...');
+      logger.info('Starting bot from server-init');
       await botService.start();
-      console.log('Bot started successfully from server-init');
+      logger.info('Bot started successfully from server-init');
     } catch (error) {
-      console.error('Failed to start bot:', error);
+      logger.error('Failed to start bot', { error });
       throw error;
     } finally {
       // Clear the promise after completion
@@ -65,9 +66,37 @@ export async function ensureBotStarted(): Promise<void> {
   return botStartPromise;
 }
 
+/**
+ * Registers SIGTERM/SIGINT handlers that stop the bot before the process exits,
+ * so an in-flight sync finishes and the gateway connection is closed cleanly
+ */
+function registerShutdownHandlers() {
+  // Module reloads in development must not stack up listeners
+  const globalState = globalThis as typeof globalThis & { botShutdownHandlersRegistered?: boolean };
+  if (globalState.botShutdownHandlersRegistered) {
+    return;
+  }
+  globalState.botShutdownHandlersRegistered = true;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    logger.info('Stopping bot on signal', { signal });
+    try {
+      await botService.stop();
+    } catch (error) {
+      logger.error('Error stopping bot during shutdown', { error });
+    }
+    await flushLogs();
+    process.exit(0);
+  };
+
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
 // Start the bot immediately when this module is loaded
 if (typeof window === 'undefined') {
+  registerShutdownHandlers();
   ensureBotStarted().catch(error => {
-    console.error('Initial bot start failed:', error);
+    logger.error('Initial bot start failed', { error });
   });
 } 
\ No newline at end of file
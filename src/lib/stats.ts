@@ -0,0 +1,103 @@
+/**
+ * @file stats.ts
+ * @description Ranges, granularities and bucketing for tag adoption stats, shared by the API and the dashboard
+ * @module lib/stats
+ */
+
+import { StatsGranularity, StatsRange, TagStatsPoint } from '@/types/guild';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Length of each stats range in milliseconds
+ * @type {Record<StatsRange, number>}
+ */
+export const STATS_RANGES: Record<StatsRange, number> = {
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '365d': 365 * DAY_MS,
+};
+
+/**
+ * Length of each stats interval in milliseconds
+ * @type {Record<StatsGranularity, number>}
+ */
+export const STATS_GRANULARITIES: Record<StatsGranularity, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+/**
+ * Most intervals a series may have, which keeps hourly stats to short ranges
+ * @type {number}
+ */
+export const MAX_STATS_POINTS = 1000;
+
+/**
+ * Checks whether a value is a stats range
+ * @param {unknown} value - The value to check
+ * @returns {boolean} Whether the value is a stats range
+ */
+export function isStatsRange(value: unknown): value is StatsRange {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STATS_RANGES, value);
+}
+
+/**
+ * Checks whether a value is a stats granularity
+ * @param {unknown} value - The value to check
+ * @returns {boolean} Whether the value is a stats granularity
+ */
+export function isStatsGranularity(value: unknown): value is StatsGranularity {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STATS_GRANULARITIES, value);
+}
+
+/**
+ * Whether a range can be shown at a granularity without exceeding the point limit
+ * @param {StatsRange} range - The range
+ * @param {StatsGranularity} granularity - The granularity
+ * @returns {boolean} Whether the combination is allowed
+ */
+export function isStatsResolutionAllowed(range: StatsRange, granularity: StatsGranularity): boolean {
+  return STATS_RANGES[range] / STATS_GRANULARITIES[granularity] <= MAX_STATS_POINTS;
+}
+
+/**
+ * Groups snapshots into intervals: counts come from the last snapshot in each interval
+ * and role changes are summed
+ * @param {Array<Omit<TagStatsPoint, 'time'> & {createdAt: Date}>} snapshots - Snapshots, oldest first
+ * @param {StatsGranularity} granularity - The interval length
+ * @returns {TagStatsPoint[]} One point per interval with snapshots, oldest first
+ */
+export function bucketSnapshots(
+  snapshots: Array<Omit<TagStatsPoint, 'time'> & { createdAt: Date }>,
+  granularity: StatsGranularity
+): TagStatsPoint[] {
+  const size = STATS_GRANULARITIES[granularity];
+  const points: TagStatsPoint[] = [];
+
+  for (const snapshot of snapshots) {
+    const time = Math.floor(snapshot.createdAt.getTime() / size) * size;
+    const last = points[points.length - 1];
+    if (last?.time === time) {
+      last.memberCount = snapshot.memberCount;
+      last.tagWearers = snapshot.tagWearers;
+      last.roleHolders = snapshot.roleHolders;
+      last.rolesAdded += snapshot.rolesAdded;
+      last.rolesRemoved += snapshot.rolesRemoved;
+    } else {
+      points.push({
+        time,
+        memberCount: snapshot.memberCount,
+        tagWearers: snapshot.tagWearers,
+        roleHolders: snapshot.roleHolders,
+        rolesAdded: snapshot.rolesAdded,
+        rolesRemoved: snapshot.rolesRemoved,
+      });
+    }
+  }
+
+  return points;
+}
@@ -0,0 +1,35 @@
+/**
+ * @file templates.test.ts
+ * @description Tests for template validation and rendering
+ * @module lib/templates.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, validateTemplate } from '@/lib/templates';
+
+const PLACEHOLDERS = { user: 'The member', role: 'The role' };
+
+describe('validateTemplate', () => {
+  it('accepts known placeholders', () => {
+    expect(validateTemplate('{user} got {role}', PLACEHOLDERS, 100)).toBeNull();
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(validateTemplate('{user} got {prize}', PLACEHOLDERS, 100)).toBe('Unknown placeholder: {prize}');
+  });
+
+  it('rejects object prototype keys as placeholders', () => {
+    expect(validateTemplate('{constructor} {toString}', PLACEHOLDERS, 100))
+      .toBe('Unknown placeholders: {constructor}, {toString}');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('replaces known placeholders and leaves the rest as written', () => {
+    expect(renderTemplate('{user} got {role} {prize}', { user: 'Ada', role: 'Fan' })).toBe('Ada got Fan {prize}');
+  });
+
+  it('leaves object prototype keys as written', () => {
+    expect(renderTemplate('{constructor}', { user: 'Ada' })).toBe('{constructor}');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file templates.ts
+ * @description Placeholder templates for admin-configurable bot messages
+ * @module lib/templates
+ */
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Checks a template for problems
+ * @param {unknown} template - The template to check
+ * @param {Record<string, string>} placeholders - Allowed placeholder names with their descriptions
+ * @param {number} maxLength - Longest accepted template
+ * @returns {string | null} An error message, or null if the template is valid
+ */
+export function validateTemplate(
+  template: unknown,
+  placeholders: Record<string, string>,
+  maxLength: number
+): string | null {
+  if (typeof template !== 'string' || template.trim() === '') {
+    return 'Template must not be empty';
+  }
+  if (template.length > maxLength) {
+    return `Template must be at most ${maxLength} characters`;
+  }
+
+  const unknown = Array.from(template.matchAll(PLACEHOLDER_PATTERN))
+    .map(match => match[1])
+    .filter(name => !Object.hasOwn(placeholders, name));
+  if (unknown.length > 0) {
+    return `Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{${name}}`).join(', ')}`;
+  }
+
+  // Braces left over after removing placeholders are almost always typos
+  if (/[{}]/.test(template.replace(PLACEHOLDER_PATTERN, ''))) {
+    return 'Template has an unmatched { or }';
+  }
+
+  return null;
+}
+
+/**
+ * Replaces placeholders in a template, leaving unknown ones as written
+ * @param {string} template - The template
+ * @param {Record<string, string>} values - Placeholder values by name
+ * @returns {string} The rendered text
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => Object.hasOwn(values, name) ? values[name] : match);
+}
@@ -0,0 +1,146 @@
+/**
+ * @file thank-you.ts
+ * @description Settings and message templates for thanking members who equip the server tag.
+ * Free of runtime discord.js imports so the dashboard can validate templates with the same code.
+ * @module lib/thank-you
+ */
+
+import { ThankYouSettings } from '@/types/guild';
+import { renderTemplate, validateTemplate } from '@/lib/templates';
+
+const MAX_COOLDOWN_HOURS = 24 * 30;
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+/**
+ * Longest accepted thank-you template, leaving room for placeholder values within Discord's 2000
+ * @type {number}
+ */
+export const MAX_THANK_YOU_LENGTH = 1500;
+
+/**
+ * Placeholders thank-you templates may use, with what they are replaced by
+ * @type {Record<string, string>}
+ */
+export const THANK_YOU_PLACEHOLDERS: Record<string, string> = {
+  user: 'Mention of the member',
+  username: 'Display name of the member',
+  server: 'Name of the server',
+  role: 'Name of the role granted',
+};
+
+/**
+ * Direct message sent when a guild has not written its own
+ * @type {string}
+ */
+export const DEFAULT_WELCOME_DM = 'Thanks for wearing the **{server}** tag, {username}! You\'ve been given the **{role}** role.';
+
+/**
+ * Shout-out posted when a guild has not written its own
+ * @type {string}
+ */
+export const DEFAULT_SHOUTOUT = '🎉 {user} is now repping the **{server}** tag!';
+
+/**
+ * Settings used when a guild has not configured thank-you messages
+ * @type {ThankYouSettings}
+ */
+export const DEFAULT_THANK_YOU_SETTINGS: ThankYouSettings = {
+  welcomeDmEnabled: false,
+  welcomeDmMessage: null,
+  shoutoutChannelId: null,
+  shoutoutMessage: null,
+  thankYouCooldownHours: 24,
+};
+
+/**
+ * Values substituted into a thank-you template
+ * @interface ThankYouContext
+ * @property {string} userId - ID of the member
+ * @property {string} username - Display name of the member
+ * @property {string} serverName - Name of the guild
+ * @property {string} roleName - Name of the role granted
+ */
+export interface ThankYouContext {
+  userId: string;
+  username: string;
+  serverName: string;
+  roleName: string;
+}
+
+/**
+ * Checks a thank-you template for problems
+ * @param {unknown} template - The template to check
+ * @returns {string | null} An error message, or null if the template is valid
+ */
+export function validateThankYouTemplate(template: unknown): string | null {
+  return validateTemplate(template, THANK_YOU_PLACEHOLDERS, MAX_THANK_YOU_LENGTH);
+}
+
+/**
+ * Checks thank-you settings from a request body, keeping only the fields that were sent
+ * @param {any} body - The parsed JSON request body
+ * @returns {{ data?: Partial<ThankYouSettings>; error?: string }} The validated settings or an error message
+ */
+export function parseThankYouSettings(body: any): { data?: Partial<ThankYouSettings>; error?: string } {
+  const { welcomeDmEnabled, welcomeDmMessage, shoutoutChannelId, shoutoutMessage, thankYouCooldownHours } = body ?? {};
+  const data: Partial<ThankYouSettings> = {};
+
+  if (welcomeDmEnabled !== undefined) {
+    if (typeof welcomeDmEnabled !== 'boolean') {
+      return { error: 'Welcome DM setting must be a boolean' };
+    }
+    data.welcomeDmEnabled = welcomeDmEnabled;
+  }
+
+  for (const [field, value, label] of [
+    ['welcomeDmMessage', welcomeDmMessage, 'Welcome DM'],
+    ['shoutoutMessage', shoutoutMessage, 'Shout-out'],
+  ] as const) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && value !== '') {
+      const error = validateThankYouTemplate(value);
+      if (error) {
+        return { error: `${label}: ${error}` };
+      }
+    }
+    data[field] = value || null;
+  }
+
+  if (shoutoutChannelId !== undefined) {
+    if (shoutoutChannelId && (typeof shoutoutChannelId !== 'string' || !SNOWFLAKE_PATTERN.test(shoutoutChannelId))) {
+      return { error: 'Shout-out channel must be a valid channel ID' };
+    }
+    data.shoutoutChannelId = shoutoutChannelId || null;
+  }
+
+  if (thankYouCooldownHours !== undefined) {
+    if (!Number.isInteger(thankYouCooldownHours) || thankYouCooldownHours < 0 || thankYouCooldownHours > MAX_COOLDOWN_HOURS) {
+      return { error: `Thank-you cooldown must be between 0 and ${MAX_COOLDOWN_HOURS} hours` };
+    }
+    data.thankYouCooldownHours = thankYouCooldownHours;
+  }
+
+  return { data };
+}
+
+/**
+ * Renders a thank-you template, falling back to the given default when none is set
+ * @param {string | null} template - The guild's template
+ * @param {string} fallback - The default template
+ * @param {ThankYouContext} context - The values to substitute
+ * @returns {string} The rendered message
+ */
+export function renderThankYouMessage(
+  template: string | null,
+  fallback: string,
+  context: ThankYouContext
+): string {
+  return renderTemplate(template || fallback, {
+    user: `<@${context.userId}>`,
+    username: context.username,
+    server: context.serverName,
+    role: context.roleName,
+  });
+}
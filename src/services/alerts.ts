@@ -0,0 +1,242 @@
+/**
+ * @file alerts.ts
+ * @description Notifies the bot's operators of outages by webhook and email, once per incident, with a notice on recovery
+ * @module services/alerts
+ */
+
+import { createMailTransport, getMissingSmtpVars } from '@/lib/mailer';
+import { logger } from '@/utils/logger';
+
+/**
+ * Payload format of the alert webhook
+ * @typedef {'json' | 'discord'} AlertWebhookFormat
+ */
+export type AlertWebhookFormat = 'json' | 'discord';
+
+/**
+ * A problem that needs an operator's attention
+ * @interface Alert
+ * @property {string} title - A short summary
+ * @property {string} message - What went wrong
+ * @property {string} [guildId] - The guild affected, if the problem is limited to one
+ * @property {Record<string, string | number>} [details] - Additional facts shown with the alert
+ */
+export interface Alert {
+  title: string;
+  message: string;
+  guildId?: string;
+  details?: Record<string, string | number>;
+}
+
+/**
+ * Where alerts are delivered
+ * @interface AlertConfig
+ * @property {string | null} webhookUrl - URL alerts are posted to
+ * @property {AlertWebhookFormat} webhookFormat - Payload format of the webhook
+ * @property {string | null} emailTo - Comma-separated addresses alerts are emailed to
+ */
+export interface AlertConfig {
+  webhookUrl: string | null;
+  webhookFormat: AlertWebhookFormat;
+  emailTo: string | null;
+}
+
+/**
+ * Whether an alert reports a problem or its resolution
+ * @typedef {'alert' | 'recovery'} AlertEvent
+ */
+type AlertEvent = 'alert' | 'recovery';
+
+const WEBHOOK_TIMEOUT = 10000; // 10 seconds
+const DISCORD_WEBHOOK_PATTERN = /^https:\/\/(?:\w+\.)?discord(?:app)?\.com\/api\/webhooks\//;
+
+/**
+ * Reads the alert destinations from the environment; Discord webhook URLs default to the Discord format
+ * @returns {AlertConfig} The configuration
+ */
+export function readAlertConfig(): AlertConfig {
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL || null;
+  const format = process.env.ALERT_WEBHOOK_FORMAT;
+  return {
+    webhookUrl,
+    webhookFormat: format === 'json' || format === 'discord'
+      ? format
+      : webhookUrl && DISCORD_WEBHOOK_PATTERN.test(webhookUrl) ? 'discord' : 'json',
+    emailTo: process.env.ALERT_EMAIL_TO || null,
+  };
+}
+
+/**
+ * Formats a duration for recovery notices
+ * @param {number} ms - The duration in milliseconds
+ * @returns {string} The duration, e.g. `2h 5m`
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) {
+    return 'less than a minute';
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Sends operator alerts, keyed by incident so a problem that persists is reported once and
+ * its resolution is reported when it clears
+ * @class AlertNotifier
+ */
+export class AlertNotifier {
+  // Open incidents by key, with when they were raised
+  private active = new Map<string, { alert: Alert; raisedAt: number }>();
+
+  /**
+   * @param {AlertConfig} [config] - Where alerts are delivered, read from the environment by default
+   */
+  constructor(private readonly config: AlertConfig = readAlertConfig()) {}
+
+  /**
+   * Whether any alert destination is configured
+   * @returns {boolean} Whether alerts are delivered anywhere
+   */
+  public isEnabled(): boolean {
+    return Boolean(this.config.webhookUrl || this.config.emailTo);
+  }
+
+  /**
+   * Whether an incident is open
+   * @param {string} key - The incident key
+   * @returns {boolean} Whether the incident is open
+   */
+  public isActive(key: string): boolean {
+    return this.active.has(key);
+  }
+
+  /**
+   * Opens an incident and sends its alert, unless the incident is already open
+   * @param {string} key - Identifies the incident, e.g. `sync:<guildId>`
+   * @param {Alert} alert - The alert
+   * @returns {Promise<void>}
+   */
+  public async raise(key: string, alert: Alert): Promise<void> {
+    if (this.active.has(key)) {
+      return;
+    }
+    this.active.set(key, { alert, raisedAt: Date.now() });
+    logger.warn('Alert raised', { alertKey: key, guildId: alert.guildId, title: alert.title, alertMessage: alert.message });
+    await this.deliver('alert', key, alert);
+  }
+
+  /**
+   * Closes an open incident and sends a recovery notice; does nothing if the incident isn't open
+   * @param {string} key - The incident key
+   * @param {string} message - How the problem was resolved
+   * @returns {Promise<void>}
+   */
+  public async resolve(key: string, message: string): Promise<void> {
+    const incident = this.active.get(key);
+    if (!incident) {
+      return;
+    }
+    this.active.delete(key);
+    logger.info('Alert resolved', { alertKey: key, guildId: incident.alert.guildId, title: incident.alert.title });
+    await this.deliver('recovery', key, {
+      title: `Resolved: ${incident.alert.title}`,
+      message,
+      guildId: incident.alert.guildId,
+      details: { Duration: formatDuration(Date.now() - incident.raisedAt) },
+    });
+  }
+
+  /**
+   * Closes an incident without a recovery notice, for when its subject no longer exists
+   * @param {string} key - The incident key
+   */
+  public dismiss(key: string) {
+    this.active.delete(key);
+  }
+
+  /**
+   * Sends an alert to every configured destination; failures are logged, never thrown
+   * @private
+   * @param {AlertEvent} event - Whether the alert reports a problem or its resolution
+   * @param {string} key - The incident key
+   * @param {Alert} alert - The alert
+   * @returns {Promise<void>}
+   */
+  private async deliver(event: AlertEvent, key: string, alert: Alert): Promise<void> {
+    const deliveries: Array<Promise<void>> = [];
+    if (this.config.webhookUrl) {
+      deliveries.push(this.sendWebhook(this.config.webhookUrl, event, key, alert));
+    }
+    if (this.config.emailTo) {
+      deliveries.push(this.sendEmail(this.config.emailTo, event, alert));
+    }
+
+    const results = await Promise.allSettled(deliveries);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.error('Error delivering alert', { alertKey: key, guildId: alert.guildId, error: result.reason });
+      }
+    }
+  }
+
+  /**
+   * Posts an alert to the webhook
+   * @private
+   * @param {string} url - The webhook URL
+   * @param {AlertEvent} event - Whether the alert reports a problem or its resolution
+   * @param {string} key - The incident key
+   * @param {Alert} alert - The alert
+   * @returns {Promise<void>}
+   */
+  private async sendWebhook(url: string, event: AlertEvent, key: string, alert: Alert): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const details = { ...(alert.guildId && { Guild: alert.guildId }), ...alert.details };
+    const body = this.config.webhookFormat === 'discord'
+      ? {
+        embeds: [{
+          title: alert.title,
+          description: alert.message.slice(0, 4096),
+          color: event === 'alert' ? 0xED4245 : 0x57F287,
+          fields: Object.entries(details).map(([name, value]) => ({ name, value: String(value).slice(0, 1024), inline: true })),
+          timestamp
+        }],
+        allowed_mentions: { parse: [] }
+      }
+      : { event, key, title: alert.title, message: alert.message, guildId: alert.guildId ?? null, details: alert.details ?? {}, timestamp };
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Emails an alert using the SMTP settings
+   * @private
+   * @param {string} to - Comma-separated recipient addresses
+   * @param {AlertEvent} event - Whether the alert reports a problem or its resolution
+   * @param {Alert} alert - The alert
+   * @returns {Promise<void>}
+   */
+  private async sendEmail(to: string, event: AlertEvent, alert: Alert): Promise<void> {
+    const missingVars = getMissingSmtpVars();
+    if (missingVars.length > 0) {
+      throw new Error(`Missing required SMTP environment variables: ${missingVars.join(', ')}`);
+    }
+
+    const details = Object.entries({ ...(alert.guildId && { Guild: alert.guildId }), ...alert.details })
+      .map(([name, value]) => `${name}: ${value}`);
+    await createMailTransport().sendMail({
+      from: process.env.NEXT_PUBLIC_SMTP_FROM,
+      to,
+      subject: `[Infernos Tag Role Bot] ${event === 'alert' ? 'Alert' : 'Recovered'}: ${alert.title.replace(/^Resolved: /, '')}`,
+      text: [alert.message, '', ...details].join('\n'),
+    });
+  }
+}
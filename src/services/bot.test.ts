@@ -0,0 +1,246 @@
+/**
+ * @file bot.test.ts
+ * @description Tests that syncs and member updates against the fake Discord server grant and remove tag roles
+ * @module services/bot.test
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeDiscordServer, FakeGuild } from '@/testing/fake-discord';
+import { AlertNotifier } from '@/services/alerts';
+import { BotService, GuildConfig, SyncAbortedError } from '@/services/bot';
+import { prisma } from '@/lib/prisma';
+
+const discord = vi.hoisted(() => ({ apiUrl: '' }));
+
+vi.mock('@/lib/discord-api', () => ({
+  get DISCORD_API_URL() {
+    return discord.apiUrl;
+  },
+}));
+vi.mock('@/lib/prisma', () => {
+  /**
+   * Creates a model whose reads find nothing and whose writes succeed
+   * @returns {Record<string, unknown>} The model's methods
+   */
+  const model = () => ({
+    findUnique: vi.fn().mockResolvedValue(null),
+    findFirst: vi.fn().mockResolvedValue(null),
+    findMany: vi.fn().mockResolvedValue([]),
+    groupBy: vi.fn().mockResolvedValue([]),
+    count: vi.fn().mockResolvedValue(0),
+    create: vi.fn(async ({ data }) => data),
+    update: vi.fn(async ({ data }) => data),
+    upsert: vi.fn(async ({ create }) => create),
+    delete: vi.fn().mockResolvedValue({}),
+    createMany: vi.fn(async ({ data }) => ({ count: data.length })),
+    updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+  });
+  const models = new Map<string, ReturnType<typeof model>>();
+
+  const client: unknown = new Proxy({}, {
+    get: (_target, name: string) => {
+      if (name === '$transaction') {
+        return async (operations: unknown) => typeof operations === 'function'
+          ? operations(client)
+          : Promise.all(operations as Array<Promise<unknown>>);
+      }
+      if (!models.has(name)) {
+        models.set(name, model());
+      }
+      return models.get(name);
+    },
+  });
+
+  return { prisma: client };
+});
+
+describe('BotService', () => {
+  const fake = new FakeDiscordServer();
+  let bot: BotService;
+  let guild: FakeGuild;
+  let config: GuildConfig;
+  let tagRoleId: string;
+  let tierRoleId: string;
+  let logChannelId: string;
+  let wearerId: string;
+  let formerWearerId: string;
+
+  /**
+   * Builds an active configuration granting the tag role
+   * @param {Partial<GuildConfig>} [overrides] - Fields to change
+   * @returns {GuildConfig} The configuration
+   */
+  const buildConfig = (overrides: Partial<GuildConfig> = {}): GuildConfig => ({
+    guildId: guild.id,
+    roleId: tagRoleId,
+    logChannelId,
+    previewMode: false,
+    healthAlertsEnabled: false,
+    mappings: [],
+    tiers: [],
+    ignoreBots: true,
+    exemptRoles: [],
+    requiredRoleId: null,
+    minMembershipDays: 0,
+    logFormat: 'detailed',
+    logTemplate: null,
+    logTitle: null,
+    logColor: null,
+    welcomeDmEnabled: false,
+    welcomeDmMessage: null,
+    shoutoutChannelId: null,
+    shoutoutMessage: null,
+    thankYouCooldownHours: 24,
+    removalGraceMinutes: 0,
+    maxRemovalPercent: 100,
+    status: 'active',
+    statusReason: null,
+    ...overrides,
+  });
+
+  /**
+   * Lists the members holding the tag role
+   * @returns {string[]} Their user IDs
+   */
+  const roleHolders = () => [...guild.members.values()]
+    .filter(member => member.roles.includes(tagRoleId))
+    .map(member => member.userId)
+    .sort();
+
+  beforeAll(async () => {
+    await fake.start();
+    discord.apiUrl = fake.apiUrl;
+
+    guild = fake.addGuild({ name: 'Test Server' });
+    tagRoleId = fake.addRole(guild.id, { name: 'Tag Wearer', position: 1 }).id;
+    tierRoleId = fake.addRole(guild.id, { name: 'Veteran', position: 2 }).id;
+    logChannelId = fake.addChannel(guild.id, { name: 'tag-log' }).id;
+    // Members join before the bot logs in, so only the sync can change their roles
+    wearerId = fake.addMember(guild.id, { primaryGuildId: guild.id }).userId;
+    formerWearerId = fake.addMember(guild.id, { primaryGuildId: null, roles: [tagRoleId] }).userId;
+    fake.addMember(guild.id, { primaryGuildId: fake.nextId() });
+    fake.addMember(guild.id, { primaryGuildId: guild.id, bot: true });
+
+    bot = new BotService({
+      clientFactory: () => fake.createClient(),
+      token: fake.token,
+      alerts: new AlertNotifier({ webhookUrl: null, webhookFormat: 'json', emailTo: null }),
+    });
+    await bot.start();
+  });
+
+  afterAll(async () => {
+    await bot.stop();
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    config = buildConfig();
+    vi.mocked(prisma.guildConfig.findUnique).mockImplementation((() => Promise.resolve(config)) as any);
+  });
+
+  it('only projects changes in preview mode', async () => {
+    config = buildConfig({ previewMode: true });
+
+    const result = await bot.syncGuild(guild.id);
+
+    expect(result).toMatchObject({ added: 1, removed: 1, preview: true, status: 'completed' });
+    expect(roleHolders()).toEqual([formerWearerId]);
+  });
+
+  it('previews the changes a sync would make, waiting for a sync in progress', async () => {
+    config = buildConfig({ previewMode: true });
+
+    const [, preview] = await Promise.all([bot.syncGuild(guild.id), bot.previewGuild(guild.id)]);
+
+    expect(preview?.adds.map(change => change.userId)).toEqual([wearerId]);
+    expect(preview?.removes.map(change => change.userId)).toEqual([formerWearerId]);
+  });
+
+  it('refuses to preview a configuration whose tag role was deleted', async () => {
+    config = buildConfig({ roleId: fake.nextId() });
+
+    await expect(bot.previewGuild(guild.id)).rejects.toBeInstanceOf(SyncAbortedError);
+    expect(bot.getPreview(guild.id)).toBeNull();
+  });
+
+  it('reports health problems without marking the configuration broken', async () => {
+    config = buildConfig({ roleId: fake.nextId() });
+    vi.mocked(prisma.guildConfig.update).mockClear();
+
+    const report = await bot.getGuildHealth(guild.id);
+
+    expect(report?.problems).toContainEqual(expect.objectContaining({ severity: 'error' }));
+    expect(prisma.guildConfig.update).not.toHaveBeenCalled();
+  });
+
+  it('grants the role to tag wearers and removes it from members who took the tag off', async () => {
+    const result = await bot.syncGuild(guild.id);
+
+    expect(result).toMatchObject({ added: 1, removed: 1, preview: false, status: 'completed' });
+    expect(roleHolders()).toEqual([wearerId]);
+    expect(fake.getMessages(logChannelId)).not.toHaveLength(0);
+  });
+
+  it('refuses to sync an archived configuration', async () => {
+    config = buildConfig({ status: 'archived', statusReason: 'The bot was removed from the server' });
+    const holders = roleHolders();
+
+    const result = await bot.syncGuild(guild.id);
+
+    expect(result).toMatchObject({ added: 0, removed: 0, status: 'archived', error: 'The bot was removed from the server' });
+    expect(roleHolders()).toEqual(holders);
+  });
+
+  it('records tier roles granted by a sync as earned by tenure', async () => {
+    config = buildConfig({ tiers: [{ days: 0, roleId: tierRoleId }] });
+    vi.mocked(prisma.roleChangeLog.createMany).mockClear();
+
+    const result = await bot.syncGuild(guild.id);
+
+    expect(result).toMatchObject({ added: 1, status: 'completed' });
+    expect(guild.members.get(wearerId)?.roles).toContain(tierRoleId);
+    expect(prisma.roleChangeLog.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ userId: wearerId, roleId: tierRoleId, action: 'add', reason: 'tenure reached' })],
+    });
+  });
+
+  it('grants the role as soon as a member equips the tag', async () => {
+    fake.setPrimaryGuild(formerWearerId, guild.id);
+
+    await vi.waitFor(() => expect(roleHolders()).toEqual([wearerId, formerWearerId].sort()));
+  });
+
+  it('thanks a member who equips the tag by DM', async () => {
+    config = buildConfig({ welcomeDmEnabled: true });
+    const memberId = fake.addMember(guild.id).userId;
+
+    fake.setPrimaryGuild(memberId, guild.id);
+
+    await vi.waitFor(() => expect(fake.getDirectMessages(memberId)).toHaveLength(1));
+  });
+
+  it('leaves roles alone when a member equips the tag while the configuration is broken', async () => {
+    config = buildConfig({ status: 'broken', statusReason: 'The tag role was deleted' });
+    const memberId = fake.addMember(guild.id).userId;
+    vi.mocked(prisma.guildConfig.findUnique).mockClear();
+
+    fake.setPrimaryGuild(memberId, guild.id);
+    await vi.waitFor(() => expect(prisma.guildConfig.findUnique).toHaveBeenCalled());
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(guild.members.get(memberId)?.roles).not.toContain(tagRoleId);
+  });
+
+  it('does not count removals still in their grace period toward the safety threshold', async () => {
+    config = buildConfig({ removalGraceMinutes: 60, maxRemovalPercent: 10 });
+    const memberIds = Array.from({ length: 10 }, () => fake.addMember(guild.id, { primaryGuildId: null, roles: [tagRoleId] }).userId);
+    await bot.syncGuild(guild.id);
+
+    const result = await bot.syncGuild(guild.id);
+
+    expect(result).toMatchObject({ removed: 0, status: 'completed' });
+    expect(roleHolders()).toEqual(expect.arrayContaining(memberIds));
+  });
+});
@@ -4,15 +4,27 @@
  * @module services/bot
  */
 
-import { Client, GatewayIntentBits, Guild, GuildMember, TextChannel, EmbedBuilder, MessageCreateOptions, APIEmbed, DiscordAPIError, Role, PartialGuildMember } from 'discord.js';
+import { randomUUID } from 'crypto';
+import { Client, GatewayIntentBits, Guild, GuildMember, TextChannel, MessageCreateOptions, APIEmbed, DiscordAPIError, Role, AttachmentBuilder } from 'discord.js';
 import { prisma } from '@/lib/prisma';
+import { DISCORD_API_URL } from '@/lib/discord-api';
+import { buildRoleChangeLogMessages } from '@/lib/role-change-log';
+import { DEFAULT_SHOUTOUT, DEFAULT_WELCOME_DM, renderThankYouMessage } from '@/lib/thank-you';
+import { GUILD_CONFIG_INCLUDE } from '@/lib/guild-config';
+import { RestScheduler, MEMBER_ROLE_ROUTE, MEMBER_LIST_ROUTE } from '@/services/rest-scheduler';
+import { Eligibility, checkEligibility } from '@/services/eligibility';
+import { checkGuildHealth } from '@/services/health-check';
+import { AlertNotifier } from '@/services/alerts';
+import { Histogram, createHistogram, observeHistogram } from '@/lib/openmetrics';
+import { Logger, logger } from '@/utils/logger';
+import { EligibilityRules, GuildConfigStatus, GuildHealthProblem, GuildHealthReport, LogFormat, OnboardingProgress, ProjectedRoleChange, RoleChangePreview, RoleChangeReason, SyncStatus, TagRoleMapping, TenureTier } from '@/types/guild';
 
 /**
  * Represents the guild data structure for a user
  * @interface GuildData
  * @property {Object} user - User information
  * @property {string} user.id - User's Discord ID
- * @property {Object} [user.primary_guild] - User's primary guild information
+ * @property {Object | null} [user.primary_guild] - User's primary guild information, null when no tag is worn
  * @property {string} user.primary_guild.identity_guild_id - ID of the user's primary guild
  */
 interface GuildData {
@@ -20,32 +32,249 @@ interface GuildData {
     id: string;
     primary_guild?: {
       identity_guild_id: string;
-    };
+    } | null;
   };
 }
 
+/**
+ * Checks whether a gateway dispatch payload is a member of a guild, as sent with member add and update events
+ * @param {unknown} data - The payload
+ * @returns {boolean} Whether the payload has a guild ID and a user ID
+ */
+function isGuildMemberPayload(data: unknown): data is GuildData & { guild_id: string } {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const { guild_id: guildId, user } = data as { guild_id?: unknown; user?: { id?: unknown } | null };
+  return typeof guildId === 'string' && typeof user?.id === 'string';
+}
+
+/**
+ * Summary of tag and role counts for a configured guild
+ * @interface GuildTagStatus
+ * @property {number} memberCount - Number of members in the guild
+ * @property {number} tagWearers - Number of members wearing the guild's own tag
+ * @property {number} withRole - Number of members holding the configured role
+ * @property {number} withoutRole - Number of members not holding the configured role
+ * @property {number} recordedAt - When the counts were taken
+ */
+export interface GuildTagStatus {
+  memberCount: number;
+  tagWearers: number;
+  withRole: number;
+  withoutRole: number;
+  recordedAt: number;
+}
+
+/**
+ * Explains whether a member should hold each role managed by a guild configuration
+ * @interface MemberExplanation
+ * @property {string} userId - The member's Discord ID
+ * @property {string | null} tagGuildId - ID of the guild whose tag the member is wearing
+ * @property {Eligibility} eligibility - Whether the guild's eligibility rules let the member hold tag roles
+ * @property {number} daysWorn - Days the guild's own tag has been worn continuously
+ * @property {Array<Object>} roles - Per-role expected and actual state; tier roles include the days they need
+ */
+export interface MemberExplanation {
+  userId: string;
+  tagGuildId: string | null;
+  eligibility: Eligibility;
+  daysWorn: number;
+  roles: Array<{
+    roleId: string;
+    sourceGuildId: string;
+    tierDays?: number;
+    shouldHaveRole: boolean;
+    hasRole: boolean;
+  }>;
+}
+
+/**
+ * Timing metrics for a guild's full reconciliations
+ * @interface GuildSyncMetrics
+ * @property {number | null} lastStartedAt - When the last sync started
+ * @property {number | null} lastCompletedAt - When the last successful sync completed
+ * @property {number | null} lastDurationMs - Duration of the last sync in milliseconds
+ * @property {number | null} averageDurationMs - Average sync duration in milliseconds
+ * @property {number} syncCount - Number of syncs run since the bot started
+ * @property {number} lastChangeCount - Number of role changes applied by the last sync
+ * @property {string | null} lastError - Error message of the last failed sync
+ * @property {number} consecutiveFailures - Failed syncs since the last successful one
+ */
+export interface GuildSyncMetrics {
+  lastStartedAt: number | null;
+  lastCompletedAt: number | null;
+  lastDurationMs: number | null;
+  averageDurationMs: number | null;
+  syncCount: number;
+  lastChangeCount: number;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
 /**
  * Represents a role change event
  * @interface RoleChange
  * @property {'add' | 'remove'} type - Type of role change
  * @property {GuildMember} member - The member whose role was changed
+ * @property {string} roleId - ID of the role that was added or removed
+ * @property {RoleChangeReason} reason - Why the change was made
  */
 interface RoleChange {
   type: 'add' | 'remove';
   member: GuildMember;
+  roleId: string;
+  reason: RoleChangeReason;
 }
 
 /**
  * Represents the configuration for a guild
  * @interface GuildConfig
  * @property {string} guildId - Discord guild ID
- * @property {string} roleId - ID of the role to assign
+ * @property {string} roleId - ID of the role to assign for the guild's own tag
  * @property {string | null} logChannelId - ID of the channel for logging role changes
+ * @property {boolean} previewMode - Whether role changes are only projected instead of applied
+ * @property {boolean} healthAlertsEnabled - Whether health check problems are posted to the log channel
+ * @property {TagRoleMapping[]} mappings - Roles to assign for other guilds' tags
+ * @property {TenureTier[]} tiers - Extra roles for wearing the guild's own tag over time
+ * @property {boolean} ignoreBots - Whether bot accounts are left untouched
+ * @property {Array<{roleId: string}>} exemptRoles - Roles whose members are left untouched
+ * @property {string | null} requiredRoleId - Role members need to receive tag roles
+ * @property {number} minMembershipDays - Days a member must have been in the guild to receive tag roles
+ * @property {string} logFormat - How role change logs are formatted
+ * @property {string | null} logTemplate - Line template for the custom log format
+ * @property {string | null} logTitle - Custom log embed title
+ * @property {number | null} logColor - Custom log embed color
+ * @property {boolean} welcomeDmEnabled - Whether members who equip the tag are sent a DM
+ * @property {string | null} welcomeDmMessage - Custom welcome DM template
+ * @property {string | null} shoutoutChannelId - ID of the channel for public shout-outs
+ * @property {string | null} shoutoutMessage - Custom shout-out template
+ * @property {number} thankYouCooldownHours - Hours before the same member is thanked again
+ * @property {number} removalGraceMinutes - Minutes a tag must stay off before its role is removed
+ * @property {number} maxRemovalPercent - Largest share of a role's holders a sync may remove without confirmation
+ * @property {string} status - Whether the configuration is active, broken or archived
+ * @property {string | null} statusReason - Why the configuration is broken or archived
  */
-interface GuildConfig {
+export interface GuildConfig {
   guildId: string;
   roleId: string;
   logChannelId: string | null;
+  previewMode: boolean;
+  healthAlertsEnabled: boolean;
+  mappings: TagRoleMapping[];
+  tiers: TenureTier[];
+  ignoreBots: boolean;
+  exemptRoles: Array<{ roleId: string }>;
+  requiredRoleId: string | null;
+  minMembershipDays: number;
+  logFormat: string;
+  logTemplate: string | null;
+  logTitle: string | null;
+  logColor: number | null;
+  welcomeDmEnabled: boolean;
+  welcomeDmMessage: string | null;
+  shoutoutChannelId: string | null;
+  shoutoutMessage: string | null;
+  thankYouCooldownHours: number;
+  removalGraceMinutes: number;
+  maxRemovalPercent: number;
+  status: string;
+  statusReason: string | null;
+}
+
+/**
+ * Result of a full reconciliation of a guild
+ * @interface SyncOutcome
+ * @property {SyncStatus} status - Whether the sync completed, failed or was blocked
+ * @property {RoleChange[]} roleChanges - Role changes applied, or projected in preview mode
+ * @property {string | null} error - Why the sync failed or was blocked
+ */
+interface SyncOutcome {
+  status: SyncStatus;
+  roleChanges: RoleChange[];
+  error: string | null;
+}
+
+/**
+ * Result of a sync requested through the API or a slash command
+ * @interface SyncResult
+ * @property {number} added - Roles added, or projected to be added in preview mode
+ * @property {number} removed - Roles removed, or projected to be removed in preview mode
+ * @property {boolean} preview - Whether the guild is in preview mode
+ * @property {SyncStatus | 'archived'} status - Whether the sync completed, failed or was blocked, or was not run because the configuration is archived
+ * @property {string | null} error - Why the sync failed, was blocked or was not run
+ */
+export interface SyncResult {
+  added: number;
+  removed: number;
+  preview: boolean;
+  status: SyncStatus | 'archived';
+  error: string | null;
+}
+
+/**
+ * Error aborting a sync or preview before any role is changed
+ * @class SyncAbortedError
+ */
+export class SyncAbortedError extends Error {
+  constructor(public status: Exclude<SyncStatus, 'completed'>, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Creates a Discord client
+ * @callback ClientFactory
+ * @returns {Client} A new, not yet logged in client
+ */
+export type ClientFactory = () => Client;
+
+/**
+ * Options for constructing the bot service
+ * @interface BotServiceOptions
+ * @property {ClientFactory} [clientFactory] - Creates the Discord client, e.g. one pointed at a fake Discord server
+ * @property {string} [token] - Bot token, defaults to `DISCORD_TOKEN`
+ * @property {AlertNotifier} [alerts] - Delivers operator alerts, configured from the environment by default
+ */
+export interface BotServiceOptions {
+  clientFactory?: ClientFactory;
+  token?: string;
+  alerts?: AlertNotifier;
+}
+
+/**
+ * Creates a Discord client for the real API, or `DISCORD_API_URL` when set
+ * @returns {Client} The Discord client
+ */
+function createDefaultClient(): Client {
+  return new Client({
+    intents: [
+      GatewayIntentBits.Guilds,
+      GatewayIntentBits.GuildMembers,
+    ],
+    rest: {
+      api: DISCORD_API_URL,
+      timeout: 15000, // 15 seconds
+    }
+  });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the full reconciliation interval from the environment
+ * @returns {number} The interval in milliseconds
+ */
+function getSyncInterval(): number {
+  return (Number(process.env.SYNC_INTERVAL_MINUTES) || 60) * 60 * 1000;
+}
+
+/**
+ * Reads how many consecutive failed syncs of a guild trigger an alert
+ * @returns {number} The threshold
+ */
+function getSyncFailureAlertThreshold(): number {
+  return Number(process.env.ALERT_SYNC_FAILURE_THRESHOLD) || 3;
 }
 
 /**
@@ -53,9 +282,11 @@ interface GuildConfig {
  * @class BotService
  */
 export class BotService {
-  private client: Client;
+  private client!: Client;
+  private readonly clientFactory: ClientFactory;
+  private readonly token: string | undefined;
   private processingPromise: Promise<void> | null = null;
-  private readyPromise: Promise<void>;
+  private readyPromise!: Promise<void>;
   private readyResolve: (() => void) | null = null;
   private readyReject: ((error: Error) => void) | null = null;
   private readonly LOGIN_TIMEOUT = 30000; // 30 seconds
@@ -73,12 +304,28 @@ export class BotService {
   private initializationError: Error | null = null;
   private lastInitializationAttempt: number = 0;
   private readonly INITIALIZATION_COOLDOWN = 5000; // 5 seconds
-
-  // Add rate limit handling
-  private rateLimitCache = new Map<string, {
-    resetAt: number;
-    remaining: number;
-  }>();
+  private syncIntervalMs = getSyncInterval();
+  private syncTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private removalTimer: NodeJS.Timeout | null = null;
+  private removalSweepPromise: Promise<void> | null = null;
+  private isStopping: boolean = false;
+  private isHalted: boolean = false;
+  private stopPromise: Promise<void> | null = null;
+  private startPromise: Promise<void> | null = null;
+  private lastFullSync: number = 0;
+  private syncMetrics = new Map<string, GuildSyncMetrics>();
+  private syncDurations = new Map<string, Histogram>();
+  private roleChangeCounts = { add: 0, remove: 0 };
+  private previews = new Map<string, RoleChangePreview>();
+  private healthReports = new Map<string, GuildHealthReport>();
+  // Onboarding syncs in progress, by guild ID
+  private onboardingJobs = new Map<string, OnboardingProgress>();
+  // ID of the sync running for each guild, attached to its log entries
+  private activeSyncIds = new Map<string, string>();
+
+  private restScheduler = new RestScheduler();
+  private alerts: AlertNotifier;
 
   // Add caching
   private guildCache = new Map<string, {
@@ -89,33 +336,101 @@ export class BotService {
     data: GuildMember[];
     timestamp: number;
   }>();
+  // Tags are user-level, so entries are keyed by user ID and shared across guilds
+  private tagCache = new Map<string, {
+    tagGuildId: string | null;
+    timestamp: number;
+  }>();
+  private readonly TAG_CACHE_DURATION = 2 * 60 * 1000; // 2 minutes
+  // Removals waiting out the grace period, by guild ID then `userId:roleId`, mirroring the database
+  private pendingRemovals = new Map<string, Map<string, number>>();
+  private readonly REMOVAL_SWEEP_INTERVAL = 60000; // 1 minute
+  // When members started wearing the guild's own tag, by guild ID then user ID, mirroring the database
+  private wearStarts = new Map<string, Map<string, number>>();
+  // A few members may join between the gateway fetch and the REST scan; more than this means the scan is incomplete
+  private readonly UNKNOWN_MEMBER_TOLERANCE = 5;
+  private readonly UNKNOWN_MEMBER_RATIO = 0.01;
+  // Small removals are never blocked by the safety threshold
+  private readonly MIN_GUARDED_REMOVALS = 10;
+  // Days an archived configuration is kept in case the bot is re-added
+  private readonly ARCHIVE_RETENTION_DAYS = 30;
+  // Days of tag adoption snapshots kept for the stats charts
+  private readonly SNAPSHOT_RETENTION_DAYS = 365;
+  // Upper bounds in seconds of the sync duration histogram buckets
+  private readonly SYNC_DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800];
 
   /**
    * Creates a new instance of BotService
    * @constructor
+   * @param {BotServiceOptions} [options] - Client factory, token and alert notifier overrides
    */
-  constructor() {
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMembers,
-      ],
-      rest: {
-        timeout: 15000, // 15 seconds
-      }
-    });
+  constructor(options: BotServiceOptions = {}) {
+    this.clientFactory = options.clientFactory ?? createDefaultClient;
+    this.token = options.token;
+    this.alerts = options.alerts ?? new AlertNotifier();
 
     // Set debug level based on environment
     if (process.env.NODE_ENV !== 'development') {
       process.env.DISCORD_DEBUG = '0';
     }
 
-    this.readyPromise = new Promise((resolve, reject) => {
+    this.initializeClient();
+  }
+
+  /**
+   * Creates a fresh Discord client with the configured factory and wires up
+   * its event handlers and rate limit tracking
+   * @private
+   */
+  private initializeClient() {
+    this.client = this.clientFactory();
+    this.readyPromise = this.createReadyPromise();
+    this.restScheduler.reset();
+    this.restScheduler.attach(this.client);
+    this.setupEventHandlers();
+  }
+
+  /**
+   * Creates the promise resolved by the client's ready event
+   * @private
+   * @returns {Promise<void>} The ready promise
+   */
+  private createReadyPromise(): Promise<void> {
+    return new Promise((resolve, reject) => {
       this.readyResolve = resolve;
       this.readyReject = reject;
     });
+  }
 
-    this.setupEventHandlers();
+  /**
+   * Starts the periodic reconciliation, heartbeat and pending removal timers
+   * @private
+   */
+  private startTimers() {
+    this.stopTimers();
+    // Individual tag changes are handled by events; full reconciliations only run on this schedule
+    this.syncTimer = setInterval(() => this.checkGuilds(), this.syncIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.HEARTBEAT_INTERVAL);
+    this.removalTimer = setInterval(() => this.processDueRemovals(), this.REMOVAL_SWEEP_INTERVAL);
+  }
+
+  /**
+   * Clears the periodic reconciliation, heartbeat and pending removal timers
+   * @private
+   */
+  private stopTimers() {
+    if (this.removalTimer) {
+      clearInterval(this.removalTimer);
+      this.removalTimer = null;
+    }
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
   }
 
   /**
@@ -126,13 +441,15 @@ export class BotService {
     // Ready event
     this.client.on('ready', async () => {
       try {
-        console.log('Bot is ready');
+        logger.info('Bot is ready');
         if (this.readyResolve) {
           this.readyResolve();
         }
         await this.initializeGuilds();
+        // Reconcile once on startup to catch tag changes missed while offline
+        await this.checkGuilds();
       } catch (error) {
-        console.error('Error in ready event handler:', error);
+        logger.error('Error in ready event handler', { error });
         if (this.readyReject) {
           this.readyReject(error as Error);
         }
@@ -141,7 +458,7 @@ export class BotService {
 
     // Error event
     this.client.on('error', (error) => {
-      console.error('Bot encountered an error:', error);
+      logger.error('Bot encountered an error', { error });
       if (this.readyReject) {
         this.readyReject(error);
       }
@@ -149,298 +466,1833 @@ export class BotService {
 
     // Warn event
     this.client.on('warn', (message) => {
-      console.warn('[WARN]', message);
+      logger.warn(message, { source: 'discord.js' });
     });
 
     // Channel update event
     this.client.on('channelUpdate', (oldChannel, newChannel) => {
       try {
         if (!oldChannel || !newChannel) {
-          console.warn('Received channelUpdate with undefined channels');
+          logger.warn('Received channelUpdate with undefined channels');
           return;
         }
 
         if (!('guild' in newChannel)) {
-          console.warn('Received channelUpdate for non-guild channel');
+          logger.warn('Received channelUpdate for non-guild channel');
           return;
         }
 
         const guildId = newChannel.guild.id;
         if (!guildId) {
-          console.warn('Received channelUpdate with invalid guild ID');
+          logger.warn('Received channelUpdate with invalid guild ID');
           return;
         }
 
         this.guildCache.delete(guildId);
       } catch (error) {
-        console.error('Error in channelUpdate handler:', error);
+        logger.error('Error in channelUpdate handler', { error });
+      }
+    });
+
+    // The bot was added to a guild, possibly one it was configured for before
+    this.client.on('guildCreate', (guild) => {
+      this.restoreGuildConfig(guild)
+        .then(restored => restored ? this.syncGuild(guild.id) : null)
+        .catch(error => {
+          logger.error('Error in guildCreate handler', { guildId: guild.id, error });
+        });
+    });
+
+    // The bot was removed from a guild; unavailable guilds are only an outage
+    this.client.on('guildDelete', (guild) => {
+      if (!guild.available) {
+        return;
+      }
+
+      this.archiveGuildConfig(guild.id).catch(error => {
+        logger.error('Error in guildDelete handler', { guildId: guild.id, error });
+      });
+    });
+
+    // Role delete event
+    this.client.on('roleDelete', (role) => {
+      this.guildCache.delete(role.guild.id);
+      this.refreshConfigStatus(role.guild.id, config => [
+        config.roleId,
+        config.requiredRoleId,
+        ...config.mappings.map(mapping => mapping.roleId),
+        ...config.tiers.map(tier => tier.roleId),
+        ...config.exemptRoles.map(exempt => exempt.roleId)
+      ].includes(role.id)).catch(error => {
+        logger.error('Error in roleDelete handler', { guildId: role.guild.id, roleId: role.id, error });
+      });
+    });
+
+    // Channel delete event
+    this.client.on('channelDelete', (channel) => {
+      if (!('guild' in channel)) {
+        return;
       }
+
+      this.guildCache.delete(channel.guild.id);
+      this.refreshConfigStatus(channel.guild.id, config =>
+        channel.id === config.logChannelId || channel.id === config.shoutoutChannelId
+      ).catch(error => {
+        logger.error('Error in channelDelete handler', { guildId: channel.guild.id, channelId: channel.id, error });
+      });
     });
 
     // Guild member update event
     this.client.on('guildMemberUpdate', (oldMember, newMember) => {
       try {
         if (!oldMember || !newMember) {
-          console.warn('Received guildMemberUpdate with undefined members');
+          logger.warn('Received guildMemberUpdate with undefined members');
           return;
         }
 
         if (!oldMember.guild || !newMember.guild) {
-          console.warn('Received guildMemberUpdate with members missing guild property');
+          logger.warn('Received guildMemberUpdate with members missing guild property');
           return;
         }
 
         const guildId = newMember.guild.id;
         if (!guildId) {
-          console.warn('Received guildMemberUpdate with invalid guild ID');
+          logger.warn('Received guildMemberUpdate with invalid guild ID');
           return;
         }
 
         // Invalidate both guild and member caches
         this.guildCache.delete(guildId);
         this.memberCache.delete(guildId);
+      } catch (error) {
+        logger.error('Error in guildMemberUpdate handler', { error });
+      }
+    });
 
-        // Process role updates if needed
-        this.processGuildMemberUpdate(oldMember, newMember).catch(error => {
-          console.error('Error processing guild member update:', error);
+    // Raw member events carry the user's primary_guild, which discord.js does not
+    // track, so tag changes are only visible here. discord.js updates its member
+    // cache right after emitting 'raw', before processing resumes after an await.
+    this.client.on('raw', (packet: { t: string | null; d: unknown }) => {
+      try {
+        if (packet.t !== 'GUILD_MEMBER_UPDATE' && packet.t !== 'GUILD_MEMBER_ADD') {
+          return;
+        }
+
+        const data = packet.d;
+        if (!isGuildMemberPayload(data)) {
+          return;
+        }
+
+        const guildId = data.guild_id;
+        this.processGuildMemberUpdate(guildId, data).catch(error => {
+          this.guildLogger(guildId, data.user.id).error('Error processing guild member update', { error });
         });
       } catch (error) {
-        console.error('Error in guildMemberUpdate handler:', error);
+        logger.error('Error in raw event handler', { error });
       }
     });
 
     // Shard events
     this.client.on('shardReady', (shardId) => {
-      console.log(`Shard ${shardId} is ready`);
+      logger.info('Shard is ready', { shardId });
+      void this.alerts.resolve(`gateway:${shardId}`, `Shard ${shardId} is connected to the gateway again.`);
       this.sendHeartbeat();
     });
 
     this.client.on('shardError', (error, shardId) => {
-      console.error(`Shard ${shardId} encountered an error:`, error);
+      logger.error('Shard encountered an error', { shardId, error });
     });
 
     this.client.on('shardDisconnect', (event, shardId) => {
-      console.log(`Shard ${shardId} disconnected:`, event);
+      logger.warn('Shard disconnected', { shardId, code: event.code, reason: event.reason });
+      if (!this.isStopping) {
+        void this.alerts.raise(`gateway:${shardId}`, {
+          title: 'Gateway disconnected',
+          message: `Shard ${shardId} disconnected from the Discord gateway and will not reconnect on its own. Restart the bot once the cause is fixed.`,
+          details: { Shard: shardId, 'Close code': event.code }
+        });
+      }
     });
 
     this.client.on('shardReconnecting', (shardId) => {
-      console.log(`Shard ${shardId} is reconnecting`);
+      logger.info('Shard is reconnecting', { shardId });
     });
 
     this.client.on('shardResume', (shardId, replayedEvents) => {
-      console.log(`Shard ${shardId} resumed, replayed ${replayedEvents} events`);
+      logger.info('Shard resumed', { shardId, replayedEvents });
+      void this.alerts.resolve(`gateway:${shardId}`, `Shard ${shardId} resumed its gateway session.`);
       this.sendHeartbeat();
     });
+  }
+
+  /**
+   * Initializes guilds by fetching their members
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async initializeGuilds() {
+    const configs = await prisma.guildConfig.findMany();
+    for (const config of configs) {
+      // Catch up on joins and removals that happened while the bot was offline
+      const guild = this.client.guilds.cache.get(config.guildId);
+      if (!guild) {
+        if (config.status !== 'archived') {
+          await this.archiveGuildConfig(config.guildId);
+        }
+        continue;
+      }
+
+      if (config.status === 'archived') {
+        await this.restoreGuildConfig(guild);
+      }
+
+      try {
+        await guild.members.fetch();
+      } catch (error) {
+        logger.error('Error during initial member fetch', { guildId: guild.id, error });
+      }
+    }
+  }
+
+  /**
+   * Checks all guilds for role updates
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async checkGuilds() {
+    if (this.processingPromise || this.isStopping) return;
+
+    this.processingPromise = (async () => {
+      try {
+        this.pruneTagCache();
+        await this.purgeArchivedConfigs();
+        const configs = await prisma.guildConfig.findMany({
+          where: { status: { not: 'archived' } },
+          include: GUILD_CONFIG_INCLUDE
+        });
+        for (const config of configs) {
+          await this.reconcileGuild(config);
+        }
+        this.lastFullSync = Date.now();
+      } catch (error) {
+        logger.error('Error in main processing', { error });
+      }
+    })();
+
+    await this.processingPromise;
+    this.processingPromise = null;
+  }
+
+  /**
+   * Runs a full reconciliation of a guild and records its timing metrics
+   * @private
+   * @param {GuildConfig} config - The guild configuration
+   * @param {RoleChangeReason} [reason='scheduled resync'] - Why the reconciliation is running
+   * @param {boolean} [confirmRemovals=false] - Whether an admin confirmed removals above the safety threshold
+   * @returns {Promise<SyncOutcome>} The sync status and the role changes that were applied
+   */
+  private async reconcileGuild(
+    config: GuildConfig,
+    reason: RoleChangeReason = 'scheduled resync',
+    confirmRemovals: boolean = false
+  ): Promise<SyncOutcome> {
+    const metrics = this.syncMetrics.get(config.guildId) ?? {
+      lastStartedAt: null,
+      lastCompletedAt: null,
+      lastDurationMs: null,
+      averageDurationMs: null,
+      syncCount: 0,
+      lastChangeCount: 0,
+      lastError: null,
+      consecutiveFailures: 0
+    };
+    this.syncMetrics.set(config.guildId, metrics);
+
+    const startedAt = Date.now();
+    metrics.lastStartedAt = startedAt;
+    let onboarding: OnboardingProgress | null = null;
+    this.activeSyncIds.set(config.guildId, randomUUID());
+    const log = this.guildLogger(config.guildId);
+    log.info('Sync started', { reason });
+
+    try {
+      // Fail once with the actual cause instead of once per member
+      await this.assertHealthy(config);
+
+      onboarding = config.previewMode ? null : await this.startOnboarding(config.guildId);
+
+      const roleChanges = await this.processGuild(config, reason, confirmRemovals, onboarding ?? undefined);
+      metrics.lastCompletedAt = Date.now();
+      metrics.lastChangeCount = roleChanges.length;
+      metrics.lastError = null;
+      metrics.consecutiveFailures = 0;
+      await this.alerts.resolve(`sync:${config.guildId}`, 'Syncs of the guild are completing again.');
+      log.info('Sync completed', { durationMs: metrics.lastCompletedAt - startedAt, roleChanges: roleChanges.length });
+      if (onboarding) {
+        await this.finishOnboarding(config, onboarding, 'completed', null);
+      }
+      return { status: 'completed', roleChanges, error: null };
+    } catch (error) {
+      const status = error instanceof SyncAbortedError ? error.status : 'failed';
+      const message = error instanceof Error ? error.message : String(error);
+      metrics.lastError = message;
+      log.error('Sync failed', { status, durationMs: Date.now() - startedAt, error });
+      await this.recordSyncFailure(config.guildId, status, message);
+      // Blocked syncs wait on an admin's confirmation rather than being broken
+      if (status === 'failed') {
+        metrics.consecutiveFailures++;
+        if (metrics.consecutiveFailures >= getSyncFailureAlertThreshold()) {
+          await this.alerts.raise(`sync:${config.guildId}`, {
+            title: 'Guild sync failing',
+            message,
+            guildId: config.guildId,
+            details: { 'Consecutive failures': metrics.consecutiveFailures }
+          });
+        }
+      }
+      if (onboarding) {
+        await this.finishOnboarding(config, onboarding, status, message);
+      }
+      return { status, roleChanges: [], error: message };
+    } finally {
+      const duration = Date.now() - startedAt;
+      metrics.averageDurationMs = metrics.averageDurationMs === null
+        ? duration
+        : (metrics.averageDurationMs * metrics.syncCount + duration) / (metrics.syncCount + 1);
+      metrics.lastDurationMs = duration;
+      metrics.syncCount++;
+
+      const histogram = this.syncDurations.get(config.guildId) ?? createHistogram(this.SYNC_DURATION_BUCKETS);
+      observeHistogram(histogram, duration / 1000);
+      this.syncDurations.set(config.guildId, histogram);
+      this.activeSyncIds.delete(config.guildId);
+    }
+  }
+
+  /**
+   * Creates a logger for entries concerning a guild, tagged with the guild's running sync if there is one
+   * @private
+   * @param {string} guildId - The guild ID
+   * @param {string} [userId] - The member the entries concern
+   * @returns {Logger} The logger
+   */
+  private guildLogger(guildId: string, userId?: string): Logger {
+    return logger.child({ guildId, userId, syncId: this.activeSyncIds.get(guildId) });
+  }
+
+  /**
+   * Persists a failed or blocked sync so admins can see why roles were not updated
+   * @private
+   * @async
+   * @param {string} guildId - The guild whose sync was aborted
+   * @param {'failed' | 'blocked'} type - Whether the sync failed or was blocked
+   * @param {string} message - What went wrong
+   * @returns {Promise<void>}
+   */
+  private async recordSyncFailure(guildId: string, type: Exclude<SyncStatus, 'completed'>, message: string) {
+    try {
+      await prisma.syncFailure.create({
+        data: { guildId, type, message }
+      });
+    } catch (error) {
+      this.guildLogger(guildId).error('Error recording sync failure', { error });
+    }
+  }
+
+  /**
+   * Runs a guild's health check and aborts if it found errors
+   * @private
+   * @async
+   * @param {GuildConfig} config - The guild configuration
+   * @returns {Promise<void>}
+   * @throws {SyncAbortedError} If the check found problems that stop roles from being synced
+   */
+  private async assertHealthy(config: GuildConfig) {
+    const health = await this.checkHealth(config);
+    const blocking = health?.problems.filter(problem => problem.severity === 'error') ?? [];
+    if (blocking.length > 0) {
+      throw new SyncAbortedError('failed', `Health check failed: ${blocking.map(problem => problem.message).join('; ')}`);
+    }
+  }
+
+  /**
+   * Runs a guild's preflight health check, keeping the report and posting changes in its problems
+   * to the log channel when health alerts are enabled
+   * @param {GuildConfig} config - The guild configuration
+   * @returns {Promise<GuildHealthReport | null>} The report, or null if the bot is not ready
+   */
+  public async checkHealth(config: GuildConfig): Promise<GuildHealthReport | null> {
+    const report = await this.inspectGuild(config);
+    if (!report) {
+      return null;
+    }
+
+    const guild = this.client.guilds.cache.get(config.guildId);
+    const previous = this.healthReports.get(config.guildId);
+    this.healthReports.set(config.guildId, report);
+
+    if (guild && config.status !== 'archived') {
+      await this.updateConfigStatus(guild, config, report);
+    }
+
+    const describe = (problems: GuildHealthProblem[]) => problems.map(problem => problem.message).sort().join('\n');
+    if (config.healthAlertsEnabled && guild && describe(report.problems) !== describe(previous?.problems ?? [])) {
+      await this.sendHealthAlert(guild, config, report);
+    }
+
+    return report;
+  }
+
+  /**
+   * Checks the bot's roles and permissions against a configuration without keeping the report or acting on it
+   * @private
+   * @async
+   * @param {GuildConfig} config - The guild configuration
+   * @returns {Promise<GuildHealthReport | null>} The report, or null if the bot is not ready
+   */
+  private async inspectGuild(config: GuildConfig): Promise<GuildHealthReport | null> {
+    if (!this.client.isReady()) {
+      return null;
+    }
+
+    const guild = this.client.guilds.cache.get(config.guildId);
+    const me = guild ? guild.members.me ?? await guild.members.fetchMe().catch(() => null) : null;
+    return {
+      checkedAt: Date.now(),
+      problems: checkGuildHealth(guild, me, config)
+    };
+  }
+
+  /**
+   * Marks a configuration broken while its health check has errors and active once they are fixed,
+   * telling the guild owner when syncs are paused
+   * @private
+   * @param {Guild} guild - The guild
+   * @param {GuildConfig} config - The guild configuration as last saved
+   * @param {GuildHealthReport} report - The new health report
+   * @returns {Promise<void>}
+   */
+  private async updateConfigStatus(guild: Guild, config: GuildConfig, report: GuildHealthReport) {
+    const errors = report.problems.filter(problem => problem.severity === 'error');
+    const status: GuildConfigStatus = errors.length > 0 ? 'broken' : 'active';
+    const statusReason = errors.length > 0 ? errors.map(problem => problem.message).join('; ') : null;
+    if (status === config.status && statusReason === config.statusReason) {
+      return;
+    }
+
+    await prisma.guildConfig.update({
+      where: { guildId: config.guildId },
+      data: { status, statusReason }
+    });
+
+    if (status === 'broken' && config.status !== 'broken') {
+      await this.notifyGuildOwner(
+        guild,
+        `Tag roles in **${guild.name}** are paused until this is fixed:\n${errors.map(problem => `- ${problem.message}`).join('\n')}\n`
+          + 'Syncing resumes automatically once the problem is resolved.'
+      );
+    }
+  }
+
+  /**
+   * Re-checks a guild's configuration after a role or channel it may use was deleted
+   * @private
+   * @param {string} guildId - The ID of the guild
+   * @param {(config: GuildConfig) => boolean} isAffected - Whether the deletion concerns the configuration
+   * @returns {Promise<void>}
+   */
+  private async refreshConfigStatus(guildId: string, isAffected: (config: GuildConfig) => boolean) {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
+
+    if (config && config.status !== 'archived' && isAffected(config)) {
+      await this.checkHealth(config);
+    }
+  }
+
+  /**
+   * Archives a guild's configuration after the bot was removed, dropping state that only
+   * makes sense while the bot can watch the guild
+   * @private
+   * @param {string} guildId - The ID of the guild
+   * @returns {Promise<void>}
+   */
+  private async archiveGuildConfig(guildId: string) {
+    const { count } = await prisma.guildConfig.updateMany({
+      where: { guildId, status: { not: 'archived' } },
+      data: { status: 'archived', statusReason: 'The bot was removed from the server', archivedAt: new Date() }
+    });
+    if (count === 0) {
+      return;
+    }
+
+    await prisma.pendingRoleRemoval.deleteMany({ where: { guildId } });
+    await prisma.tagWearer.deleteMany({ where: { guildId } });
+    this.pendingRemovals.delete(guildId);
+    this.wearStarts.delete(guildId);
+    this.previews.delete(guildId);
+    this.healthReports.delete(guildId);
+    this.guildCache.delete(guildId);
+    this.memberCache.delete(guildId);
+    this.alerts.dismiss(`sync:${guildId}`);
+    logger.info('Archived configuration after the bot was removed', { guildId });
+  }
+
+  /**
+   * Restores an archived configuration when the bot is re-added to its guild
+   * @private
+   * @param {Guild} guild - The guild the bot joined
+   * @returns {Promise<boolean>} Whether a configuration was restored
+   */
+  private async restoreGuildConfig(guild: Guild): Promise<boolean> {
+    const { count } = await prisma.guildConfig.updateMany({
+      where: { guildId: guild.id, status: 'archived' },
+      data: { status: 'active', statusReason: null, archivedAt: null }
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    logger.info('Restored configuration', { guildId: guild.id });
+    await this.notifyGuildOwner(guild, `Welcome back! The tag role configuration for **${guild.name}** has been restored.`);
+
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId: guild.id },
+      include: GUILD_CONFIG_INCLUDE
+    });
+    if (config) {
+      await this.checkHealth(config);
+    }
+    return true;
+  }
+
+  /**
+   * Deletes configurations, and the data kept for them, archived longer than the retention period
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async purgeArchivedConfigs() {
+    const expired = await prisma.guildConfig.findMany({
+      where: { status: 'archived', archivedAt: { lt: new Date(Date.now() - this.ARCHIVE_RETENTION_DAYS * DAY_MS) } },
+      select: { guildId: true }
+    });
+
+    for (const { guildId } of expired) {
+      await prisma.$transaction([
+        prisma.roleChangeLog.deleteMany({ where: { guildId } }),
+        prisma.thankYouCooldown.deleteMany({ where: { guildId } }),
+        prisma.syncFailure.deleteMany({ where: { guildId } }),
+        prisma.tagStatSnapshot.deleteMany({ where: { guildId } }),
+        prisma.guildConfig.delete({ where: { guildId } })
+      ]);
+      logger.info('Deleted archived configuration', { guildId, retentionDays: this.ARCHIVE_RETENTION_DAYS });
+    }
+  }
+
+  /**
+   * Tells a guild's owner about a problem by DM, falling back to the server's system channel
+   * when the owner doesn't accept DMs
+   * @private
+   * @param {Guild} guild - The guild
+   * @param {string} content - The message
+   * @returns {Promise<void>}
+   */
+  private async notifyGuildOwner(guild: Guild, content: string) {
+    try {
+      const owner = await guild.fetchOwner();
+      // Message buckets are keyed by channel, so the DM channel is opened first
+      const dmChannel = await owner.createDM();
+      await this.restScheduler.request('/channels/:id/messages', dmChannel.id, () => dmChannel.send({
+        content,
+        allowedMentions: { parse: [] }
+      }));
+      return;
+    } catch (error) {
+      if (!(error instanceof DiscordAPIError && error.code === 50007)) {
+        logger.error('Error notifying guild owner', { guildId: guild.id, userId: guild.ownerId, error });
+      }
+    }
+
+    const channel = guild.systemChannel;
+    if (!channel) {
+      return;
+    }
+
+    try {
+      await this.restScheduler.request('/channels/:id/messages', channel.id, () => channel.send({
+        content,
+        allowedMentions: { parse: [] }
+      }));
+    } catch (error) {
+      logger.error('Error sending notice to system channel', { guildId: guild.id, channelId: channel.id, error });
+    }
+  }
+
+  /**
+   * Starts a guild's onboarding sync if it has one that hasn't completed yet
+   * @private
+   * @param {string} guildId - The ID of the guild
+   * @returns {Promise<OnboardingProgress | null>} The progress to update, or null if the guild is already onboarded
+   */
+  private async startOnboarding(guildId: string): Promise<OnboardingProgress | null> {
+    const job = await prisma.onboardingJob.findUnique({ where: { guildId } });
+    if (!job || job.status === 'completed') {
+      return null;
+    }
+
+    const startedAt = Date.now();
+    const progress: OnboardingProgress = {
+      status: 'running',
+      totalMembers: 0,
+      scannedMembers: 0,
+      tagWearers: 0,
+      rolesAdded: 0,
+      rolesRemoved: 0,
+      errors: 0,
+      error: null,
+      startedAt,
+      completedAt: null
+    };
+    this.onboardingJobs.set(guildId, progress);
+
+    await prisma.onboardingJob.update({
+      where: { guildId },
+      data: { status: 'running', error: null, startedAt: new Date(startedAt), completedAt: null }
+    });
+    return progress;
+  }
+
+  /**
+   * Records the outcome of a guild's onboarding sync and posts a summary to the log channel,
+   * or to the owner when there is none
+   * @private
+   * @param {GuildConfig} config - The guild configuration
+   * @param {OnboardingProgress} progress - The job's progress
+   * @param {SyncStatus} status - How the sync ended
+   * @param {string | null} error - Why the sync failed or was blocked
+   * @returns {Promise<void>}
+   */
+  private async finishOnboarding(config: GuildConfig, progress: OnboardingProgress, status: SyncStatus, error: string | null) {
+    const completedAt = Date.now();
+    progress.status = status;
+    progress.error = error;
+    progress.completedAt = completedAt;
+    this.onboardingJobs.delete(config.guildId);
+
+    try {
+      await prisma.onboardingJob.update({
+        where: { guildId: config.guildId },
+        data: {
+          status,
+          totalMembers: progress.totalMembers,
+          scannedMembers: progress.scannedMembers,
+          tagWearers: progress.tagWearers,
+          rolesAdded: progress.rolesAdded,
+          rolesRemoved: progress.rolesRemoved,
+          errors: progress.errors,
+          error,
+          completedAt: new Date(completedAt)
+        }
+      });
+    } catch (updateError) {
+      this.guildLogger(config.guildId).error('Error recording onboarding result', { error: updateError });
+    }
+
+    const guild = this.client.guilds.cache.get(config.guildId);
+    if (!guild) {
+      return;
+    }
+
+    const summary = status === 'completed'
+      ? `Scanned ${progress.scannedMembers} members and found ${progress.tagWearers} wearing the tag: `
+        + `${progress.rolesAdded} roles added, ${progress.rolesRemoved} removed`
+        + (progress.errors > 0 ? `, ${progress.errors} members could not be updated.` : '.')
+      : `The first sync did not finish and will be retried with the next one: ${error}`;
+    const channel = config.logChannelId ? guild.channels.cache.get(config.logChannelId) : undefined;
+
+    if (!channel?.isTextBased()) {
+      await this.notifyGuildOwner(guild, `**Tag role setup in ${guild.name}:** ${summary}`);
+      return;
+    }
+
+    try {
+      await this.restScheduler.request('/channels/:id/messages', channel.id, () => channel.send({
+        embeds: [{
+          title: status === 'completed' ? 'Tag role setup complete' : 'Tag role setup did not finish',
+          description: summary.slice(0, 4096),
+          color: status === 'completed' ? 0x57F287 : 0xED4245,
+          timestamp: new Date(completedAt).toISOString()
+        }],
+        allowedMentions: { parse: [] }
+      }));
+    } catch (sendError) {
+      this.guildLogger(config.guildId).error('Error sending onboarding summary', { error: sendError });
+    }
+  }
+
+  /**
+   * Gets the progress of a guild's onboarding sync
+   * @param {string} guildId - The ID of the guild
+   * @returns {Promise<OnboardingProgress | null>} The progress, or null if the guild has no onboarding job
+   */
+  public async getOnboardingProgress(guildId: string): Promise<OnboardingProgress | null> {
+    const running = this.onboardingJobs.get(guildId);
+    if (running) {
+      return running;
+    }
+
+    const job = await prisma.onboardingJob.findUnique({ where: { guildId } });
+    if (!job) {
+      return null;
+    }
+
+    return {
+      // A job left running in the database was interrupted by a restart and runs again with the next sync
+      status: job.status === 'running' ? 'pending' : job.status as OnboardingProgress['status'],
+      totalMembers: job.totalMembers,
+      scannedMembers: job.scannedMembers,
+      tagWearers: job.tagWearers,
+      rolesAdded: job.rolesAdded,
+      rolesRemoved: job.rolesRemoved,
+      errors: job.errors,
+      error: job.error,
+      startedAt: job.startedAt?.getTime() ?? null,
+      completedAt: job.completedAt?.getTime() ?? null
+    };
+  }
+
+  /**
+   * Runs the preflight health check for a configured guild for display only. The configuration's
+   * status, the owner and the log channel are only updated by the bot's own health checks.
+   * @param {string} guildId - The ID of the guild
+   * @returns {Promise<GuildHealthReport | null>} The report, or null if the guild is not configured or the bot is not ready
+   */
+  public async getGuildHealth(guildId: string): Promise<GuildHealthReport | null> {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
+
+    return config ? this.inspectGuild(config) : null;
+  }
+
+  /**
+   * Posts a guild's current health check problems, or that they were resolved, to its log channel
+   * @private
+   * @param {Guild} guild - The guild
+   * @param {GuildConfig} config - The guild configuration
+   * @param {GuildHealthReport} report - The new report
+   * @returns {Promise<void>}
+   */
+  private async sendHealthAlert(guild: Guild, config: GuildConfig, report: GuildHealthReport) {
+    const channel = config.logChannelId ? guild.channels.cache.get(config.logChannelId) : undefined;
+    if (!channel?.isTextBased()) {
+      return;
+    }
+
+    const embed: APIEmbed = report.problems.length > 0
+      ? {
+        title: 'Tag role setup problems',
+        description: report.problems
+          .map(problem => `${problem.severity === 'error' ? '**Error:**' : '**Warning:**'} ${problem.message}`)
+          .join('\n'),
+        color: 0xED4245,
+        timestamp: new Date(report.checkedAt).toISOString()
+      }
+      : {
+        title: 'Tag role setup problems resolved',
+        description: 'The bot can manage all configured roles again.',
+        color: 0x57F287,
+        timestamp: new Date(report.checkedAt).toISOString()
+      };
+
+    try {
+      await this.restScheduler.request('/channels/:id/messages', channel.id, () => channel.send({
+        embeds: [embed],
+        allowedMentions: { parse: [] }
+      }));
+    } catch (error) {
+      this.guildLogger(guild.id).error('Error sending health alert', { error });
+    }
+  }
+
+  /**
+   * Gets the sync duration histogram of every guild synced since the bot started
+   * @returns {Map<string, Histogram>} Histograms of sync durations in seconds, by guild ID
+   */
+  public getSyncDurations(): Map<string, Histogram> {
+    return this.syncDurations;
+  }
+
+  /**
+   * Gets the number of roles added and removed since the bot started
+   * @returns {{add: number, remove: number}} The counts by action
+   */
+  public getRoleChangeCounts(): { add: number; remove: number } {
+    return { ...this.roleChangeCounts };
+  }
+
+  /**
+   * Gets sync timing metrics for a guild
+   * @param {string} guildId - The ID of the guild
+   * @returns {GuildSyncMetrics | null} The metrics, or null if the guild has not been synced yet
+   */
+  public getSyncMetrics(guildId: string): GuildSyncMetrics | null {
+    return this.syncMetrics.get(guildId) ?? null;
+  }
+
+  /**
+   * Processes a single guild for role updates
+   * @private
+   * @param {GuildConfig} config - The guild configuration
+   * @param {RoleChangeReason} reason - Why the guild is being processed
+   * @param {boolean} [confirmRemovals=false] - Whether an admin confirmed removals above the safety threshold
+   * @param {OnboardingProgress} [progress] - Onboarding progress to update as members are processed
+   * @returns {Promise<RoleChange[]>} Array of role changes that were applied
+   * @throws {SyncAbortedError} If the member data is incomplete or the removals exceed the safety threshold
+   */
+  private async processGuild(
+    config: GuildConfig,
+    reason: RoleChangeReason,
+    confirmRemovals: boolean = false,
+    progress?: OnboardingProgress
+  ): Promise<RoleChange[]> {
+    const guild = this.client.guilds.cache.get(config.guildId);
+    if (!guild) {
+      return [];
+    }
+
+    const role = guild.roles.cache.get(config.roleId);
+    if (!role) {
+      return [];
+    }
+
+    const activeConfig = this.getActiveConfig(config, guild.roles.cache);
+
+    const logChannel = config.logChannelId 
+      ? guild.channels.cache.get(config.logChannelId) as TextChannel | undefined
+      : null;
+
+    if (config.logChannelId && !logChannel) {
+      return [];
+    }
+    
+    // Fetch latest member data
+    await guild.members.fetch();
+    const members = guild.members.cache;
+
+    const memberGuildMap = await this.fetchMemberGuildData(guild.id);
+
+    // Abort before changing anything rather than treat members missing from the scan as untagged
+    const unknownCount = members.filter(member =>
+      !memberGuildMap.has(member.id) && this.getCachedTag(member.id) === undefined
+    ).size;
+    if (unknownCount > Math.max(this.UNKNOWN_MEMBER_TOLERANCE, members.size * this.UNKNOWN_MEMBER_RATIO)) {
+      throw new SyncAbortedError('failed', `Member scan is incomplete: ${unknownCount} of ${members.size} members were not returned`);
+    }
+
+    if (!config.previewMode && !confirmRemovals) {
+      const planned = await this.processMembers(members, memberGuildMap, { ...activeConfig, previewMode: true }, reason);
+      await this.checkRemovalThreshold(guild, planned, config);
+    }
+
+    if (progress) {
+      progress.totalMembers = members.size;
+    }
+    const roleChanges = await this.processMembers(members, memberGuildMap, activeConfig, reason, progress);
+
+    // Preview mode only projects changes, so there is nothing to record or announce
+    if (config.previewMode) {
+      this.previews.set(guild.id, {
+        computedAt: Date.now(),
+        adds: this.toProjectedChanges(roleChanges, 'add'),
+        removes: this.toProjectedChanges(roleChanges, 'remove')
+      });
+      return roleChanges;
+    }
+
+    await this.recordRoleChanges(guild.id, roleChanges);
+    await this.recordStatSnapshot(guild, role, memberGuildMap, roleChanges);
+
+    if (roleChanges.length > 0 && logChannel) {
+      await this.sendRoleChangeLog(logChannel, roleChanges, guild.roles.cache, config);
+    }
+
+    return roleChanges;
+  }
+
+  /**
+   * Records a tag adoption snapshot after a full sync, with the roles added and removed
+   * since the previous snapshot, including changes made between syncs
+   * @private
+   * @param {Guild} guild - The synced guild, with its members fetched
+   * @param {Role} role - The guild's tag role
+   * @param {Map<string, GuildData>} memberGuildMap - The members' tags from the sync's scan
+   * @param {RoleChange[]} roleChanges - The role changes the sync applied
+   * @returns {Promise<void>}
+   */
+  private async recordStatSnapshot(guild: Guild, role: Role, memberGuildMap: Map<string, GuildData>, roleChanges: RoleChange[]) {
+    try {
+      const tagWearers = guild.members.cache.filter(member => {
+        const memberData = memberGuildMap.get(member.id);
+        const tagGuildId = memberData ? memberData.user.primary_guild?.identity_guild_id : this.getCachedTag(member.id);
+        return tagGuildId === guild.id;
+      }).size;
+
+      const previous = await prisma.tagStatSnapshot.findFirst({
+        where: { guildId: guild.id },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true }
+      });
+
+      let rolesAdded = roleChanges.filter(change => change.type === 'add').length;
+      let rolesRemoved = roleChanges.filter(change => change.type === 'remove').length;
+      if (previous) {
+        const counts = await prisma.roleChangeLog.groupBy({
+          by: ['action'],
+          where: { guildId: guild.id, createdAt: { gt: previous.createdAt } },
+          _count: { _all: true }
+        });
+        rolesAdded = counts.find(count => count.action === 'add')?._count._all ?? 0;
+        rolesRemoved = counts.find(count => count.action === 'remove')?._count._all ?? 0;
+      }
+
+      await prisma.tagStatSnapshot.create({
+        data: {
+          guildId: guild.id,
+          memberCount: guild.members.cache.size,
+          tagWearers,
+          roleHolders: role.members.size,
+          rolesAdded,
+          rolesRemoved
+        }
+      });
+
+      await prisma.tagStatSnapshot.deleteMany({
+        where: { guildId: guild.id, createdAt: { lt: new Date(Date.now() - this.SNAPSHOT_RETENTION_DAYS * DAY_MS) } }
+      });
+    } catch (error) {
+      this.guildLogger(guild.id).error('Error recording tag stats snapshot', { error });
+    }
+  }
+
+  /**
+   * Skips mappings and tiers whose role no longer exists instead of failing every member
+   * @private
+   * @param {GuildConfig} config - The guild configuration
+   * @param {Map<string, Role>} roles - The guild's current roles
+   * @returns {GuildConfig} The configuration without stale roles
+   */
+  private getActiveConfig(config: GuildConfig, roles: Map<string, Role>): GuildConfig {
+    return {
+      ...config,
+      mappings: config.mappings.filter(mapping => roles.has(mapping.roleId)),
+      tiers: config.tiers.filter(tier => roles.has(tier.roleId))
+    };
+  }
+
+  /**
+   * Gets the eligibility rules of a guild configuration
+   * @private
+   * @param {GuildConfig} config - The guild configuration
+   * @returns {EligibilityRules} The rules
+   */
+  private getEligibilityRules(config: GuildConfig): EligibilityRules {
+    return {
+      ignoreBots: config.ignoreBots,
+      exemptRoleIds: config.exemptRoles.map(role => role.roleId),
+      requiredRoleId: config.requiredRoleId,
+      minMembershipDays: config.minMembershipDays
+    };
+  }
+
+  /**
+   * Refuses a sync that would remove a role from more than the allowed share of its holders.
+   * Removals still in their grace period are not made by this sync, so they are not counted.
+   * @private
+   * @async
+   * @param {Guild} guild - The guild being synced
+   * @param {RoleChange[]} planned - The role changes the sync would make, ignoring the grace period
+   * @param {GuildConfig} config - The guild configuration
+   * @returns {Promise<void>}
+   * @throws {SyncAbortedError} If a role's removals exceed the threshold
+   */
+  private async checkRemovalThreshold(guild: Guild, planned: RoleChange[], config: GuildConfig) {
+    const { maxRemovalPercent, removalGraceMinutes } = config;
+    const pending = removalGraceMinutes > 0 ? await this.getPendingRemovals(guild.id) : null;
+    const now = Date.now();
+
+    const removalsByRole = new Map<string, number>();
+    for (const change of planned) {
+      if (change.type !== 'remove') {
+        continue;
+      }
+      // Without an expired pending removal, this sync only starts or keeps waiting out the grace period
+      const removeAfter = pending?.get(`${change.member.id}:${change.roleId}`);
+      if (pending && (removeAfter === undefined || removeAfter > now)) {
+        continue;
+      }
+      removalsByRole.set(change.roleId, (removalsByRole.get(change.roleId) ?? 0) + 1);
+    }
+
+    for (const [roleId, removals] of removalsByRole) {
+      const holders = guild.roles.cache.get(roleId)?.members.size ?? 0;
+      if (removals >= this.MIN_GUARDED_REMOVALS && removals > holders * maxRemovalPercent / 100) {
+        throw new SyncAbortedError(
+          'blocked',
+          `Sync would remove role ${roleId} from ${removals} of ${holders} members, above the ${maxRemovalPercent}% safety threshold.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Converts role changes of one type into their serializable projected form
+   * @private
+   * @param {RoleChange[]} changes - Array of role changes
+   * @param {'add' | 'remove'} type - The type of change to include
+   * @returns {ProjectedRoleChange[]} The projected changes
+   */
+  private toProjectedChanges(changes: RoleChange[], type: 'add' | 'remove'): ProjectedRoleChange[] {
+    return changes
+      .filter(change => change.type === type)
+      .map(change => ({
+        userId: change.member.id,
+        displayName: change.member.displayName,
+        roleId: change.roleId
+      }));
+  }
+
+  /**
+   * Computes the role changes a guild's configuration would apply, without applying them.
+   * Previews share a sync's in-memory state, so they wait for any in-flight sync first.
+   * @param {string} guildId - The ID of the guild to preview
+   * @returns {Promise<RoleChangePreview | null>} The projected changes, or null if the guild is not configured
+   * @throws {SyncAbortedError} If the health check found problems that would stop a sync
+   */
+  public async previewGuild(guildId: string): Promise<RoleChangePreview | null> {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
+
+    if (!config) {
+      return null;
+    }
+
+    while (this.processingPromise) {
+      await this.processingPromise;
+    }
+
+    const preview = (async () => {
+      try {
+        await this.assertHealthy(config);
+      } catch (error) {
+        // A preview of a configuration that can't sync would be stale or empty
+        this.previews.delete(guildId);
+        throw error;
+      }
+      await this.processGuild({ ...config, previewMode: true }, 'manual resync');
+    })();
+    // Syncs waiting on this preview only need it to finish, not to succeed
+    this.processingPromise = preview.catch(() => undefined);
+
+    try {
+      await preview;
+    } finally {
+      this.processingPromise = null;
+    }
+    return this.previews.get(guildId) ?? null;
+  }
+
+  /**
+   * Gets the most recently computed preview for a guild
+   * @param {string} guildId - The ID of the guild
+   * @returns {RoleChangePreview | null} The preview, or null if none has been computed
+   */
+  public getPreview(guildId: string): RoleChangePreview | null {
+    return this.previews.get(guildId) ?? null;
+  }
+
+  /**
+   * Runs an immediate role sync for a single guild, waiting for any in-flight periodic sync first
+   * @param {string} guildId - The ID of the guild to sync
+   * @param {Object} [options] - Sync options
+   * @param {boolean} [options.confirmRemovals=false] - Apply removals even if they exceed the safety threshold
+   * @returns {Promise<SyncResult | null>} Counts of applied (or, in preview mode, projected) changes and the sync status, or null if the guild is not configured
+   */
+  public async syncGuild(guildId: string, options: { confirmRemovals?: boolean } = {}): Promise<SyncResult | null> {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
+
+    if (!config) {
+      return null;
+    }
+
+    // Archived configurations stay paused until the bot is back in the guild, like their scheduled syncs
+    if (config.status === 'archived') {
+      return { added: 0, removed: 0, preview: config.previewMode, status: 'archived', error: config.statusReason };
+    }
+
+    while (this.processingPromise) {
+      await this.processingPromise;
+    }
+
+    let outcome: SyncOutcome = { status: 'completed', roleChanges: [], error: null };
+    this.processingPromise = (async () => {
+      outcome = await this.reconcileGuild(config, 'manual resync', options.confirmRemovals ?? false);
+    })();
+
+    try {
+      await this.processingPromise;
+    } finally {
+      this.processingPromise = null;
+    }
+
+    return {
+      added: outcome.roleChanges.filter(change => change.type === 'add').length,
+      removed: outcome.roleChanges.filter(change => change.type === 'remove').length,
+      preview: config.previewMode,
+      status: outcome.status,
+      error: outcome.error
+    };
+  }
+
+  /**
+   * Gets tag wearer and role holder counts as of a guild's last live sync, so asking for them
+   * never scans the member list
+   * @param {string} guildId - The guild ID
+   * @returns {Promise<GuildTagStatus | null>} The counts, or null if no live sync has recorded them yet
+   */
+  public async getGuildTagStatus(guildId: string): Promise<GuildTagStatus | null> {
+    const snapshot = await prisma.tagStatSnapshot.findFirst({
+      where: { guildId },
+      orderBy: { createdAt: 'desc' }
+    });
+    if (!snapshot) {
+      return null;
+    }
+
+    return {
+      memberCount: snapshot.memberCount,
+      tagWearers: snapshot.tagWearers,
+      withRole: snapshot.roleHolders,
+      withoutRole: snapshot.memberCount - snapshot.roleHolders,
+      recordedAt: snapshot.createdAt.getTime()
+    };
+  }
+
+  /**
+   * Explains which managed roles a member should hold based on the tag they are wearing
+   * @param {GuildConfig} config - The guild configuration
+   * @param {string} userId - The member's Discord ID
+   * @returns {Promise<MemberExplanation | null>} The explanation, or null if the user is not a member
+   */
+  public async explainMember(config: GuildConfig, userId: string): Promise<MemberExplanation | null> {
+    const guild = this.client.guilds.cache.get(config.guildId);
+    if (!guild) {
+      return null;
+    }
+
+    const member = await guild.members.fetch(userId).catch(() => null);
+    const tagGuildId = await this.fetchMemberTag(guild.id, userId);
+    if (!member || tagGuildId === undefined) {
+      return null;
+    }
+    const sources = [
+      { roleId: config.roleId, sourceGuildId: config.guildId },
+      ...config.mappings
+    ];
+    const wearsOwnTag = tagGuildId === config.guildId;
+    const daysWorn = wearsOwnTag
+      ? Math.floor((Date.now() - await this.getWearStart(member, false)) / DAY_MS)
+      : 0;
+    const eligibility = checkEligibility(member, this.getEligibilityRules(config));
+
+    /**
+     * Applies the member's eligibility to whether their tag qualifies them for a role
+     * @param {boolean} qualifies - Whether the tag alone qualifies them
+     * @param {string} roleId - The role
+     * @returns {boolean} Whether the member should have the role
+     */
+    const shouldHave = (qualifies: boolean, roleId: string) => eligibility.status === 'ignored'
+      ? member.roles.cache.has(roleId)
+      : eligibility.status === 'eligible' && qualifies;
+
+    return {
+      userId,
+      tagGuildId,
+      eligibility,
+      daysWorn,
+      roles: [
+        ...sources.map(source => ({
+          roleId: source.roleId,
+          sourceGuildId: source.sourceGuildId,
+          shouldHaveRole: shouldHave(tagGuildId === source.sourceGuildId, source.roleId),
+          hasRole: member.roles.cache.has(source.roleId)
+        })),
+        ...config.tiers.map(tier => ({
+          roleId: tier.roleId,
+          sourceGuildId: config.guildId,
+          tierDays: tier.days,
+          shouldHaveRole: shouldHave(wearsOwnTag && daysWorn >= tier.days, tier.roleId),
+          hasRole: member.roles.cache.has(tier.roleId)
+        }))
+      ]
+    };
+  }
+
+  /**
+   * Fetches guild data for all members in a guild
+   * @private
+   * @param {string} guildId - The ID of the guild to fetch data for
+   * @returns {Promise<Map<string, GuildData>>} Map of member IDs to their guild data
+   * @throws {SyncAbortedError} If the pages don't form a complete scan
+   */
+  private async fetchMemberGuildData(guildId: string): Promise<Map<string, GuildData>> {
+    const memberGuildMap = new Map<string, GuildData>();
+    let after = '0';
+    let hasMore = true;
+
+    while (hasMore) {
+      // Pages wait on the bucket's reported capacity instead of a fixed delay. A page that
+      // still fails after retries aborts the scan, since partial data would look like
+      // members had removed their tags.
+      const guildData = await this.restScheduler.request(MEMBER_LIST_ROUTE, guildId, () =>
+        this.client.rest.get(`/guilds/${guildId}/members`, { query: new URLSearchParams({ limit: '1000', after }) })
+      ) as GuildData[];
+
+      if (!Array.isArray(guildData)) {
+        throw new SyncAbortedError('failed', `Member scan returned an unexpected page after ${after}`);
+      }
+
+      if (guildData.length === 0) {
+        hasMore = false;
+      } else {
+        for (const member of guildData) {
+          memberGuildMap.set(member.user.id, member);
+          this.rememberTag(member);
+        }
+        const last = guildData[guildData.length - 1].user.id;
+        // A cursor that doesn't move forward would loop forever or silently skip members
+        if (BigInt(last) <= BigInt(after)) {
+          throw new SyncAbortedError('failed', `Member scan did not advance past ${after}`);
+        }
+        after = last;
+        hasMore = guildData.length === 1000;
+      }
+    }
+
+    return memberGuildMap;
+  }
+
+  /**
+   * Stores the tag a user is wearing in the tag cache
+   * @private
+   * @param {GuildData} memberData - The member's guild data
+   */
+  private rememberTag(memberData: GuildData) {
+    this.tagCache.set(memberData.user.id, {
+      tagGuildId: memberData.user.primary_guild?.identity_guild_id ?? null,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Gets a user's tag from the cache if the entry is still fresh
+   * @private
+   * @param {string} userId - The user's Discord ID
+   * @returns {string | null | undefined} The tag's guild ID, null if no tag is worn, or undefined if not cached
+   */
+  private getCachedTag(userId: string): string | null | undefined {
+    const cached = this.tagCache.get(userId);
+    if (!cached) {
+      return undefined;
+    }
+    if (Date.now() - cached.timestamp >= this.TAG_CACHE_DURATION) {
+      this.tagCache.delete(userId);
+      return undefined;
+    }
+    return cached.tagGuildId;
+  }
+
+  /**
+   * Removes expired entries from the tag cache
+   * @private
+   */
+  private pruneTagCache() {
+    const now = Date.now();
+    for (const [userId, cached] of this.tagCache) {
+      if (now - cached.timestamp >= this.TAG_CACHE_DURATION) {
+        this.tagCache.delete(userId);
+      }
+    }
+  }
+
+  /**
+   * Gets the tag a member is wearing, using the cache or a single-member lookup
+   * @private
+   * @param {string} guildId - The ID of the guild the member belongs to
+   * @param {string} userId - The member's Discord ID
+   * @returns {Promise<string | null | undefined>} The tag's guild ID, null if no tag is worn, or undefined if the user is not a member
+   */
+  private async fetchMemberTag(guildId: string, userId: string): Promise<string | null | undefined> {
+    const cached = this.getCachedTag(userId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const memberData = await this.fetchSingleMemberGuildData(guildId, userId);
+    if (!memberData) {
+      return undefined;
+    }
+
+    this.rememberTag(memberData);
+    return memberData.user.primary_guild?.identity_guild_id ?? null;
+  }
+
+  /**
+   * Fetches guild data for a single member
+   * @private
+   * @param {string} guildId - The ID of the guild the member belongs to
+   * @param {string} userId - The member's Discord ID
+   * @returns {Promise<GuildData | null>} The member's guild data, or null if they are not a member
+   */
+  private async fetchSingleMemberGuildData(guildId: string, userId: string): Promise<GuildData | null> {
+    try {
+      return await this.restScheduler.request('/guilds/:id/members/:id', guildId, () =>
+        this.client.rest.get(`/guilds/${guildId}/members/${userId}`)
+      ) as GuildData;
+    } catch (error) {
+      if (error instanceof DiscordAPIError && error.code === 10007) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Processes members to determine role changes needed
+   * @private
+   * @param {Map<string, GuildMember>} members - Map of member IDs to their GuildMember objects
+   * @param {Map<string, GuildData>} memberGuildMap - Map of member IDs to their guild data
+   * @param {GuildConfig} config - The guild configuration
+   * @param {RoleChangeReason} reason - Why the members are being processed
+   * @param {OnboardingProgress} [progress] - Onboarding progress to update after each member
+   * @returns {Promise<RoleChange[]>} Array of role changes to be applied
+   */
+  private async processMembers(
+    members: Map<string, GuildMember>,
+    memberGuildMap: Map<string, GuildData>,
+    config: GuildConfig,
+    reason: RoleChangeReason,
+    progress?: OnboardingProgress
+  ): Promise<RoleChange[]> {
+    const roleChanges: RoleChange[] = [];
+
+    for (const [memberId, member] of members) {
+      try {
+        // Members who joined after the scan may still be known from gateway events;
+        // members whose tag is unknown are left as they are rather than treated as untagged
+        const memberData = memberGuildMap.get(memberId);
+        const cachedTag = memberData ? undefined : this.getCachedTag(memberId);
+        if (!memberData && cachedTag === undefined) {
+          continue;
+        }
+        const currentGuildId = memberData
+          ? memberData.user.primary_guild?.identity_guild_id
+          : cachedTag ?? undefined;
+
+        const changes = await this.applyTagRoles(member, config, currentGuildId, reason);
+        roleChanges.push(...changes);
+
+        if (progress) {
+          progress.tagWearers += currentGuildId === config.guildId ? 1 : 0;
+          progress.rolesAdded += changes.filter(change => change.type === 'add').length;
+          progress.rolesRemoved += changes.filter(change => change.type === 'remove').length;
+        }
+      } catch (error) {
+        this.guildLogger(config.guildId, memberId).error('Error processing member', { error });
+        if (progress) {
+          progress.errors++;
+        }
+      } finally {
+        if (progress) {
+          progress.scannedMembers++;
+        }
+      }
+    }
+
+    return roleChanges;
+  }
+
+  /**
+   * Resolves which roles a member should hold for the tag they are wearing
+   * and adds or removes every role managed by the configuration accordingly.
+   * With a grace period, removals are deferred until the tag has stayed off that long.
+   * Tier roles are granted once the guild's own tag has been worn continuously for long enough.
+   * Members ignored by the eligibility rules are left untouched and withheld members lose their roles.
+   * In preview mode the changes are returned without being applied.
+   * @private
+   * @param {GuildMember} member - The member to update
+   * @param {GuildConfig} config - The guild configuration
+   * @param {string | undefined} tagGuildId - ID of the guild whose tag the member is wearing
+   * @param {RoleChangeReason} [reason] - Why the change is made; defaults to the tag being equipped or removed, and tier roles are always added for tenure
+   * @returns {Promise<RoleChange[]>} Array of role changes that were applied
+   */
+  private async applyTagRoles(
+    member: GuildMember,
+    config: GuildConfig,
+    tagGuildId: string | undefined,
+    reason?: RoleChangeReason
+  ): Promise<RoleChange[]> {
+    const eligibility = checkEligibility(member, this.getEligibilityRules(config));
+    if (eligibility.status === 'ignored') {
+      return [];
+    }
+
+    const managedRoleIds = new Set([config.roleId]);
+    const desiredRoleIds = new Set<string>();
+    const tierRoleIds = new Set<string>();
+    const wearsOwnTag = tagGuildId === config.guildId;
+
+    if (wearsOwnTag) {
+      desiredRoleIds.add(config.roleId);
+    }
+
+    for (const mapping of config.mappings) {
+      managedRoleIds.add(mapping.roleId);
+      if (tagGuildId === mapping.sourceGuildId) {
+        desiredRoleIds.add(mapping.roleId);
+      }
+    }
+
+    const wornFor = wearsOwnTag ? Date.now() - await this.getWearStart(member, !config.previewMode) : 0;
+    for (const tier of config.tiers) {
+      managedRoleIds.add(tier.roleId);
+      tierRoleIds.add(tier.roleId);
+      if (wearsOwnTag && wornFor >= tier.days * DAY_MS) {
+        desiredRoleIds.add(tier.roleId);
+      }
+    }
+
+    if (eligibility.status === 'withheld') {
+      desiredRoleIds.clear();
+    }
+
+    const roleChanges: RoleChange[] = [];
+    const pending = config.previewMode ? null : await this.getPendingRemovals(member.guild.id);
+
+    for (const roleId of managedRoleIds) {
+      const shouldHaveRole = desiredRoleIds.has(roleId);
+      const hasRole = member.roles.cache.has(roleId);
+      const pendingKey = `${member.id}:${roleId}`;
+      const removeAfter = pending?.get(pendingKey);
+
+      if (shouldHaveRole && !hasRole) {
+        if (!config.previewMode) {
+          await this.restScheduler.schedule(member.guild.id, MEMBER_ROLE_ROUTE, () => member.roles.add(roleId));
+        }
+        // Tier roles are earned by tenure, even when a sync is what grants them
+        roleChanges.push({ type: 'add', member, roleId, reason: tierRoleIds.has(roleId) ? 'tenure reached' : reason ?? 'tag equipped' });
+      } else if (!shouldHaveRole && hasRole) {
+        if (!config.previewMode) {
+          // Wait out the grace period so briefly switching tags or a flaky lookup doesn't cost the role
+          if (config.removalGraceMinutes > 0) {
+            if (removeAfter === undefined) {
+              await this.addPendingRemoval(member.guild.id, member.id, roleId, config.removalGraceMinutes);
+              continue;
+            }
+            if (removeAfter > Date.now()) {
+              continue;
+            }
+          }
+          await this.restScheduler.schedule(member.guild.id, MEMBER_ROLE_ROUTE, () => member.roles.remove(roleId));
+        }
+        roleChanges.push({ type: 'remove', member, roleId, reason: reason ?? 'tag removed' });
+      }
+
+      // The tag came back, the role is already gone or it was just removed, so nothing is pending anymore
+      if (removeAfter !== undefined) {
+        await this.deletePendingRemoval(member.guild.id, member.id, roleId);
+      }
+    }
+
+    // Continuous wear ends once the base role is actually gone, so a removal still in its grace period keeps the streak
+    if (!config.previewMode && !wearsOwnTag && !pending?.has(`${member.id}:${config.roleId}`)) {
+      await this.clearWearStart(member.guild.id, member.id);
+    }
+
+    return roleChanges;
+  }
+
+  /**
+   * Gets a guild's wear starts, loading them from the database on first use
+   * @private
+   * @async
+   * @param {string} guildId - The guild ID
+   * @returns {Promise<Map<string, number>>} Wear start times by user ID
+   */
+  private async getWearStarts(guildId: string): Promise<Map<string, number>> {
+    let starts = this.wearStarts.get(guildId);
+    if (!starts) {
+      const wearers = await prisma.tagWearer.findMany({ where: { guildId } });
+      starts = new Map(wearers.map(wearer => [wearer.userId, wearer.since.getTime()]));
+      this.wearStarts.set(guildId, starts);
+    }
+    return starts;
+  }
+
+  /**
+   * Gets when a member started wearing the guild's own tag, starting the streak now if it isn't tracked yet
+   * @private
+   * @async
+   * @param {GuildMember} member - The member wearing the tag
+   * @param {boolean} persist - Whether to store a new streak, false for previews
+   * @returns {Promise<number>} The wear start in milliseconds since the epoch
+   */
+  private async getWearStart(member: GuildMember, persist: boolean): Promise<number> {
+    const starts = await this.getWearStarts(member.guild.id);
+    const since = starts.get(member.id);
+    if (since !== undefined) {
+      return since;
+    }
 
-    // Start periodic checks
-    setInterval(() => this.checkGuilds(), 5000);
-    // Start heartbeat with longer interval
-    setInterval(() => this.sendHeartbeat(), this.HEARTBEAT_INTERVAL);
+    const now = Date.now();
+    if (persist) {
+      const wearer = await prisma.tagWearer.upsert({
+        where: { guildId_userId: { guildId: member.guild.id, userId: member.id } },
+        update: {},
+        create: { guildId: member.guild.id, userId: member.id, since: new Date(now) }
+      });
+      starts.set(member.id, wearer.since.getTime());
+      return wearer.since.getTime();
+    }
+    return now;
   }
 
   /**
-   * Initializes guilds by fetching their members
+   * Ends a member's wear streak
    * @private
+   * @async
+   * @param {string} guildId - The guild ID
+   * @param {string} userId - The member whose streak ended
    * @returns {Promise<void>}
    */
-  private async initializeGuilds() {
-    const configs = await prisma.guildConfig.findMany();
-    for (const config of configs) {
-      const guild = this.client.guilds.cache.get(config.guildId);
-      if (!guild) {
-        continue;
-      }
+  private async clearWearStart(guildId: string, userId: string) {
+    const starts = await this.getWearStarts(guildId);
+    if (!starts.has(userId)) {
+      return;
+    }
+    await prisma.tagWearer.deleteMany({ where: { guildId, userId } });
+    starts.delete(userId);
+  }
 
-      try {
-        await guild.members.fetch();
-      } catch (error) {
-        console.error('Error during initial member fetch:', error);
-      }
+  /**
+   * Gets a guild's pending removals, loading them from the database on first use
+   * @private
+   * @async
+   * @param {string} guildId - The guild ID
+   * @returns {Promise<Map<string, number>>} Removal times by `userId:roleId`
+   */
+  private async getPendingRemovals(guildId: string): Promise<Map<string, number>> {
+    let pending = this.pendingRemovals.get(guildId);
+    if (!pending) {
+      const removals = await prisma.pendingRoleRemoval.findMany({ where: { guildId } });
+      pending = new Map(removals.map(removal => [`${removal.userId}:${removal.roleId}`, removal.removeAfter.getTime()]));
+      this.pendingRemovals.set(guildId, pending);
     }
+    return pending;
   }
 
   /**
-   * Checks all guilds for role updates
+   * Defers a role removal until the grace period has passed
    * @private
+   * @async
+   * @param {string} guildId - The guild ID
+   * @param {string} userId - The member whose role would be removed
+   * @param {string} roleId - The role to remove
+   * @param {number} graceMinutes - How long the tag must stay off
    * @returns {Promise<void>}
    */
-  private async checkGuilds() {
-    if (this.processingPromise) return;
+  private async addPendingRemoval(guildId: string, userId: string, roleId: string, graceMinutes: number) {
+    const removeAfter = new Date(Date.now() + graceMinutes * 60000);
+    await prisma.pendingRoleRemoval.upsert({
+      where: { guildId_userId_roleId: { guildId, userId, roleId } },
+      update: {},
+      create: { guildId, userId, roleId, removeAfter }
+    });
+    this.pendingRemovals.get(guildId)?.set(`${userId}:${roleId}`, removeAfter.getTime());
+  }
 
-    this.processingPromise = (async () => {
+  /**
+   * Cancels or completes a pending role removal
+   * @private
+   * @async
+   * @param {string} guildId - The guild ID
+   * @param {string} userId - The member the removal was for
+   * @param {string} roleId - The role the removal was for
+   * @returns {Promise<void>}
+   */
+  private async deletePendingRemoval(guildId: string, userId: string, roleId: string) {
+    await prisma.pendingRoleRemoval.deleteMany({ where: { guildId, userId, roleId } });
+    this.pendingRemovals.get(guildId)?.delete(`${userId}:${roleId}`);
+  }
+
+  /**
+   * Re-checks members whose grace period has passed and removes their roles if the tag is still absent
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async processDueRemovals() {
+    // A running full sync handles due removals itself
+    if (this.removalSweepPromise || this.processingPromise || this.isStopping) return;
+
+    this.removalSweepPromise = (async () => {
       try {
-        const configs = await prisma.guildConfig.findMany();
-        for (const config of configs) {
-          await this.processGuild(config);
+        const due = await prisma.pendingRoleRemoval.findMany({
+          where: { removeAfter: { lte: new Date() } }
+        });
+        const dueByGuild = new Map<string, Set<string>>();
+        for (const removal of due) {
+          const userIds = dueByGuild.get(removal.guildId) ?? new Set<string>();
+          userIds.add(removal.userId);
+          dueByGuild.set(removal.guildId, userIds);
+        }
+
+        for (const [guildId, userIds] of dueByGuild) {
+          await this.processGuildDueRemovals(guildId, userIds);
         }
       } catch (error) {
-        console.error('Error in main processing:', error);
+        logger.error('Error processing pending role removals', { error });
       }
     })();
 
-    await this.processingPromise;
-    this.processingPromise = null;
+    await this.removalSweepPromise;
+    this.removalSweepPromise = null;
   }
 
   /**
-   * Processes a single guild for role updates
+   * Re-checks a guild's members with due removals, then records and logs the removals made
    * @private
-   * @param {GuildConfig} config - The guild configuration
+   * @async
+   * @param {string} guildId - The guild ID
+   * @param {Set<string>} userIds - Members with at least one due removal
    * @returns {Promise<void>}
    */
-  private async processGuild(config: GuildConfig) {
-    const guild = this.client.guilds.cache.get(config.guildId);
+  private async processGuildDueRemovals(guildId: string, userIds: Set<string>) {
+    const guild = this.client.guilds.cache.get(guildId);
     if (!guild) {
       return;
     }
 
-    const role = guild.roles.cache.get(config.roleId);
-    if (!role) {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
+    // Removals are live changes: guilds in preview mode or no longer configured drop them,
+    // and broken guilds keep them until the problem is fixed and syncing resumes
+    if (!config || config.previewMode || config.status === 'archived') {
+      await prisma.pendingRoleRemoval.deleteMany({ where: { guildId } });
+      this.pendingRemovals.delete(guildId);
+      return;
+    }
+    if (config.status === 'broken') {
       return;
     }
 
-    const logChannel = config.logChannelId 
-      ? guild.channels.cache.get(config.logChannelId) as TextChannel | undefined
-      : null;
+    const activeConfig = this.getActiveConfig(config, guild.roles.cache);
+    const roleChanges: RoleChange[] = [];
 
-    if (config.logChannelId && !logChannel) {
-      return;
+    for (const userId of userIds) {
+      const member = guild.members.cache.get(userId);
+      if (!member) {
+        // Members who left can't lose the role, so there is nothing to wait for
+        await prisma.pendingRoleRemoval.deleteMany({ where: { guildId, userId } });
+        await this.clearWearStart(guildId, userId);
+        const pending = await this.getPendingRemovals(guildId);
+        for (const key of pending.keys()) {
+          if (key.startsWith(`${userId}:`)) {
+            pending.delete(key);
+          }
+        }
+        continue;
+      }
+
+      // Look the tag up again, so a removal only happens if the tag is confirmed absent
+      const tagGuildId = await this.fetchMemberTag(guildId, userId);
+      if (tagGuildId === undefined) {
+        continue;
+      }
+
+      try {
+        roleChanges.push(...await this.applyTagRoles(member, activeConfig, tagGuildId ?? undefined));
+      } catch (error) {
+        this.guildLogger(guildId, userId).error('Error processing pending removal', { error });
+      }
     }
-    
-    // Fetch latest member data
-    await guild.members.fetch();
-    const members = guild.members.cache;
 
-    const memberGuildMap = await this.fetchMemberGuildData(guild.id);
-    const roleChanges = await this.processMembers(members, memberGuildMap, config);
+    await this.recordRoleChanges(guildId, roleChanges);
 
+    const logChannel = config.logChannelId
+      ? guild.channels.cache.get(config.logChannelId) as TextChannel | undefined
+      : undefined;
     if (roleChanges.length > 0 && logChannel) {
-      await this.sendRoleChangeLog(logChannel, roleChanges, role);
+      await this.sendRoleChangeLog(logChannel, roleChanges, guild.roles.cache, config);
     }
   }
 
   /**
-   * Fetches guild data for all members in a guild
+   * Persists role changes to the audit log
    * @private
-   * @param {string} guildId - The ID of the guild to fetch data for
-   * @returns {Promise<Map<string, GuildData>>} Map of member IDs to their guild data
+   * @param {string} guildId - The guild the changes were made in
+   * @param {RoleChange[]} changes - Array of role changes to record
+   * @returns {Promise<void>}
    */
-  private async fetchMemberGuildData(guildId: string): Promise<Map<string, GuildData>> {
-    const memberGuildMap = new Map<string, GuildData>();
-    let after = '0';
-    let hasMore = true;
+  private async recordRoleChanges(guildId: string, changes: RoleChange[]) {
+    if (changes.length === 0) {
+      return;
+    }
 
-    while (hasMore) {
-      try {
-        const response = await this.client.rest.get(
-          `/guilds/${guildId}/members?limit=1000&after=${after}`
-        );
-        
-        const guildData = response as GuildData[];
-        
-        if (guildData.length === 0) {
-          hasMore = false;
-        } else {
-          for (const member of guildData) {
-            memberGuildMap.set(member.user.id, member);
-          }
-          after = guildData[guildData.length - 1].user.id;
-          hasMore = guildData.length === 1000;
-        }
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error('Error during pagination:', error);
-        hasMore = false;
-      }
+    for (const change of changes) {
+      this.roleChangeCounts[change.type]++;
     }
 
-    return memberGuildMap;
+    try {
+      await prisma.roleChangeLog.createMany({
+        data: changes.map(change => ({
+          guildId,
+          userId: change.member.id,
+          roleId: change.roleId,
+          action: change.type,
+          reason: change.reason
+        }))
+      });
+    } catch (error) {
+      this.guildLogger(guildId).error('Error recording role changes', { error });
+    }
   }
 
   /**
-   * Processes members to determine role changes needed
+   * Sends a log message about role changes to a channel
    * @private
-   * @param {Map<string, GuildMember>} members - Map of member IDs to their GuildMember objects
-   * @param {Map<string, GuildData>} memberGuildMap - Map of member IDs to their guild data
-   * @param {GuildConfig} config - The guild configuration
-   * @returns {Promise<RoleChange[]>} Array of role changes to be applied
+   * @param {TextChannel} channel - The channel to send the log to
+   * @param {RoleChange[]} changes - Array of role changes to log
+   * @param {Map<string, Role>} roles - The guild's roles, used to name each changed role
+   * @param {GuildConfig} config - The guild configuration, providing the log format
+   * @returns {Promise<void>}
    */
-  private async processMembers(
-    members: Map<string, GuildMember>,
-    memberGuildMap: Map<string, GuildData>,
-    config: GuildConfig
-  ): Promise<RoleChange[]> {
-    const roleChanges: RoleChange[] = [];
-    let processedCount = 0;
-    let errorCount = 0;
+  private async sendRoleChangeLog(channel: TextChannel, changes: RoleChange[], roles: Map<string, Role>, config: GuildConfig) {
+    const roleNames = new Map(Array.from(roles.values()).map(role => [role.id, role.name]));
+    const messages = buildRoleChangeLogMessages(
+      changes.map(change => ({
+        userId: change.member.id,
+        roleId: change.roleId,
+        action: change.type,
+        reason: change.reason,
+      })),
+      roleNames,
+      {
+        logFormat: config.logFormat as LogFormat,
+        logTemplate: config.logTemplate,
+        logTitle: config.logTitle,
+        logColor: config.logColor,
+      }
+    );
 
-    for (const [memberId, member] of members) {
-      try {
-        const memberData = memberGuildMap.get(memberId);
-        const currentGuildId = memberData?.user?.primary_guild?.identity_guild_id;
-        
-        const shouldHaveRole = currentGuildId === config.guildId;
-        const hasRole = member.roles.cache.has(config.roleId);
-
-        if (shouldHaveRole && !hasRole) {
-          await member.roles.add(config.roleId);
-          roleChanges.push({ type: 'add', member });
-        } else if (!shouldHaveRole && hasRole) {
-          await member.roles.remove(config.roleId);
-          roleChanges.push({ type: 'remove', member });
-        }
+    for (const { content, embeds, csv } of messages) {
+      const message: MessageCreateOptions = {
+        content,
+        embeds,
+        files: csv ? [new AttachmentBuilder(Buffer.from(csv.content), { name: csv.name })] : undefined,
+        // Mentions identify members without notifying them
+        allowedMentions: { parse: [] },
+      };
 
-        processedCount++;
+      try {
+        await this.restScheduler.request('/channels/:id/messages', channel.id, () => channel.send(message));
       } catch (error) {
-        console.error(`Error processing member ${memberId}:`, error);
-        errorCount++;
-        processedCount++;
+        if (error instanceof DiscordAPIError && error.code === 50001) {
+          return;
+        }
+        // Keep sending the remaining pages so one failure doesn't lose the whole log
+        this.guildLogger(config.guildId).error('Error sending role change log', { channelId: channel.id, error });
       }
     }
-
-    return roleChanges;
   }
 
   /**
-   * Sends a log message about role changes to a channel
+   * Thanks a member for equipping the tag with a DM and/or a shout-out, at most once per cooldown
    * @private
-   * @param {TextChannel} channel - The channel to send the log to
-   * @param {RoleChange[]} changes - Array of role changes to log
-   * @param {Role} role - The role being updated
+   * @param {GuildMember} member - The member who equipped the tag
+   * @param {Role} role - The role they were given
+   * @param {GuildConfig} config - The guild configuration, providing the thank-you settings
    * @returns {Promise<void>}
    */
-  private async sendRoleChangeLog(channel: TextChannel, changes: RoleChange[], role: Role) {
+  private async sendThankYou(member: GuildMember, role: Role, config: GuildConfig) {
+    const shoutoutChannel = config.shoutoutChannelId
+      ? member.guild.channels.cache.get(config.shoutoutChannelId) as TextChannel | undefined
+      : undefined;
+    if (!config.welcomeDmEnabled && !shoutoutChannel) {
+      return;
+    }
+
     try {
-      const embed = new EmbedBuilder()
-        .setColor(0x2F3136)
-        .setTitle('Role Updates')
-        .setDescription('The following role changes were made:')
-        .setTimestamp();
-
-      const added = changes.filter(c => c.type === 'add');
-      const removed = changes.filter(c => c.type === 'remove');
-
-      if (added.length > 0) {
-        embed.addFields({
-          name: `✅ Added ${role.name} Role`,
-          value: added.map(c => `• ${c.member.displayName}`).join('\n')
-        });
+      const where = { guildId: member.guild.id, userId: member.id };
+      const cooldown = await prisma.thankYouCooldown.findUnique({ where: { guildId_userId: where } });
+      if (cooldown && cooldown.sentAt.getTime() + config.thankYouCooldownHours * 3600000 > Date.now()) {
+        return;
       }
 
-      if (removed.length > 0) {
-        embed.addFields({
-          name: `❌ Removed ${role.name} Role`,
-          value: removed.map(c => `• ${c.member.displayName}`).join('\n')
-        });
+      // Claim the cooldown before sending so members toggling their tag can't trigger duplicates
+      await prisma.thankYouCooldown.upsert({
+        where: { guildId_userId: where },
+        update: { sentAt: new Date() },
+        create: where
+      });
+    } catch (error) {
+      this.guildLogger(member.guild.id, member.id).error('Error checking thank-you cooldown', { error });
+      return;
+    }
+
+    const context = {
+      userId: member.id,
+      username: member.displayName,
+      serverName: member.guild.name,
+      roleName: role.name
+    };
+
+    if (config.welcomeDmEnabled) {
+      try {
+        // Message buckets are keyed by channel, so the DM channel is opened first
+        const dmChannel = await member.createDM();
+        await this.restScheduler.request('/channels/:id/messages', dmChannel.id, () => dmChannel.send({
+          content: renderThankYouMessage(config.welcomeDmMessage, DEFAULT_WELCOME_DM, context),
+          allowedMentions: { parse: [] }
+        }));
+      } catch (error) {
+        if (error instanceof DiscordAPIError && error.code === 50007) {
+          // The member has DMs from server members turned off
+          this.guildLogger(member.guild.id, member.id).info('Skipped thank-you DM: DMs are closed');
+        } else {
+          this.guildLogger(member.guild.id, member.id).error('Error sending thank-you DM', { error });
+        }
       }
+    }
 
-      // @ts-ignore - Type mismatch between discord.js and discord-api-types versions
-      await channel.send({ embeds: [embed] });
-    } catch (error) {
-      if (error instanceof DiscordAPIError && error.code === 50001) {
-        return;
+    if (shoutoutChannel) {
+      try {
+        await this.restScheduler.request('/channels/:id/messages', shoutoutChannel.id, () => shoutoutChannel.send({
+          content: renderThankYouMessage(config.shoutoutMessage, DEFAULT_SHOUTOUT, context),
+          allowedMentions: { users: [member.id] }
+        }));
+      } catch (error) {
+        this.guildLogger(member.guild.id, member.id).error('Error sending thank-you shout-out', { channelId: shoutoutChannel.id, error });
       }
-      console.error('Error sending role change log:', error);
     }
   }
 
@@ -466,10 +2318,10 @@ export class BotService {
         },
       });
       if (!response.ok) {
-        console.error('Heartbeat failed:', response.status);
+        logger.error('Heartbeat failed', { status: response.status });
       }
     } catch (error) {
-      console.error('Error sending heartbeat:', error);
+      logger.error('Error sending heartbeat', { error });
     }
   }
 
@@ -494,12 +2346,12 @@ export class BotService {
     // Check cache first
     if (this.tokenVerificationCache && 
         Date.now() - this.tokenVerificationCache.timestamp < this.TOKEN_CACHE_DURATION) {
-      console.log('Using cached token verification result');
+      logger.debug('Using cached token verification result');
       return this.tokenVerificationCache.isValid;
     }
 
     try {
-      const response = await fetch('https://discord.com/api/v10/users/@me', {
+      const response = await fetch(`${this.client.options.rest?.api ?? DISCORD_API_URL}/v10/users/@me`, {
         headers: {
           Authorization: `Bot ${token}`,
         },
@@ -507,7 +2359,7 @@ export class BotService {
       
       if (response.ok) {
         const data = await response.json();
-        console.log('Token verification successful. Bot username:', data.username);
+        logger.info('Token verification successful', { username: data.username });
         // Cache the successful result
         this.tokenVerificationCache = {
           isValid: true,
@@ -516,14 +2368,14 @@ export class BotService {
         return true;
       } else if (response.status === 429) {
         // Rate limited - use cached result if available, otherwise assume valid
-        console.warn('Rate limited during token verification. Using cached result if available.');
+        logger.warn('Rate limited during token verification, using cached result if available');
         if (this.tokenVerificationCache) {
           return this.tokenVerificationCache.isValid;
         }
         // If no cache, assume valid to prevent blocking the bot
         return true;
       } else {
-        console.error('Token verification failed:', response.status, response.statusText);
+        logger.error('Token verification failed', { status: response.status, statusText: response.statusText });
         // Cache the failed result
         this.tokenVerificationCache = {
           isValid: false,
@@ -532,7 +2384,7 @@ export class BotService {
         return false;
       }
     } catch (error) {
-      console.error('Error verifying token:', error);
+      logger.error('Error verifying token', { error });
       // On error, use cached result if available, otherwise assume valid
       if (this.tokenVerificationCache) {
         return this.tokenVerificationCache.isValid;
@@ -551,17 +2403,24 @@ export class BotService {
    */
   private async attemptLogin(token: string, attempt: number = 1): Promise<void> {
     try {
-      console.log(`Attempting to login (attempt ${attempt}/${this.MAX_RETRIES})...`);
+      logger.info('Attempting to login', { attempt, maxAttempts: this.MAX_RETRIES });
       await this.client.login(token);
-      console.log('Login successful');
+      logger.info('Login successful');
+      void this.alerts.resolve('login', 'The bot logged in to Discord.');
     } catch (error) {
-      console.error(`Login attempt ${attempt} failed:`, error);
+      logger.error('Login attempt failed', { attempt, error });
       
       if (attempt < this.MAX_RETRIES) {
-        console.log(`Retrying in ${this.RETRY_DELAY}ms...`);
+        logger.info('Retrying login', { delayMs: this.RETRY_DELAY });
         await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY));
         return this.attemptLogin(token, attempt + 1);
       }
+
+      void this.alerts.raise('login', {
+        title: 'Bot login failed',
+        message: error instanceof Error ? error.message : String(error),
+        details: { Attempts: attempt }
+      });
       
       throw new Error('Failed to login after maximum retries');
     }
@@ -572,13 +2431,19 @@ export class BotService {
    * @returns {Promise<void>}
    */
   public async start() {
+    // Let a stop in progress finish before logging in again
+    if (this.stopPromise) {
+      await this.stopPromise.catch(() => undefined);
+    }
+    this.isHalted = false;
+
     // If we have a recent initialization error, don't try to start again immediately
     if (this.initializationError && Date.now() - this.lastInitializationAttempt < this.INITIALIZATION_COOLDOWN) {
       throw this.initializationError;
     }
 
-    if (this.isInitializing) {
-      return this.readyPromise;
+    if (this.startPromise) {
+      return this.startPromise;
     }
 
     if (this.client.isReady()) {
@@ -589,42 +2454,156 @@ export class BotService {
     this.lastInitializationAttempt = Date.now();
     this.initializationError = null;
 
-    const token = process.env.DISCORD_TOKEN;
+    const token = this.token ?? process.env.DISCORD_TOKEN;
     if (!token) {
       this.isInitializing = false;
       this.initializationError = new Error('Discord bot token not found');
       throw this.initializationError;
     }
 
+    this.startPromise = this.initialize(token);
+    try {
+      await this.startPromise;
+    } finally {
+      this.startPromise = null;
+    }
+  }
+
+  /**
+   * Logs in, waits for the gateway to be ready, then loads the guilds and starts the timers
+   * @private
+   * @async
+   * @param {string} token - The bot token
+   * @returns {Promise<void>}
+   */
+  private async initialize(token: string): Promise<void> {
+    let readyTimer: NodeJS.Timeout | undefined;
     try {
       await this.attemptLogin(token);
       
       // Wait for the ready event with a timeout
       await Promise.race([
         this.readyPromise,
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Bot initialization timed out. Please try again in a few moments.')), this.LOGIN_TIMEOUT)
-        )
+        new Promise((_, reject) => {
+          readyTimer = setTimeout(() => reject(new Error('Bot initialization timed out. Please try again in a few moments.')), this.LOGIN_TIMEOUT);
+        })
       ]);
+      clearTimeout(readyTimer);
 
       // Fetch all guilds after ready
-      console.log('Fetching guilds...');
+      logger.info('Fetching guilds');
       await this.client.guilds.fetch();
-      console.log(`Fetched ${this.client.guilds.cache.size} guilds`);
+      logger.info('Fetched guilds', { count: this.client.guilds.cache.size });
 
       // Initialize guilds
       await this.initializeGuilds();
-      
+
+      this.startTimers();
       this.isInitializing = false;
-      return Promise.resolve();
     } catch (error) {
+      clearTimeout(readyTimer);
       this.isInitializing = false;
       this.initializationError = error instanceof Error ? error : new Error('Unknown error during bot initialization');
-      console.error('Failed to start bot:', this.initializationError);
+      logger.error('Failed to start bot', { error: this.initializationError });
       throw this.initializationError;
     }
   }
 
+  /**
+   * Stops the bot service: clears timers, waits for an in-flight sync to finish
+   * and destroys the Discord client. The service can be started again afterwards.
+   * @returns {Promise<void>}
+   */
+  public async stop() {
+    if (this.stopPromise) {
+      return this.stopPromise;
+    }
+
+    this.stopPromise = (async () => {
+      this.isStopping = true;
+      this.isHalted = true;
+      logger.info('Stopping bot');
+
+      // A start stuck waiting on the gateway is given the login timeout, then abandoned when the client is destroyed
+      if (this.startPromise) {
+        let startTimer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          this.startPromise.catch(() => undefined),
+          new Promise(resolve => {
+            startTimer = setTimeout(resolve, this.LOGIN_TIMEOUT);
+          })
+        ]);
+        clearTimeout(startTimer);
+      }
+
+      this.stopTimers();
+
+      // Let an in-flight sync finish so no guild is left half-updated
+      while (this.processingPromise || this.removalSweepPromise) {
+        await (this.processingPromise ?? this.removalSweepPromise);
+      }
+      await this.restScheduler.idle();
+
+      await this.client.destroy();
+
+      // A fresh client keeps the service restartable
+      this.initializeClient();
+
+      this.isInitializing = false;
+      this.initializationError = null;
+      this.guildCache.clear();
+      this.memberCache.clear();
+      this.pendingRemovals.clear();
+      this.wearStarts.clear();
+      logger.info('Bot stopped');
+    })();
+
+    try {
+      await this.stopPromise;
+    } finally {
+      this.isStopping = false;
+      this.stopPromise = null;
+    }
+  }
+
+  /**
+   * Restarts the bot service
+   * @returns {Promise<void>}
+   */
+  public async restart() {
+    await this.stop();
+    await this.start();
+  }
+
+  /**
+   * Reloads configuration: clears cached Discord data, re-reads the sync interval
+   * from the environment and runs a full reconciliation against the stored guild configs
+   * @returns {Promise<void>}
+   */
+  public async reload() {
+    this.guildCache.clear();
+    this.memberCache.clear();
+    this.tagCache.clear();
+    this.previews.clear();
+    this.healthReports.clear();
+    this.pendingRemovals.clear();
+    this.wearStarts.clear();
+    this.syncIntervalMs = getSyncInterval();
+
+    if (this.client.isReady()) {
+      this.startTimers();
+      await this.checkGuilds();
+    }
+  }
+
+  /**
+   * Checks whether the bot was deliberately stopped and should not be auto-started
+   * @returns {boolean} Whether the bot is stopped
+   */
+  public isStopped(): boolean {
+    return this.isHalted;
+  }
+
   /**
    * Checks if the bot is logged in
    * @returns {boolean} Whether the bot is logged in
@@ -639,35 +2618,27 @@ export class BotService {
       throw new Error('Bot is not ready');
     }
 
-    try {
-      const guilds = await this.client.guilds.fetch();
-      const guildArray = await Promise.all(
-        Array.from(guilds.values()).map(guild => guild.fetch())
-      );
-      
-      // Cache guild data
-      this.guildCache = new Map(
-        guildArray.map(guild => [
-          guild.id,
-          {
-            data: guild,
-            timestamp: Date.now()
-          }
-        ])
-      );
-
-      return guildArray;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('rate limit')) {
-        const endpoint = 'guilds';
-        const cached = this.rateLimitCache.get(endpoint);
-        if (cached && cached.resetAt > Date.now()) {
-          await new Promise(resolve => setTimeout(resolve, cached.resetAt - Date.now()));
-          return this.fetchGuilds();
+    const guilds = await this.restScheduler.request('/users/@me/guilds', 'global', () =>
+      this.client.guilds.fetch()
+    );
+    const guildArray = await Promise.all(
+      Array.from(guilds.values()).map(guild =>
+        this.restScheduler.request('/guilds/:id', guild.id, () => guild.fetch())
+      )
+    );
+
+    // Cache guild data
+    this.guildCache = new Map(
+      guildArray.map(guild => [
+        guild.id,
+        {
+          data: guild,
+          timestamp: Date.now()
         }
-      }
-      throw error;
-    }
+      ])
+    );
+
+    return guildArray;
   }
 
   // Update fetchGuild method
@@ -677,8 +2648,10 @@ export class BotService {
     }
 
     try {
-      const guild = await this.client.guilds.fetch(guildId);
-      
+      const guild = await this.restScheduler.request('/guilds/:id', guildId, () =>
+        this.client.guilds.fetch(guildId)
+      );
+
       // Cache guild data
       this.guildCache.set(guildId, {
         data: guild,
@@ -687,14 +2660,6 @@ export class BotService {
 
       return guild;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('rate limit')) {
-        const endpoint = `guilds/${guildId}`;
-        const cached = this.rateLimitCache.get(endpoint);
-        if (cached && cached.resetAt > Date.now()) {
-          await new Promise(resolve => setTimeout(resolve, cached.resetAt - Date.now()));
-          return this.fetchGuild(guildId);
-        }
-      }
       return null;
     }
   }
@@ -705,28 +2670,21 @@ export class BotService {
       throw new Error('Bot is not ready');
     }
 
-    try {
-      const guild = await this.client.guilds.fetch(guildId);
-      const members = await guild.members.fetch();
-      
-      // Cache member data
-      this.memberCache.set(guildId, {
-        data: Array.from(members.values()),
-        timestamp: Date.now()
-      });
+    const guild = await this.restScheduler.request('/guilds/:id', guildId, () =>
+      this.client.guilds.fetch(guildId)
+    );
+    // Members are requested over the gateway, so there is no REST bucket to wait on; the request is only counted if it fails
+    const members = await this.restScheduler.request('gateway:request-members', guildId, () =>
+      guild.members.fetch()
+    );
+
+    // Cache member data
+    this.memberCache.set(guildId, {
+      data: Array.from(members.values()),
+      timestamp: Date.now()
+    });
 
-      return Array.from(members.values());
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('rate limit')) {
-        const endpoint = `guilds/${guildId}/members`;
-        const cached = this.rateLimitCache.get(endpoint);
-        if (cached && cached.resetAt > Date.now()) {
-          await new Promise(resolve => setTimeout(resolve, cached.resetAt - Date.now()));
-          return this.fetchGuildMembers(guildId);
-        }
-      }
-      throw error;
-    }
+    return Array.from(members.values());
   }
 
   /**
@@ -750,7 +2708,11 @@ export class BotService {
       ping: this.client.ws.ping,
       lastHeartbeat: this.lastHeartbeat,
       isInitializing: this.isInitializing,
-      initializationError: this.initializationError?.message || null
+      initializationError: this.initializationError?.message || null,
+      syncIntervalMs: this.syncIntervalMs,
+      lastFullSync: this.lastFullSync,
+      syncMetrics: Object.fromEntries(this.syncMetrics),
+      restQueue: this.restScheduler.getStats()
     };
   }
 
@@ -787,53 +2749,68 @@ export class BotService {
   }
 
   /**
-   * Processes a guild member update event
+   * Processes a gateway member update, reconciling the member's roles with the tag they are wearing
    * @private
-   * @param {GuildMember | PartialGuildMember} oldMember - The member before the update
-   * @param {GuildMember | PartialGuildMember} newMember - The member after the update
+   * @param {string} guildId - The ID of the guild the update is for
+   * @param {GuildData} memberData - The member payload from the gateway event
    * @returns {Promise<void>}
    */
-  private async processGuildMemberUpdate(
-    oldMember: GuildMember | PartialGuildMember,
-    newMember: GuildMember | PartialGuildMember
-  ): Promise<void> {
-    try {
-      // Ensure we have full GuildMember objects
-      if (!('guild' in newMember) || !('roles' in newMember)) {
-        console.warn('Received partial guild member update, skipping role processing');
-        return;
-      }
+  private async processGuildMemberUpdate(guildId: string, memberData: GuildData): Promise<void> {
+    const config = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: GUILD_CONFIG_INCLUDE
+    });
 
-      const guildId = newMember.guild.id;
-      const config = await prisma.guildConfig.findUnique({
-        where: { guildId }
-      });
+    // Broken and archived configurations are paused, like their syncs
+    if (!config || config.status !== 'active') {
+      return;
+    }
 
-      if (!config) {
-        return;
-      }
+    const guild = this.client.guilds.cache.get(guildId);
+    const member = guild?.members.cache.get(memberData.user.id);
+    if (!guild || !member) {
+      return;
+    }
 
-      const role = newMember.guild.roles.cache.get(config.roleId);
-      if (!role) {
-        return;
-      }
+    const roles = guild.roles.cache;
+    const role = roles.get(config.roleId);
+    if (!role) {
+      return;
+    }
 
-      const memberData = await this.fetchMemberGuildData(guildId);
-      const currentGuildId = memberData.get(newMember.id)?.user?.primary_guild?.identity_guild_id;
-      
-      const shouldHaveRole = currentGuildId === guildId;
-      const hasRole = newMember.roles.cache.has(config.roleId);
+    // Fall back to the tag cache or a single-member lookup if the event did not include the user's primary guild
+    let currentGuildId: string | null | undefined;
+    if ('primary_guild' in memberData.user) {
+      this.rememberTag(memberData);
+      currentGuildId = memberData.user.primary_guild?.identity_guild_id ?? null;
+    } else {
+      currentGuildId = await this.fetchMemberTag(guildId, member.id);
+    }
 
-      if (shouldHaveRole && !hasRole) {
-        await newMember.roles.add(config.roleId);
-      } else if (!shouldHaveRole && hasRole) {
-        await newMember.roles.remove(config.roleId);
+    // A failed lookup says nothing about the tag, so the member's roles are left as they are
+    if (currentGuildId === undefined) {
+      return;
+    }
+
+    const roleChanges = await this.applyTagRoles(member, this.getActiveConfig(config, roles), currentGuildId ?? undefined);
+    if (!config.previewMode) {
+      await this.recordRoleChanges(guildId, roleChanges);
+
+      // Only thank members for equipping the tag live, never for resyncs which could mass-message a server
+      if (roleChanges.some(change => change.type === 'add' && change.roleId === config.roleId)) {
+        await this.sendThankYou(member, role, config);
       }
-    } catch (error) {
-      console.error('Error processing guild member update:', error);
-      throw error;
     }
-  }
 }
+}
+
+const globalForBot = globalThis as unknown as {
+  botService: BotService | undefined;
+};
 
-export const botService = new BotService(); 
\ No newline at end of file
+/**
+ * Global bot service instance, shared by every server bundle so the bot only logs in once
+ * @type {BotService}
+ */
+export const botService = globalForBot.botService ?? new BotService();
+globalForBot.botService = botService; 
\ No newline at end of file
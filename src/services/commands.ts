@@ -0,0 +1,305 @@
+/**
+ * @file commands.ts
+ * @description Slash command router and handlers for the interactions endpoint
+ * @module services/commands
+ */
+
+import { after } from 'next/server';
+import { botService } from '@/services/bot';
+import { canManageGuild } from '@/lib/guild-auth';
+import { DISCORD_API_URL } from '@/lib/discord-api';
+import { getGuildConfig, GuildConfigConflictError, saveGuildConfig } from '@/lib/guild-config';
+import {
+  DiscordInteraction,
+  InteractionOption,
+  InteractionReply,
+  InteractionResponse
+} from '@/types/interaction';
+import { logger } from '@/utils/logger';
+
+const EPHEMERAL = 64;
+const SUBCOMMAND_OPTION = 1;
+const CHANNEL_MESSAGE_WITH_SOURCE = 4;
+const DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE = 5;
+
+/**
+ * Context passed to every command handler
+ * @interface CommandContext
+ * @property {DiscordInteraction} interaction - The raw interaction
+ * @property {string} guildId - The guild the command was used in
+ * @property {string} userId - The invoking user's Discord ID
+ * @property {InteractionOption[]} options - The subcommand's options
+ */
+interface CommandContext {
+  interaction: DiscordInteraction;
+  guildId: string;
+  userId: string;
+  options: InteractionOption[];
+}
+
+/**
+ * A subcommand handler
+ * @interface Subcommand
+ * @property {boolean} requiresManageGuild - Whether the invoker needs Manage Server
+ * @property {Function} execute - Runs the command and returns the reply
+ */
+interface Subcommand {
+  requiresManageGuild: boolean;
+  execute: (context: CommandContext) => Promise<InteractionReply>;
+}
+
+/**
+ * Gets the value of a named option
+ * @param {InteractionOption[]} options - The options to search
+ * @param {string} name - The option name
+ * @returns {string | undefined} The option value as a string
+ */
+function getOption(options: InteractionOption[], name: string): string | undefined {
+  const option = options.find(option => option.name === name);
+  return option?.value !== undefined ? String(option.value) : undefined;
+}
+
+/**
+ * Builds an immediate ephemeral reply
+ * @param {string} content - The message content
+ * @returns {InteractionResponse} The interaction response
+ */
+function ephemeral(content: string): InteractionResponse {
+  return {
+    type: CHANNEL_MESSAGE_WITH_SOURCE,
+    data: { content, flags: EPHEMERAL }
+  };
+}
+
+/**
+ * Edits the original deferred response of an interaction
+ * @async
+ * @param {DiscordInteraction} interaction - The interaction to respond to
+ * @param {InteractionReply} reply - The reply to send
+ * @returns {Promise<void>}
+ */
+async function editOriginalResponse(interaction: DiscordInteraction, reply: InteractionReply) {
+  const response = await fetch(
+    `${DISCORD_API_URL}/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`,
+    {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(reply),
+    }
+  );
+
+  if (!response.ok) {
+    logger.error('Failed to edit interaction response', { status: response.status, body: await response.text() });
+  }
+}
+
+const subcommands: Record<string, Subcommand> = {
+  status: {
+    requiresManageGuild: false,
+    async execute({ guildId }) {
+      const config = await getGuildConfig(guildId);
+      if (!config) {
+        return { content: 'Tag roles are not configured for this server yet. Use `/tagrole config` to set them up.' };
+      }
+
+      // Counts come from the last sync; scanning members here would let anyone trigger a full member scan
+      const status = await botService.getGuildTagStatus(guildId);
+
+      return {
+        embeds: [{
+          color: 0x2F3136,
+          title: 'Tag Role Status',
+          fields: [
+            { name: 'Role', value: `<@&${config.roleId}>`, inline: true },
+            { name: 'Log Channel', value: config.logChannelId ? `<#${config.logChannelId}>` : 'None', inline: true },
+            { name: 'Partner Tags', value: String(config.mappings.length), inline: true },
+            ...(status
+              ? [
+                { name: 'Members', value: String(status.memberCount), inline: true },
+                { name: 'Wearing Tag', value: String(status.tagWearers), inline: true },
+                { name: 'With Role', value: String(status.withRole), inline: true },
+                { name: 'Without Role', value: String(status.withoutRole), inline: true },
+              ]
+              : [{ name: 'Counts', value: 'Available after the first live sync completes' }]),
+            ...(config.status === 'broken'
+              ? [{ name: 'Syncing Paused', value: (config.statusReason ?? 'The configuration needs attention').slice(0, 1024) }]
+              : []),
+          ],
+          ...(status && { footer: { text: 'Counts as of the last sync' } }),
+          timestamp: new Date(status?.recordedAt ?? Date.now()).toISOString(),
+        }]
+      };
+    }
+  },
+
+  sync: {
+    requiresManageGuild: true,
+    async execute({ guildId, options }) {
+      const result = await botService.syncGuild(guildId, { confirmRemovals: getOption(options, 'confirm') === 'true' });
+      if (!result) {
+        return { content: 'Tag roles are not configured for this server yet. Use `/tagrole config` to set them up.' };
+      }
+
+      if (result.status === 'archived') {
+        return { content: `Tag roles are archived for this server, so no roles were changed: ${result.error}. Re-invite the bot to resume them.` };
+      }
+
+      if (result.status === 'blocked') {
+        return { content: `Sync blocked, no roles were changed: ${result.error} Run \`/tagrole sync confirm:True\` to apply it anyway.` };
+      }
+
+      if (result.status === 'failed') {
+        return { content: `Sync failed, no roles were changed: ${result.error}` };
+      }
+
+      if (result.preview) {
+        return { content: `Preview mode is on, so no roles were changed: ${result.added} role(s) would be added, ${result.removed} would be removed.` };
+      }
+
+      return { content: `Sync complete: ${result.added} role(s) added, ${result.removed} role(s) removed.` };
+    }
+  },
+
+  check: {
+    requiresManageGuild: false,
+    async execute({ guildId, options }) {
+      const userId = getOption(options, 'user');
+      if (!userId) {
+        return { content: 'Please specify a user to check.' };
+      }
+
+      const config = await getGuildConfig(guildId);
+      if (!config) {
+        return { content: 'Tag roles are not configured for this server yet. Use `/tagrole config` to set them up.' };
+      }
+
+      const explanation = await botService.explainMember(config, userId);
+      if (!explanation) {
+        return { content: `<@${userId}> is not a member of this server.` };
+      }
+
+      const tagLine = explanation.tagGuildId === null
+        ? `<@${userId}> is not wearing a server tag.`
+        : explanation.tagGuildId === guildId
+          ? `<@${userId}> has been wearing this server's tag for ${explanation.daysWorn} day(s).`
+          : `<@${userId}> is wearing the tag of server \`${explanation.tagGuildId}\`.`;
+
+      const eligibilityLine = explanation.eligibility.status === 'ignored'
+        ? `Their roles are left as they are: ${explanation.eligibility.reason}.`
+        : explanation.eligibility.status === 'withheld'
+          ? `They can't receive tag roles: ${explanation.eligibility.reason}.`
+          : null;
+
+      const roleLines = explanation.roles.map(role => {
+        const source = role.tierDays !== undefined
+          ? `this server's tag for ${role.tierDays} days`
+          : role.sourceGuildId === guildId ? 'this server\'s tag' : `tag from \`${role.sourceGuildId}\``;
+        const state = role.shouldHaveRole === role.hasRole
+          ? 'in sync'
+          : role.shouldHaveRole
+            ? 'will be added on the next sync'
+            : 'will be removed on the next sync';
+        return `• <@&${role.roleId}> (${source}): should have ${role.shouldHaveRole ? '✅' : '❌'}, has ${role.hasRole ? '✅' : '❌'} — ${state}`;
+      });
+
+      return { content: [tagLine, eligibilityLine, ...roleLines].filter(Boolean).join('\n') };
+    }
+  },
+
+  config: {
+    requiresManageGuild: true,
+    async execute({ guildId, options }) {
+      const roleId = getOption(options, 'role');
+      const logChannelId = getOption(options, 'log');
+      if (!roleId) {
+        return { content: 'Please specify a role.' };
+      }
+
+      const existing = await getGuildConfig(guildId);
+      let config: Awaited<ReturnType<typeof saveGuildConfig>>;
+      try {
+        config = await saveGuildConfig(guildId, {
+          roleId,
+          logChannelId: logChannelId ?? existing?.logChannelId ?? null,
+        });
+      } catch (error) {
+        if (error instanceof GuildConfigConflictError) {
+          return { content: `${error.message}.` };
+        }
+        throw error;
+      }
+
+      // Report setup problems with the saved configuration right away
+      const health = await botService.checkHealth(config).catch(error => {
+        logger.error('Error checking guild health after configuration change', { guildId, error });
+        return null;
+      });
+
+      botService.syncGuild(guildId).catch(error => {
+        logger.error('Error syncing guild after configuration change', { guildId, error });
+      });
+
+      const problems = health?.problems.map(problem => `• ${problem.severity === 'error' ? '❌' : '⚠️'} ${problem.message}`) ?? [];
+      return {
+        content: [
+          `Tag role set to <@&${config.roleId}>${config.logChannelId ? `, logging to <#${config.logChannelId}>` : ''}.`,
+          config.previewMode ? 'Preview mode is on, so no roles will change until you turn it off in the dashboard.' : null,
+          ...(problems.length > 0 ? ['Setup problems:', ...problems] : []),
+        ].filter(Boolean).join('\n')
+      };
+    }
+  },
+};
+
+/**
+ * Routes an APPLICATION_COMMAND interaction to its handler. Permission checks and
+ * validation are answered immediately; the command itself runs after a deferred
+ * response so slow syncs do not exceed Discord's 3 second response window.
+ * @async
+ * @param {DiscordInteraction} interaction - The verified interaction
+ * @returns {Promise<InteractionResponse>} The initial interaction response
+ */
+export async function handleCommand(interaction: DiscordInteraction): Promise<InteractionResponse> {
+  if (interaction.data?.name !== 'tagrole') {
+    return ephemeral('Unknown command.');
+  }
+
+  if (!interaction.guild_id || !interaction.member) {
+    return ephemeral('This command can only be used in a server.');
+  }
+
+  const subcommandOption = interaction.data.options?.find(option => option.type === SUBCOMMAND_OPTION);
+  const subcommand = subcommandOption ? subcommands[subcommandOption.name] : undefined;
+  if (!subcommandOption || !subcommand) {
+    return ephemeral('Unknown subcommand.');
+  }
+
+  if (subcommand.requiresManageGuild && !canManageGuild(interaction.member.permissions)) {
+    return ephemeral('You need the Manage Server permission to use this command.');
+  }
+
+  const context: CommandContext = {
+    interaction,
+    guildId: interaction.guild_id,
+    userId: interaction.member.user.id,
+    options: subcommandOption.options ?? [],
+  };
+
+  after(async () => {
+    let reply: InteractionReply;
+    try {
+      reply = await subcommand.execute(context);
+    } catch (error) {
+      logger.error('Error handling /tagrole command', { subcommand: subcommandOption.name, error });
+      reply = { content: 'Something went wrong while running this command. Please try again later.' };
+    }
+    await editOriginalResponse(interaction, reply);
+  });
+
+  return {
+    type: DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+    data: { flags: EPHEMERAL }
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * @file eligibility.ts
+ * @description Evaluates a guild's eligibility rules for a member
+ * @module services/eligibility
+ */
+
+import { GuildMember } from 'discord.js';
+import { EligibilityRules } from '@/types/guild';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the bot manages a member's tag roles
+ * - `eligible`: roles follow the tag the member wears
+ * - `ignored`: the member's roles are left exactly as they are
+ * - `withheld`: the member may not hold tag roles, so any they have are removed
+ * @typedef {'eligible' | 'ignored' | 'withheld'} EligibilityStatus
+ */
+export type EligibilityStatus = 'eligible' | 'ignored' | 'withheld';
+
+/**
+ * Result of evaluating the eligibility rules for a member
+ * @interface Eligibility
+ * @property {EligibilityStatus} status - How the member's roles are managed
+ * @property {string | null} reason - Which rule applied, null when eligible
+ */
+export interface Eligibility {
+  status: EligibilityStatus;
+  reason: string | null;
+}
+
+/**
+ * Evaluates eligibility rules for a member. Bots and exempt members are ignored so staff
+ * roles are never touched; missing the required role or joining too recently withholds roles.
+ * @param {GuildMember} member - The member to evaluate
+ * @param {EligibilityRules} rules - The guild's rules
+ * @param {number} [now=Date.now()] - The current time
+ * @returns {Eligibility} The member's eligibility
+ */
+export function checkEligibility(member: GuildMember, rules: EligibilityRules, now: number = Date.now()): Eligibility {
+  if (rules.ignoreBots && member.user.bot) {
+    return { status: 'ignored', reason: 'bot account' };
+  }
+
+  const exemptRoleId = rules.exemptRoleIds.find(roleId => member.roles.cache.has(roleId));
+  if (exemptRoleId) {
+    return { status: 'ignored', reason: `has exempt role <@&${exemptRoleId}>` };
+  }
+
+  if (rules.requiredRoleId && !member.roles.cache.has(rules.requiredRoleId)) {
+    return { status: 'withheld', reason: `missing required role <@&${rules.requiredRoleId}>` };
+  }
+
+  // Members without a known join date are not held back
+  if (rules.minMembershipDays > 0 && member.joinedTimestamp !== null
+    && now - member.joinedTimestamp < rules.minMembershipDays * DAY_MS) {
+    return { status: 'withheld', reason: `joined less than ${rules.minMembershipDays} day(s) ago` };
+  }
+
+  return { status: 'eligible', reason: null };
+}
@@ -0,0 +1,154 @@
+/**
+ * @file health-check.ts
+ * @description Preflight checks that the bot can manage a guild's configured roles and post to its channels
+ * @module services/health-check
+ */
+
+import { Guild, GuildMember, PermissionFlagsBits, PermissionResolvable } from 'discord.js';
+import type { GuildConfig } from '@/services/bot';
+import { GuildHealthProblem } from '@/types/guild';
+
+const LOG_CHANNEL_PERMISSIONS: Array<[PermissionResolvable, string]> = [
+  [PermissionFlagsBits.ViewChannel, 'View Channel'],
+  [PermissionFlagsBits.SendMessages, 'Send Messages'],
+  [PermissionFlagsBits.EmbedLinks, 'Embed Links'],
+  [PermissionFlagsBits.AttachFiles, 'Attach Files'],
+];
+
+const SHOUTOUT_CHANNEL_PERMISSIONS: Array<[PermissionResolvable, string]> = [
+  [PermissionFlagsBits.ViewChannel, 'View Channel'],
+  [PermissionFlagsBits.SendMessages, 'Send Messages'],
+];
+
+/**
+ * Checks that the bot can assign a role
+ * @param {Guild} guild - The guild
+ * @param {GuildMember} me - The bot's member in the guild
+ * @param {string} roleId - The role to check
+ * @param {string} label - How the role is referred to in messages
+ * @param {'error' | 'warning'} missingSeverity - Severity when the role was deleted
+ * @returns {GuildHealthProblem | null} The problem, or null if the role can be assigned
+ */
+function checkRole(
+  guild: Guild,
+  me: GuildMember,
+  roleId: string,
+  label: string,
+  missingSeverity: 'error' | 'warning'
+): GuildHealthProblem | null {
+  const role = guild.roles.cache.get(roleId);
+  if (!role) {
+    return { code: 'role_missing', severity: missingSeverity, message: `The ${label} no longer exists`, roleId };
+  }
+  if (role.managed) {
+    return { code: 'role_managed', severity: 'error', message: `The ${label} @${role.name} is managed by an integration and cannot be assigned`, roleId };
+  }
+  if (role.comparePositionTo(me.roles.highest) >= 0) {
+    return {
+      code: 'role_above_bot',
+      severity: 'error',
+      message: `The ${label} @${role.name} is not below the bot's highest role @${me.roles.highest.name}; move the bot's role above it`,
+      roleId
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks that the bot can post to a channel
+ * @param {Guild} guild - The guild
+ * @param {GuildMember} me - The bot's member in the guild
+ * @param {string} channelId - The channel to check
+ * @param {string} label - How the channel is referred to in messages
+ * @param {'error' | 'warning'} missingSeverity - Severity when the channel was deleted
+ * @param {Array<[PermissionResolvable, string]>} required - The permissions needed and their names
+ * @returns {GuildHealthProblem | null} The problem, or null if the bot can post there
+ */
+function checkChannel(
+  guild: Guild,
+  me: GuildMember,
+  channelId: string,
+  label: string,
+  missingSeverity: 'error' | 'warning',
+  required: Array<[PermissionResolvable, string]>
+): GuildHealthProblem | null {
+  const channel = guild.channels.cache.get(channelId);
+  if (!channel) {
+    return { code: 'channel_missing', severity: missingSeverity, message: `The ${label} no longer exists`, channelId };
+  }
+  if (!channel.isTextBased()) {
+    return { code: 'channel_not_text', severity: 'warning', message: `The ${label} #${channel.name} is not a text channel`, channelId };
+  }
+
+  const permissions = channel.permissionsFor(me);
+  const missing = required.filter(([flag]) => !permissions.has(flag)).map(([, name]) => name);
+  if (missing.length > 0) {
+    return {
+      code: 'channel_permissions',
+      severity: 'warning',
+      message: `The bot is missing ${missing.join(', ')} in the ${label} #${channel.name}`,
+      channelId
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks a guild's configuration against the bot's current roles and permissions. Errors are
+ * problems that would make a sync fail for every member or strip roles wrongly; warnings only
+ * affect an optional feature.
+ * @param {Guild | undefined} guild - The guild, undefined if the bot is not in it
+ * @param {GuildMember | null} me - The bot's member in the guild
+ * @param {GuildConfig} config - The guild configuration
+ * @returns {GuildHealthProblem[]} The problems found, empty when the guild is healthy
+ */
+export function checkGuildHealth(guild: Guild | undefined, me: GuildMember | null, config: GuildConfig): GuildHealthProblem[] {
+  if (!guild || !me) {
+    return [{ code: 'bot_not_in_guild', severity: 'error', message: 'The bot is not a member of this server' }];
+  }
+
+  const problems: GuildHealthProblem[] = [];
+
+  if (!me.permissions.has(PermissionFlagsBits.ManageRoles)) {
+    problems.push({ code: 'missing_manage_roles', severity: 'error', message: 'The bot is missing the Manage Roles permission' });
+  }
+
+  // Deleted mapping and tier roles are skipped during syncs, so they only warn
+  const roleChecks: Array<[string, string, 'error' | 'warning']> = [
+    [config.roleId, 'tag role', 'error'],
+    ...config.mappings.map((mapping): [string, string, 'error' | 'warning'] =>
+      [mapping.roleId, `role for tag ${mapping.sourceGuildId}`, 'warning']),
+    ...config.tiers.map((tier): [string, string, 'error' | 'warning'] =>
+      [tier.roleId, `${tier.days}-day tenure role`, 'warning']),
+  ];
+  for (const [roleId, label, missingSeverity] of roleChecks) {
+    const problem = checkRole(guild, me, roleId, label, missingSeverity);
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  // Without its required role nobody would be eligible and every tag role would be removed
+  if (config.requiredRoleId && !guild.roles.cache.has(config.requiredRoleId)) {
+    problems.push({ code: 'role_missing', severity: 'error', message: 'The required role no longer exists', roleId: config.requiredRoleId });
+  }
+  for (const { roleId } of config.exemptRoles) {
+    if (!guild.roles.cache.has(roleId)) {
+      problems.push({ code: 'role_missing', severity: 'warning', message: 'An exempt role no longer exists', roleId });
+    }
+  }
+
+  // Syncs are skipped while the log channel is missing so changes never go unlogged
+  const channelChecks: Array<[string | null, string, 'error' | 'warning', Array<[PermissionResolvable, string]>]> = [
+    [config.logChannelId, 'log channel', 'error', LOG_CHANNEL_PERMISSIONS],
+    [config.shoutoutChannelId, 'shout-out channel', 'warning', SHOUTOUT_CHANNEL_PERMISSIONS],
+  ];
+  for (const [channelId, label, missingSeverity, required] of channelChecks) {
+    const problem = channelId ? checkChannel(guild, me, channelId, label, missingSeverity, required) : null;
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  return problems;
+}
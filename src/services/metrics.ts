@@ -0,0 +1,110 @@
+/**
+ * @file metrics.ts
+ * @description Collects bot, sync and process metrics for the Prometheus metrics endpoint
+ * @module services/metrics
+ */
+
+import { prisma } from '@/lib/prisma';
+import { MetricFamily, renderOpenMetrics } from '@/lib/openmetrics';
+import { botService } from '@/services/bot';
+
+/**
+ * Collects every metric and renders them in the OpenMetrics text format
+ * @async
+ * @returns {Promise<string>} The exposition
+ */
+export async function collectMetrics(): Promise<string> {
+  const status = botService.getStatusInfo();
+  const roleChanges = botService.getRoleChangeCounts();
+  const memory = process.memoryUsage();
+  const configsByStatus = await prisma.guildConfig.groupBy({
+    by: ['status'],
+    _count: { _all: true },
+  });
+
+  const families: MetricFamily[] = [
+    {
+      name: 'tagrole_gateway_ready',
+      help: 'Whether the Discord gateway connection is ready',
+      type: 'gauge',
+      samples: [{ value: status.status === 'ready' ? 1 : 0 }],
+    },
+    {
+      name: 'tagrole_gateway_ping_seconds',
+      help: 'Gateway heartbeat round trip time, -1 before the first heartbeat',
+      type: 'gauge',
+      unit: 'seconds',
+      samples: [{ value: status.ping >= 0 ? status.ping / 1000 : -1 }],
+    },
+    {
+      name: 'tagrole_uptime_seconds',
+      help: 'Time since the Discord client became ready',
+      type: 'gauge',
+      unit: 'seconds',
+      samples: [{ value: status.uptime / 1000 }],
+    },
+    {
+      name: 'tagrole_guilds',
+      help: 'Guilds the bot is a member of',
+      type: 'gauge',
+      samples: [{ value: status.guilds }],
+    },
+    {
+      name: 'tagrole_configured_guilds',
+      help: 'Guild configurations by status',
+      type: 'gauge',
+      samples: configsByStatus.map(group => ({ labels: { status: group.status }, value: group._count._all })),
+    },
+    {
+      name: 'tagrole_sync_duration_seconds',
+      help: 'Duration of full guild syncs',
+      type: 'histogram',
+      unit: 'seconds',
+      histograms: Array.from(botService.getSyncDurations(), ([guildId, histogram]) => ({
+        labels: { guild_id: guildId },
+        histogram,
+      })),
+    },
+    {
+      name: 'tagrole_role_changes',
+      help: 'Tag roles added and removed',
+      type: 'counter',
+      samples: [
+        { labels: { action: 'add' }, value: roleChanges.add },
+        { labels: { action: 'remove' }, value: roleChanges.remove },
+      ],
+    },
+    {
+      name: 'tagrole_rest_errors',
+      help: 'Discord REST requests that failed after retries, by Discord error code, HTTP status or network error code',
+      type: 'counter',
+      samples: Object.entries(status.restQueue.errorsByCode).map(([code, value]) => ({ labels: { code }, value })),
+    },
+    {
+      name: 'tagrole_rate_limit_hits',
+      help: 'Rate limits reported by Discord',
+      type: 'counter',
+      samples: [{ value: status.restQueue.rateLimitHits }],
+    },
+    {
+      name: 'tagrole_rest_queue_depth',
+      help: 'Discord REST tasks waiting or running',
+      type: 'gauge',
+      samples: [{ value: status.restQueue.queued + status.restQueue.inFlight }],
+    },
+    {
+      name: 'tagrole_process_memory_bytes',
+      help: 'Memory used by the process',
+      type: 'gauge',
+      unit: 'bytes',
+      samples: [
+        { labels: { type: 'rss' }, value: memory.rss },
+        { labels: { type: 'heap_total' }, value: memory.heapTotal },
+        { labels: { type: 'heap_used' }, value: memory.heapUsed },
+        { labels: { type: 'external' }, value: memory.external },
+      ],
+    },
+  ];
+
+  return renderOpenMetrics(families);
+}
@@ -0,0 +1,131 @@
+/**
+ * @file probes.ts
+ * @description Liveness and readiness checks for container orchestrator probes; they only observe and never start the bot
+ * @module services/probes
+ */
+
+import { prisma } from '@/lib/prisma';
+import { botService } from '@/services/bot';
+
+const DATABASE_TIMEOUT = 2000; // 2 seconds
+// Full syncs missed before the sync loop is considered stuck
+const MAX_MISSED_SYNCS = 2;
+
+/**
+ * Result of a single readiness check
+ * @interface ProbeCheck
+ * @property {boolean} ok - Whether the check passed
+ * @property {string} [error] - Why the check failed
+ */
+interface ProbeCheck {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Time since a guild's last successful sync
+ * @interface GuildSyncAge
+ * @property {string} guildId - The guild ID
+ * @property {number | null} lastCompletedAt - When the last successful sync completed
+ * @property {number | null} sinceLastSyncMs - Milliseconds since then, null if the guild has not synced since startup
+ * @property {string | null} lastError - Error message of the last failed sync
+ */
+interface GuildSyncAge {
+  guildId: string;
+  lastCompletedAt: number | null;
+  sinceLastSyncMs: number | null;
+  lastError: string | null;
+}
+
+/**
+ * Readiness of the app to serve traffic
+ * @interface Readiness
+ * @property {boolean} ready - Whether every check passed
+ * @property {Object} checks - The individual checks
+ * @property {GuildSyncAge[]} guilds - Time since each guild's last successful sync, reported but not checked
+ */
+export interface Readiness {
+  ready: boolean;
+  checks: {
+    gateway: ProbeCheck & { status: string; ping: number };
+    database: ProbeCheck & { latencyMs: number | null };
+    syncLoop: ProbeCheck & { lastFullSync: number | null; sinceLastFullSyncMs: number | null };
+  };
+  guilds: GuildSyncAge[];
+}
+
+/**
+ * Reports that the process is running and its event loop responsive
+ * @returns {{alive: boolean, uptimeSeconds: number}} The liveness
+ */
+export function checkLiveness(): { alive: boolean; uptimeSeconds: number } {
+  return { alive: true, uptimeSeconds: process.uptime() };
+}
+
+/**
+ * Pings the database, giving up after a timeout
+ * @async
+ * @returns {Promise<ProbeCheck & {latencyMs: number | null}>} The check result
+ */
+async function checkDatabase(): Promise<ProbeCheck & { latencyMs: number | null }> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      prisma.$queryRaw`SELECT 1`,
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No response within ${DATABASE_TIMEOUT}ms`)), DATABASE_TIMEOUT);
+      }),
+    ]);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return { ok: false, latencyMs: null, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Checks the gateway connection, the database and the sync loop. The result names guilds and
+ * carries raw errors, so callers only show more than `ready` to operators.
+ * @async
+ * @returns {Promise<Readiness>} The readiness and the result of each check
+ */
+export async function checkReadiness(): Promise<Readiness> {
+  const status = botService.getStatusInfo();
+  const now = Date.now();
+
+  const gatewayReady = status.status === 'ready' && !status.initializationError;
+  const gateway = {
+    ok: gatewayReady,
+    status: botService.isStopped() ? 'stopped' : status.status,
+    ping: status.ping,
+    error: gatewayReady ? undefined : status.initializationError ?? 'Gateway is not connected',
+  };
+
+  const database = await checkDatabase();
+
+  // A freshly started bot hasn't had the chance to finish a sync yet
+  const maxSyncAge = status.syncIntervalMs * MAX_MISSED_SYNCS;
+  const sinceLastFullSyncMs = status.lastFullSync ? now - status.lastFullSync : null;
+  const syncStuck = gatewayReady && status.uptime > maxSyncAge && (sinceLastFullSyncMs === null || sinceLastFullSyncMs > maxSyncAge);
+  const syncLoop = {
+    ok: !syncStuck,
+    lastFullSync: status.lastFullSync || null,
+    sinceLastFullSyncMs,
+    error: syncStuck ? `No full sync completed in the last ${Math.round(maxSyncAge / 60000)} minutes` : undefined,
+  };
+
+  const guilds = Object.entries(status.syncMetrics).map(([guildId, metrics]) => ({
+    guildId,
+    lastCompletedAt: metrics.lastCompletedAt,
+    sinceLastSyncMs: metrics.lastCompletedAt ? now - metrics.lastCompletedAt : null,
+    lastError: metrics.lastError,
+  }));
+
+  return {
+    ready: gateway.ok && database.ok && syncLoop.ok,
+    checks: { gateway, database, syncLoop },
+    guilds,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * @file rest-scheduler.test.ts
+ * @description Tests that the REST scheduler waits on the buckets discord.js reports
+ * @module services/rest-scheduler.test
+ */
+
+import { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client, RESTEvents } from 'discord.js';
+import { MEMBER_ROLE_ROUTE, RestScheduler } from '@/services/rest-scheduler';
+
+describe('RestScheduler', () => {
+  let rest: EventEmitter;
+  let scheduler: RestScheduler;
+
+  /**
+   * Reports an exhausted bucket for a request path, as discord.js does after a response
+   * @param {string} path - The request path
+   * @param {number} resetAfterSeconds - Seconds until the bucket resets
+   */
+  const exhaust = (path: string, resetAfterSeconds: number) => {
+    const headers = new Headers({
+      'x-ratelimit-limit': '10',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset-after': String(resetAfterSeconds),
+    });
+    rest.emit(RESTEvents.Response, { path, route: path, method: 'PUT' }, { headers });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    rest = new EventEmitter();
+    scheduler = new RestScheduler();
+    scheduler.attach({ rest } as unknown as Client);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['18-digit', '123456789012345678'],
+    ['20-digit', '12345678901234567890'],
+  ])('waits for an exhausted bucket of a guild with a %s ID', async (_label, guildId) => {
+    exhaust(`/guilds/${guildId}/members/111111111111111111/roles/222222222222222222`, 5);
+    const task = vi.fn().mockResolvedValue('done');
+
+    const result = scheduler.request(MEMBER_ROLE_ROUTE, guildId, task);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(task).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe('done');
+    expect(scheduler.getStats().limitedBuckets).toBe(0);
+  });
+
+  it('sends a failing request once and counts it by error code', async () => {
+    const task = vi.fn().mockRejectedValue(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+
+    await expect(scheduler.request(MEMBER_ROLE_ROUTE, '123456789012345678', task)).rejects.toThrow('socket hang up');
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats().errorsByCode).toEqual({ ECONNRESET: 1 });
+  });
+});
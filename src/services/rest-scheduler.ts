@@ -0,0 +1,337 @@
+/**
+ * @file rest-scheduler.ts
+ * @description Rate limit aware scheduling for Discord REST calls
+ * @module services/rest-scheduler
+ */
+
+import {
+  Client,
+  RESTEvents,
+  RateLimitData,
+  APIRequest,
+  ResponseLike,
+  HTTPError,
+  DiscordAPIError
+} from 'discord.js';
+import { logger } from '@/utils/logger';
+
+/**
+ * Bucket route of member role additions and removals, which share a per-guild bucket
+ * @type {string}
+ */
+export const MEMBER_ROLE_ROUTE = '/guilds/:id/members/:id/roles/:id';
+
+/**
+ * Bucket route of member list pages
+ * @type {string}
+ */
+export const MEMBER_LIST_ROUTE = '/guilds/:id/members';
+
+// discord.js only recognizes IDs of up to 19 digits in its routes, but snowflakes grow to 20
+const SNOWFLAKE_PATTERN = /\d{17,20}/g;
+const MAJOR_PARAMETER_PATTERN = /^\/(?:channels|guilds|webhooks)\/(\d{17,20})/;
+
+/**
+ * Last known state of a rate limit bucket
+ * @interface BucketState
+ * @property {number} limit - Requests allowed per window
+ * @property {number} remaining - Requests left in the current window
+ * @property {number} resetAt - When the window resets, in milliseconds since the epoch
+ */
+interface BucketState {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * A queued task waiting for its guild's queue
+ * @interface QueuedTask
+ * @property {Function} run - Runs the task
+ */
+interface QueuedTask {
+  run: () => Promise<void>;
+}
+
+/**
+ * Queue and rate limit statistics reported in the bot status
+ * @interface RestQueueStats
+ * @property {number} queued - Tasks waiting across all guilds
+ * @property {number} inFlight - Tasks currently running
+ * @property {Record<string, number>} byGuild - Waiting and running tasks per guild
+ * @property {number} limitedBuckets - Buckets currently exhausted
+ * @property {number | null} globalResetAt - When a global rate limit ends, if one is active
+ * @property {number} rateLimitHits - Rate limits reported by discord.js since start
+ * @property {Record<string, number>} errorsByCode - Requests that failed for good, by Discord error code, HTTP status or network error code
+ */
+export interface RestQueueStats {
+  queued: number;
+  inFlight: number;
+  byGuild: Record<string, number>;
+  limitedBuckets: number;
+  globalResetAt: number | null;
+  rateLimitHits: number;
+  errorsByCode: Record<string, number>;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ * @param {number} ms - How long to wait
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks Discord rate limit buckets from discord.js REST events and schedules
+ * requests around them. Role mutations are queued per guild so one large guild
+ * cannot starve the others. Transient failures are retried by discord.js itself,
+ * so each request is sent through it once.
+ * @class RestScheduler
+ */
+export class RestScheduler {
+  private buckets = new Map<string, BucketState>();
+  private queues = new Map<string, QueuedTask[]>();
+  private running = new Map<string, number>();
+  private idleWaiters: Array<() => void> = [];
+  private globalResetAt = 0;
+  private rateLimitHits = 0;
+  private errorsByCode = new Map<string, number>();
+
+  /**
+   * Starts tracking rate limits reported by a client's REST manager
+   * @param {Client} client - The Discord client
+   */
+  attach(client: Client) {
+    client.rest.on(RESTEvents.Response, (request, response) => this.handleResponse(request, response));
+    client.rest.on(RESTEvents.RateLimited, info => this.handleRateLimited(info));
+  }
+
+  /**
+   * Forgets every tracked bucket, e.g. when the client is replaced
+   */
+  reset() {
+    this.buckets.clear();
+    this.globalResetAt = 0;
+  }
+
+  /**
+   * Queues a task behind earlier tasks for the same guild and runs it once the
+   * bucket it uses has capacity
+   * @template T
+   * @param {string} guildId - The guild the task belongs to
+   * @param {string} route - The bucket route the task requests
+   * @param {Function} task - The task to run
+   * @returns {Promise<T>} The task's result
+   */
+  schedule<T>(guildId: string, route: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(guildId) ?? [];
+      queue.push({
+        run: () => this.request(route, guildId, task).then(resolve, reject),
+      });
+      this.queues.set(guildId, queue);
+      this.pump(guildId);
+    });
+  }
+
+  /**
+   * Runs a request once its bucket has capacity, counting it by error code if it fails
+   * @template T
+   * @param {string} route - The bucket route the request uses
+   * @param {string} majorParameter - The guild or channel ID the bucket is scoped to
+   * @param {Function} task - The request to run
+   * @returns {Promise<T>} The request's result
+   */
+  async request<T>(route: string, majorParameter: string, task: () => Promise<T>): Promise<T> {
+    await this.waitForBucket(route, majorParameter);
+    try {
+      return await task();
+    } catch (error) {
+      const code = this.getErrorCode(error);
+      this.errorsByCode.set(code, (this.errorsByCode.get(code) ?? 0) + 1);
+      throw error;
+    }
+  }
+
+  /**
+   * Waits until every queued task has finished
+   * @returns {Promise<void>}
+   */
+  idle(): Promise<void> {
+    if (this.queues.size === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Gets queue depth and rate limit statistics
+   * @returns {RestQueueStats} The current statistics
+   */
+  getStats(): RestQueueStats {
+    const now = Date.now();
+    const byGuild: Record<string, number> = {};
+    let queued = 0;
+    let inFlight = 0;
+
+    for (const [guildId, queue] of this.queues) {
+      byGuild[guildId] = queue.length;
+      queued += queue.length;
+    }
+    for (const [guildId, count] of this.running) {
+      byGuild[guildId] = (byGuild[guildId] ?? 0) + count;
+      inFlight += count;
+    }
+
+    return {
+      queued,
+      inFlight,
+      byGuild,
+      limitedBuckets: Array.from(this.buckets.values())
+        .filter(bucket => bucket.remaining <= 0 && bucket.resetAt > now).length,
+      globalResetAt: this.globalResetAt > now ? this.globalResetAt : null,
+      rateLimitHits: this.rateLimitHits,
+      errorsByCode: Object.fromEntries(this.errorsByCode),
+    };
+  }
+
+  /**
+   * Runs the next task of a guild's queue if none is running
+   * @private
+   * @param {string} guildId - The guild whose queue to advance
+   */
+  private pump(guildId: string) {
+    if (this.running.has(guildId)) {
+      return;
+    }
+
+    const queue = this.queues.get(guildId);
+    const next = queue?.shift();
+    if (!next) {
+      this.queues.delete(guildId);
+      this.notifyIdle();
+      return;
+    }
+
+    this.running.set(guildId, 1);
+    next.run().finally(() => {
+      this.running.delete(guildId);
+      this.pump(guildId);
+    });
+  }
+
+  /**
+   * Resolves idle waiters once nothing is queued or running
+   * @private
+   */
+  private notifyIdle() {
+    if (this.queues.size > 0 || this.running.size > 0) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Waits until a bucket and the global limit have capacity
+   * @private
+   * @async
+   * @param {string} route - The bucket route
+   * @param {string} majorParameter - The guild or channel ID the bucket is scoped to
+   * @returns {Promise<void>}
+   */
+  private async waitForBucket(route: string, majorParameter: string) {
+    const bucket = this.buckets.get(`${route}:${majorParameter}`);
+    const now = Date.now();
+    const resetAt = Math.max(
+      this.globalResetAt,
+      bucket && bucket.remaining <= 0 ? bucket.resetAt : 0
+    );
+
+    if (resetAt > now) {
+      await sleep(resetAt - now);
+    }
+
+    // Reserve a slot so concurrent callers don't all see the same remaining count
+    if (bucket && bucket.resetAt > Date.now()) {
+      bucket.remaining--;
+    }
+  }
+
+  /**
+   * Updates bucket state from a response's rate limit headers
+   * @private
+   * @param {APIRequest} request - The request that was made
+   * @param {ResponseLike} response - The response received
+   */
+  private handleResponse(request: APIRequest, response: ResponseLike) {
+    const limit = response.headers.get('x-ratelimit-limit');
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const resetAfter = response.headers.get('x-ratelimit-reset-after');
+    if (limit === null || remaining === null || resetAfter === null) {
+      return;
+    }
+
+    this.buckets.set(this.getBucketKey(request.path), {
+      limit: Number(limit),
+      remaining: Number(remaining),
+      resetAt: Date.now() + Number(resetAfter) * 1000,
+    });
+  }
+
+  /**
+   * Records a rate limit reported by discord.js
+   * @private
+   * @param {RateLimitData} info - The rate limit details
+   */
+  private handleRateLimited(info: RateLimitData) {
+    this.rateLimitHits++;
+    const resetAt = Date.now() + info.timeToReset;
+
+    if (info.global) {
+      this.globalResetAt = Math.max(this.globalResetAt, resetAt);
+    } else {
+      this.buckets.set(this.getBucketKey(new URL(info.url).pathname.replace(/^\/api\/v\d+/, '')), {
+        limit: info.limit,
+        remaining: 0,
+        resetAt,
+      });
+    }
+    logger.warn('Rate limited by Discord', { method: info.method.toUpperCase(), route: info.route, scope: info.scope, resetMs: info.timeToReset });
+  }
+
+  /**
+   * Builds the key of the bucket a request path uses, matching the route and major parameter
+   * requests are scheduled under
+   * @private
+   * @param {string} path - The request path, without the API prefix or query
+   * @returns {string} The bucket key
+   */
+  private getBucketKey(path: string): string {
+    const route = path.replace(SNOWFLAKE_PATTERN, ':id');
+    const majorParameter = MAJOR_PARAMETER_PATTERN.exec(path)?.[1] ?? 'global';
+    return `${route}:${majorParameter}`;
+  }
+
+  /**
+   * Identifies why a request failed, for error counts
+   * @private
+   * @param {unknown} error - The error thrown by the request
+   * @returns {string} The Discord error code, HTTP status, network error code or `unknown`
+   */
+  private getErrorCode(error: unknown): string {
+    if (error instanceof DiscordAPIError) {
+      return String(error.code);
+    }
+    if (error instanceof HTTPError) {
+      return String(error.status);
+    }
+    if (error instanceof Error) {
+      return (error as Error & { code?: string }).code ?? (error.cause as { code?: string } | undefined)?.code ?? 'unknown';
+    }
+    return 'unknown';
+  }
+}
@@ -0,0 +1,1299 @@
+/**
+ * @file fake-discord.ts
+ * @description In-memory stand-in for the Discord REST API and gateway, so the bot can run offline
+ * @module testing/fake-discord
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Client, GatewayIntentBits } from 'discord.js';
+
+const DISCORD_EPOCH = BigInt(1420070400000);
+const ADMINISTRATOR = BigInt(0x8);
+const ALL_PERMISSIONS = '2251799813685247';
+const HEARTBEAT_INTERVAL = 41250;
+const MEMBER_CHUNK_SIZE = 1000;
+
+/**
+ * A user known to the fake server
+ * @interface FakeUser
+ * @property {string} id - The user's ID
+ * @property {string} username - The user's username
+ * @property {boolean} bot - Whether the user is a bot
+ * @property {string | null} primaryGuildId - ID of the guild whose tag the user is wearing
+ * @property {boolean} dmsBlocked - Whether direct messages to the user fail with error 50007
+ */
+export interface FakeUser {
+  id: string;
+  username: string;
+  bot: boolean;
+  primaryGuildId: string | null;
+  dmsBlocked: boolean;
+}
+
+/**
+ * A role in a fake guild
+ * @interface FakeRole
+ * @property {string} id - The role's ID
+ * @property {string} name - The role's name
+ * @property {number} color - The role's color as an integer
+ * @property {number} position - The role's position in the hierarchy
+ * @property {string} permissions - The role's permissions bitfield
+ * @property {boolean} managed - Whether the role belongs to an integration
+ */
+export interface FakeRole {
+  id: string;
+  name: string;
+  color: number;
+  position: number;
+  permissions: string;
+  managed: boolean;
+}
+
+/**
+ * A channel in a fake guild, or a DM channel
+ * @interface FakeChannel
+ * @property {string} id - The channel's ID
+ * @property {string} name - The channel's name
+ * @property {number} type - The Discord channel type
+ * @property {string | null} guildId - The guild the channel belongs to, null for DMs
+ * @property {string} [recipientId] - The DM recipient
+ */
+export interface FakeChannel {
+  id: string;
+  name: string;
+  type: number;
+  guildId: string | null;
+  recipientId?: string;
+}
+
+/**
+ * A member of a fake guild
+ * @interface FakeMember
+ * @property {string} userId - The member's user ID
+ * @property {string[]} roles - IDs of the member's roles, excluding @everyone
+ * @property {string} joinedAt - When the member joined, as an ISO string
+ */
+export interface FakeMember {
+  userId: string;
+  roles: string[];
+  joinedAt: string;
+}
+
+/**
+ * A fake guild and everything in it
+ * @interface FakeGuild
+ * @property {string} id - The guild's ID
+ * @property {string} name - The guild's name
+ * @property {string} ownerId - The owner's user ID
+ * @property {string[]} features - The guild's feature flags
+ * @property {Map<string, FakeRole>} roles - Roles by ID, including @everyone
+ * @property {Map<string, FakeChannel>} channels - Channels by ID
+ * @property {Map<string, FakeMember>} members - Members by user ID
+ */
+export interface FakeGuild {
+  id: string;
+  name: string;
+  ownerId: string;
+  features: string[];
+  roles: Map<string, FakeRole>;
+  channels: Map<string, FakeChannel>;
+  members: Map<string, FakeMember>;
+}
+
+/**
+ * A message sent through the fake REST API
+ * @interface FakeMessage
+ * @property {string} id - The message ID
+ * @property {string} channelId - The channel the message was sent to
+ * @property {string} content - The message content
+ * @property {unknown[]} embeds - The message embeds
+ * @property {Array<Object>} attachments - Uploaded files with their contents
+ * @property {string} timestamp - When the message was sent, as an ISO string
+ */
+export interface FakeMessage {
+  id: string;
+  channelId: string;
+  content: string;
+  embeds: unknown[];
+  attachments: Array<{ filename: string; content: string }>;
+  timestamp: string;
+}
+
+/**
+ * An error the fake server returns instead of handling a matching request
+ * @interface InjectedError
+ * @property {string} [method] - HTTP method to match, any method when omitted
+ * @property {RegExp} path - Pattern matched against the path without the `/api/v10` prefix
+ * @property {number} status - HTTP status to respond with
+ * @property {number} [code] - Discord JSON error code
+ * @property {string} [message] - Error message
+ * @property {number} [times] - How many requests to fail, every matching request when omitted
+ */
+export interface InjectedError {
+  method?: string;
+  path: RegExp;
+  status: number;
+  code?: number;
+  message?: string;
+  times?: number;
+}
+
+/**
+ * Options for the fake server
+ * @interface FakeDiscordOptions
+ * @property {string} [token] - The bot token accepted by REST and the gateway
+ * @property {string} [botUserId] - The bot user's ID
+ * @property {string} [applicationId] - The application ID
+ * @property {number} [rateLimit] - Requests allowed per bucket per window
+ * @property {number} [rateLimitWindowMs] - Length of a rate limit window
+ */
+export interface FakeDiscordOptions {
+  token?: string;
+  botUserId?: string;
+  applicationId?: string;
+  rateLimit?: number;
+  rateLimitWindowMs?: number;
+}
+
+/**
+ * A parsed REST request
+ * @interface FakeRequest
+ * @property {string} method - HTTP method
+ * @property {string} path - Path without the `/api/v10` prefix
+ * @property {URLSearchParams} query - Query parameters
+ * @property {any} body - Parsed JSON body or `payload_json` part
+ * @property {Array<Object>} files - Uploaded files
+ * @property {string | undefined} authorization - The Authorization header
+ */
+interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+  files: Array<{ filename: string; content: string }>;
+  authorization: string | undefined;
+}
+
+/**
+ * A REST response produced by a route handler
+ * @interface FakeResponse
+ * @property {number} status - HTTP status
+ * @property {unknown} [body] - JSON body
+ */
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+}
+
+/**
+ * Error thrown by route handlers to produce a Discord-style JSON error
+ * @class FakeDiscordError
+ */
+class FakeDiscordError extends Error {
+  constructor(public status: number, public code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-memory Discord stand-in. Serves the REST routes the bot uses (guilds, members with
+ * `primary_guild`, roles, channels, messages, DMs and interaction webhooks) with rate limit
+ * headers, plus a JSON gateway that identifies, answers member requests and dispatches
+ * events when state changes.
+ * @class FakeDiscordServer
+ */
+export class FakeDiscordServer {
+  readonly token: string;
+  readonly botUserId: string;
+  readonly applicationId: string;
+  readonly users = new Map<string, FakeUser>();
+  readonly guilds = new Map<string, FakeGuild>();
+  readonly messages: FakeMessage[] = [];
+  readonly interactionResponses: Array<{ token: string; body: any }> = [];
+  readonly requests: Array<{ method: string; path: string }> = [];
+
+  private readonly rateLimit: number;
+  private readonly rateLimitWindowMs: number;
+  private readonly buckets = new Map<string, { remaining: number; resetAt: number }>();
+  private readonly oauthTokens = new Map<string, string>();
+  private readonly dmChannels = new Map<string, FakeChannel>();
+  private injectedErrors: InjectedError[] = [];
+  private server: http.Server | null = null;
+  private gateway: WebSocketServer | null = null;
+  private readonly sockets = new Set<WebSocket>();
+  private sequence = 0;
+  private idCounter = BigInt(0);
+  private port = 0;
+
+  constructor(options: FakeDiscordOptions = {}) {
+    this.token = options.token ?? 'fake-bot-token';
+    this.botUserId = options.botUserId ?? this.nextId();
+    this.applicationId = options.applicationId ?? this.botUserId;
+    this.rateLimit = options.rateLimit ?? 50;
+    this.rateLimitWindowMs = options.rateLimitWindowMs ?? 1000;
+    this.users.set(this.botUserId, {
+      id: this.botUserId,
+      username: 'Tag Role Bot',
+      bot: true,
+      primaryGuildId: null,
+      dmsBlocked: true,
+    });
+  }
+
+  /**
+   * Base URL to use as the REST `api` option or `DISCORD_API_URL`
+   * @returns {string} The API base URL
+   */
+  get apiUrl(): string {
+    return `http://127.0.0.1:${this.port}/api`;
+  }
+
+  /**
+   * URL of the fake gateway
+   * @returns {string} The gateway URL
+   */
+  get gatewayUrl(): string {
+    return `ws://127.0.0.1:${this.port}/gateway`;
+  }
+
+  /**
+   * Starts listening on the given port, or a random free port
+   * @async
+   * @param {number} [port=0] - The port to listen on
+   * @returns {Promise<void>}
+   */
+  async start(port = 0): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handleHttp(req, res).catch(error => {
+        console.error('Fake Discord request failed:', error);
+        this.send(res, { status: 500, body: { message: 'Internal Server Error', code: 0 } });
+      });
+    });
+    this.gateway = new WebSocketServer({ server: this.server, path: '/gateway' });
+    this.gateway.on('connection', socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Closes every gateway connection and stops the server
+   * @async
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.terminate();
+    }
+    this.sockets.clear();
+    await new Promise<void>(resolve => this.gateway ? this.gateway.close(() => resolve()) : resolve());
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    this.gateway = null;
+    this.server = null;
+  }
+
+  /**
+   * Creates a discord.js client pointed at this server, suitable as a BotService client factory
+   * @returns {Client} The client
+   */
+  createClient(): Client {
+    return new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMembers,
+      ],
+      rest: {
+        api: this.apiUrl,
+        timeout: 5000,
+      },
+    });
+  }
+
+  /**
+   * Generates a snowflake ID
+   * @returns {string} The ID
+   */
+  nextId(): string {
+    this.idCounter += BigInt(1);
+    return (((BigInt(Date.now()) - DISCORD_EPOCH) << BigInt(22)) | (this.idCounter & BigInt(0xfff))).toString();
+  }
+
+  /**
+   * Adds a guild with an @everyone role and a managed bot role above every other role
+   * @param {Object} [data] - Guild fields
+   * @returns {FakeGuild} The guild
+   */
+  addGuild(data: { id?: string; name?: string; ownerId?: string; features?: string[] } = {}): FakeGuild {
+    const id = data.id ?? this.nextId();
+    const guild: FakeGuild = {
+      id,
+      name: data.name ?? `Guild ${id}`,
+      ownerId: data.ownerId ?? this.botUserId,
+      features: data.features ?? ['GUILD_TAGS'],
+      roles: new Map(),
+      channels: new Map(),
+      members: new Map(),
+    };
+    guild.roles.set(id, { id, name: '@everyone', color: 0, position: 0, permissions: '104324673', managed: false });
+
+    const botRoleId = this.nextId();
+    guild.roles.set(botRoleId, {
+      id: botRoleId,
+      name: 'Tag Role Bot',
+      color: 0,
+      position: 100,
+      permissions: ADMINISTRATOR.toString(),
+      managed: true,
+    });
+    guild.members.set(this.botUserId, { userId: this.botUserId, roles: [botRoleId], joinedAt: new Date().toISOString() });
+
+    this.guilds.set(id, guild);
+    this.dispatch('GUILD_CREATE', this.serializeGatewayGuild(guild));
+    return guild;
+  }
+
+  /**
+   * Removes the bot from a guild
+   * @param {string} guildId - The guild to remove
+   */
+  removeGuild(guildId: string) {
+    this.guilds.delete(guildId);
+    this.dispatch('GUILD_DELETE', { id: guildId, unavailable: false });
+  }
+
+  /**
+   * Adds a role to a guild
+   * @param {string} guildId - The guild to add the role to
+   * @param {Object} [data] - Role fields
+   * @returns {FakeRole} The role
+   */
+  addRole(guildId: string, data: Partial<Omit<FakeRole, 'id'>> & { id?: string } = {}): FakeRole {
+    const guild = this.requireGuild(guildId);
+    const role: FakeRole = {
+      id: data.id ?? this.nextId(),
+      name: data.name ?? 'role',
+      color: data.color ?? 0,
+      position: data.position ?? guild.roles.size,
+      permissions: data.permissions ?? '0',
+      managed: data.managed ?? false,
+    };
+    guild.roles.set(role.id, role);
+    this.dispatch('GUILD_ROLE_CREATE', { guild_id: guildId, role: this.serializeRole(role) });
+    return role;
+  }
+
+  /**
+   * Deletes a role from a guild and from every member holding it
+   * @param {string} guildId - The guild the role belongs to
+   * @param {string} roleId - The role to delete
+   */
+  deleteRole(guildId: string, roleId: string) {
+    const guild = this.requireGuild(guildId);
+    guild.roles.delete(roleId);
+    for (const member of guild.members.values()) {
+      member.roles = member.roles.filter(id => id !== roleId);
+    }
+    this.dispatch('GUILD_ROLE_DELETE', { guild_id: guildId, role_id: roleId });
+  }
+
+  /**
+   * Adds a channel to a guild
+   * @param {string} guildId - The guild to add the channel to
+   * @param {Object} [data] - Channel fields
+   * @returns {FakeChannel} The channel
+   */
+  addChannel(guildId: string, data: { id?: string; name?: string; type?: number } = {}): FakeChannel {
+    const guild = this.requireGuild(guildId);
+    const channel: FakeChannel = {
+      id: data.id ?? this.nextId(),
+      name: data.name ?? 'general',
+      type: data.type ?? 0,
+      guildId,
+    };
+    guild.channels.set(channel.id, channel);
+    this.dispatch('CHANNEL_CREATE', this.serializeChannel(channel));
+    return channel;
+  }
+
+  /**
+   * Deletes a channel from a guild
+   * @param {string} guildId - The guild the channel belongs to
+   * @param {string} channelId - The channel to delete
+   */
+  deleteChannel(guildId: string, channelId: string) {
+    const guild = this.requireGuild(guildId);
+    const channel = guild.channels.get(channelId);
+    if (!channel) {
+      return;
+    }
+    guild.channels.delete(channelId);
+    this.dispatch('CHANNEL_DELETE', this.serializeChannel(channel));
+  }
+
+  /**
+   * Adds a user to a guild, creating the user if needed
+   * @param {string} guildId - The guild to join
+   * @param {Object} [data] - User and member fields
+   * @returns {FakeMember} The member
+   */
+  addMember(guildId: string, data: {
+    id?: string;
+    username?: string;
+    bot?: boolean;
+    primaryGuildId?: string | null;
+    roles?: string[];
+    joinedAt?: string;
+  } = {}): FakeMember {
+    const guild = this.requireGuild(guildId);
+    const id = data.id ?? this.nextId();
+    const user = this.users.get(id) ?? {
+      id,
+      username: data.username ?? `user${id.slice(-4)}`,
+      bot: data.bot ?? false,
+      primaryGuildId: null,
+      dmsBlocked: false,
+    };
+    if (data.primaryGuildId !== undefined) {
+      user.primaryGuildId = data.primaryGuildId;
+    }
+    this.users.set(id, user);
+
+    const member: FakeMember = {
+      userId: id,
+      roles: data.roles ?? [],
+      joinedAt: data.joinedAt ?? new Date().toISOString(),
+    };
+    guild.members.set(id, member);
+    this.dispatch('GUILD_MEMBER_ADD', { guild_id: guildId, ...this.serializeMember(member) });
+    return member;
+  }
+
+  /**
+   * Removes a member from a guild
+   * @param {string} guildId - The guild to leave
+   * @param {string} userId - The member to remove
+   */
+  removeMember(guildId: string, userId: string) {
+    const guild = this.requireGuild(guildId);
+    guild.members.delete(userId);
+    this.dispatch('GUILD_MEMBER_REMOVE', { guild_id: guildId, user: this.serializeUser(this.requireUser(userId)) });
+  }
+
+  /**
+   * Changes the tag a user is wearing and dispatches a member update for every guild they are in
+   * @param {string} userId - The user
+   * @param {string | null} guildId - ID of the guild whose tag to wear, or null to remove it
+   */
+  setPrimaryGuild(userId: string, guildId: string | null) {
+    const user = this.requireUser(userId);
+    user.primaryGuildId = guildId;
+    for (const guild of this.guilds.values()) {
+      const member = guild.members.get(userId);
+      if (member) {
+        this.dispatch('GUILD_MEMBER_UPDATE', { guild_id: guild.id, ...this.serializeMember(member) });
+      }
+    }
+  }
+
+  /**
+   * Makes direct messages to a user fail with error 50007
+   * @param {string} userId - The user
+   * @param {boolean} [blocked=true] - Whether DMs are blocked
+   */
+  blockDirectMessages(userId: string, blocked = true) {
+    this.requireUser(userId).dmsBlocked = blocked;
+  }
+
+  /**
+   * Registers an OAuth2 access token for a user, used by `/users/@me/guilds`
+   * @param {string} accessToken - The access token
+   * @param {string} userId - The user the token belongs to
+   */
+  addOAuthToken(accessToken: string, userId: string) {
+    this.oauthTokens.set(accessToken, userId);
+  }
+
+  /**
+   * Makes matching requests fail with the given error
+   * @param {InjectedError} error - The error and the requests it applies to
+   */
+  injectError(error: InjectedError) {
+    this.injectedErrors.push({ ...error });
+  }
+
+  /**
+   * Removes every injected error
+   */
+  clearInjectedErrors() {
+    this.injectedErrors = [];
+  }
+
+  /**
+   * Gets the messages sent to a channel
+   * @param {string} channelId - The channel
+   * @returns {FakeMessage[]} The messages, oldest first
+   */
+  getMessages(channelId: string): FakeMessage[] {
+    return this.messages.filter(message => message.channelId === channelId);
+  }
+
+  /**
+   * Gets the direct messages sent to a user
+   * @param {string} userId - The user
+   * @returns {FakeMessage[]} The messages, oldest first
+   */
+  getDirectMessages(userId: string): FakeMessage[] {
+    const channel = this.dmChannels.get(userId);
+    return channel ? this.getMessages(channel.id) : [];
+  }
+
+  /**
+   * Handles an HTTP request, applying injected errors and rate limits before routing
+   * @private
+   * @async
+   * @param {IncomingMessage} req - The request
+   * @param {ServerResponse} res - The response
+   * @returns {Promise<void>}
+   */
+  private async handleHttp(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const request: FakeRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname.replace(/^\/api(\/v\d+)?/, ''),
+      query: url.searchParams,
+      authorization: req.headers.authorization,
+      ...await this.readBody(req),
+    };
+    this.requests.push({ method: request.method, path: request.path });
+
+    const injected = this.injectedErrors.find(error =>
+      (!error.method || error.method === request.method) && error.path.test(request.path)
+    );
+    if (injected) {
+      if (injected.times !== undefined && --injected.times <= 0) {
+        this.injectedErrors = this.injectedErrors.filter(error => error !== injected);
+      }
+      this.send(res, {
+        status: injected.status,
+        body: { message: injected.message ?? 'Injected error', code: injected.code ?? 0 },
+      });
+      return;
+    }
+
+    const bucket = this.takeRateLimit(request);
+    res.setHeader('X-RateLimit-Limit', String(this.rateLimit));
+    res.setHeader('X-RateLimit-Remaining', String(Math.max(bucket.state.remaining, 0)));
+    res.setHeader('X-RateLimit-Reset', String(bucket.state.resetAt / 1000));
+    res.setHeader('X-RateLimit-Reset-After', String(Math.max(bucket.state.resetAt - Date.now(), 0) / 1000));
+    res.setHeader('X-RateLimit-Bucket', bucket.hash);
+
+    if (bucket.state.remaining < 0) {
+      const retryAfter = Math.max(bucket.state.resetAt - Date.now(), 0) / 1000;
+      res.setHeader('Retry-After', String(Math.ceil(retryAfter)));
+      res.setHeader('X-RateLimit-Scope', 'user');
+      this.send(res, {
+        status: 429,
+        body: { message: 'You are being rate limited.', retry_after: retryAfter, global: false },
+      });
+      return;
+    }
+
+    try {
+      this.send(res, this.route(request));
+    } catch (error) {
+      if (error instanceof FakeDiscordError) {
+        this.send(res, { status: error.status, body: { message: error.message, code: error.code } });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads and parses a JSON or multipart request body
+   * @private
+   * @async
+   * @param {IncomingMessage} req - The request
+   * @returns {Promise<Object>} The parsed body and uploaded files
+   */
+  private async readBody(req: IncomingMessage): Promise<{ body: any; files: FakeRequest['files'] }> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks);
+    const contentType = req.headers['content-type'] ?? '';
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+      const files: FakeRequest['files'] = [];
+      for (const [, value] of form.entries()) {
+        if (typeof value !== 'string') {
+          files.push({ filename: value.name, content: await value.text() });
+        }
+      }
+      const payload = form.get('payload_json');
+      return { body: typeof payload === 'string' ? JSON.parse(payload) : {}, files };
+    }
+
+    return { body: raw.length > 0 ? JSON.parse(raw.toString()) : undefined, files: [] };
+  }
+
+  /**
+   * Consumes one request from the bucket the request falls into
+   * @private
+   * @param {FakeRequest} request - The request
+   * @returns {Object} The bucket hash and its state after this request
+   */
+  private takeRateLimit(request: FakeRequest) {
+    // Buckets are per route template and major parameter, like Discord's
+    const major = request.path.match(/^\/(?:guilds|channels|webhooks)\/(\d+)/)?.[1] ?? 'global';
+    const template = request.path.replace(/\/\d+/g, '/:id');
+    const hash = `${request.method}:${template}`;
+    const key = `${hash}:${major}`;
+    const now = Date.now();
+
+    let state = this.buckets.get(key);
+    if (!state || state.resetAt <= now) {
+      state = { remaining: this.rateLimit, resetAt: now + this.rateLimitWindowMs };
+      this.buckets.set(key, state);
+    }
+    state.remaining--;
+
+    return { hash: Buffer.from(hash).toString('hex').slice(0, 32), state };
+  }
+
+  /**
+   * Writes a JSON response
+   * @private
+   * @param {ServerResponse} res - The response
+   * @param {FakeResponse} response - The status and body
+   */
+  private send(res: ServerResponse, response: FakeResponse) {
+    if (response.body === undefined) {
+      res.writeHead(response.status);
+      res.end();
+      return;
+    }
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  }
+
+  /**
+   * Routes a REST request to its handler
+   * @private
+   * @param {FakeRequest} request - The request
+   * @returns {FakeResponse} The response
+   */
+  private route(request: FakeRequest): FakeResponse {
+    const { method, path } = request;
+    let match: RegExpMatchArray | null;
+
+    // Interaction webhooks are authenticated by their token rather than a header
+    if ((match = path.match(/^\/webhooks\/(\d+)\/([^/]+)\/messages\/@original$/)) && method === 'PATCH') {
+      this.interactionResponses.push({ token: match[2], body: request.body });
+      return { status: 200, body: this.serializeMessage(this.storeMessage('interaction', request)) };
+    }
+
+    if (path === '/users/@me/guilds' && request.authorization?.startsWith('Bearer ')) {
+      return { status: 200, body: this.getOAuthGuilds(request.authorization.slice('Bearer '.length)) };
+    }
+
+    if (request.authorization !== `Bot ${this.token}`) {
+      throw new FakeDiscordError(401, 0, '401: Unauthorized');
+    }
+
+    if (path === '/gateway/bot' && method === 'GET') {
+      return {
+        status: 200,
+        body: {
+          url: this.gatewayUrl,
+          shards: 1,
+          session_start_limit: { total: 1000, remaining: 1000, reset_after: 86400000, max_concurrency: 1 },
+        },
+      };
+    }
+
+    if (path === '/users/@me' && method === 'GET') {
+      return { status: 200, body: this.serializeUser(this.requireUser(this.botUserId)) };
+    }
+
+    if (path === '/users/@me/guilds' && method === 'GET') {
+      return {
+        status: 200,
+        body: Array.from(this.guilds.values()).map(guild => ({
+          id: guild.id,
+          name: guild.name,
+          icon: null,
+          owner: guild.ownerId === this.botUserId,
+          permissions: this.computePermissions(guild, this.botUserId),
+          features: guild.features,
+        })),
+      };
+    }
+
+    if ((match = path.match(/^\/users\/(\d+)$/)) && method === 'GET') {
+      return { status: 200, body: this.serializeUser(this.requireUser(match[1])) };
+    }
+
+    if (path === '/users/@me/channels' && method === 'POST') {
+      return { status: 200, body: this.serializeChannel(this.openDirectMessage(request.body?.recipient_id)) };
+    }
+
+    if ((match = path.match(/^\/applications\/(\d+)\/(?:guilds\/\d+\/)?commands$/)) && method === 'PUT') {
+      return {
+        status: 200,
+        body: (request.body ?? []).map((command: any) => ({ id: this.nextId(), application_id: match![1], ...command })),
+      };
+    }
+
+    if ((match = path.match(/^\/channels\/(\d+)\/messages$/)) && method === 'POST') {
+      const channel = this.requireChannel(match[1]);
+      if (channel.recipientId && this.requireUser(channel.recipientId).dmsBlocked) {
+        throw new FakeDiscordError(403, 50007, 'Cannot send messages to this user');
+      }
+      return { status: 200, body: this.serializeMessage(this.storeMessage(channel.id, request)) };
+    }
+
+    if ((match = path.match(/^\/channels\/(\d+)$/)) && method === 'GET') {
+      return { status: 200, body: this.serializeChannel(this.requireChannel(match[1])) };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)$/)) && method === 'GET') {
+      const guild = this.requireGuild(match[1]);
+      return {
+        status: 200,
+        body: {
+          ...this.serializeGuild(guild),
+          approximate_member_count: guild.members.size,
+          approximate_presence_count: 0,
+        },
+      };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)\/roles$/)) && method === 'GET') {
+      return { status: 200, body: Array.from(this.requireGuild(match[1]).roles.values()).map(role => this.serializeRole(role)) };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)\/channels$/)) && method === 'GET') {
+      return {
+        status: 200,
+        body: Array.from(this.requireGuild(match[1]).channels.values()).map(channel => this.serializeChannel(channel)),
+      };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)\/members$/)) && method === 'GET') {
+      const guild = this.requireGuild(match[1]);
+      const limit = Math.min(Number(request.query.get('limit') ?? 1), 1000);
+      const after = BigInt(request.query.get('after') ?? '0');
+      const members = Array.from(guild.members.values())
+        .filter(member => BigInt(member.userId) > after)
+        .sort((a, b) => (BigInt(a.userId) < BigInt(b.userId) ? -1 : 1))
+        .slice(0, limit);
+      return { status: 200, body: members.map(member => this.serializeMember(member)) };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)\/members\/(\d+)$/)) && method === 'GET') {
+      return { status: 200, body: this.serializeMember(this.requireMember(match[1], match[2])) };
+    }
+
+    if ((match = path.match(/^\/guilds\/(\d+)\/members\/(\d+)\/roles\/(\d+)$/)) && (method === 'PUT' || method === 'DELETE')) {
+      const [, guildId, userId, roleId] = match;
+      const guild = this.requireGuild(guildId);
+      const member = this.requireMember(guildId, userId);
+      const role = guild.roles.get(roleId);
+      if (!role) {
+        throw new FakeDiscordError(404, 10011, 'Unknown Role');
+      }
+      if (role.managed || role.position >= this.highestPosition(guild, this.botUserId)) {
+        throw new FakeDiscordError(403, 50013, 'Missing Permissions');
+      }
+
+      const hasRole = member.roles.includes(roleId);
+      if (method === 'PUT' && !hasRole) {
+        member.roles.push(roleId);
+      } else if (method === 'DELETE' && hasRole) {
+        member.roles = member.roles.filter(id => id !== roleId);
+      }
+      this.dispatch('GUILD_MEMBER_UPDATE', { guild_id: guildId, ...this.serializeMember(member) });
+      return { status: 204 };
+    }
+
+    throw new FakeDiscordError(404, 0, '404: Not Found');
+  }
+
+  /**
+   * Lists the guilds an OAuth2 user is in, as `/users/@me/guilds` does for user tokens
+   * @private
+   * @param {string} accessToken - The user's access token
+   * @returns {Array<Object>} The user's guilds with their permissions
+   */
+  private getOAuthGuilds(accessToken: string) {
+    const userId = this.oauthTokens.get(accessToken);
+    if (!userId) {
+      throw new FakeDiscordError(401, 0, '401: Unauthorized');
+    }
+
+    return Array.from(this.guilds.values())
+      .filter(guild => guild.members.has(userId))
+      .map(guild => ({
+        id: guild.id,
+        name: guild.name,
+        icon: null,
+        owner: guild.ownerId === userId,
+        permissions: this.computePermissions(guild, userId),
+        features: guild.features,
+      }));
+  }
+
+  /**
+   * Stores a sent message
+   * @private
+   * @param {string} channelId - The channel the message was sent to
+   * @param {FakeRequest} request - The request carrying the message
+   * @returns {FakeMessage} The stored message
+   */
+  private storeMessage(channelId: string, request: FakeRequest): FakeMessage {
+    const message: FakeMessage = {
+      id: this.nextId(),
+      channelId,
+      content: request.body?.content ?? '',
+      embeds: request.body?.embeds ?? [],
+      attachments: request.files,
+      timestamp: new Date().toISOString(),
+    };
+    this.messages.push(message);
+    return message;
+  }
+
+  /**
+   * Gets or creates the DM channel with a user
+   * @private
+   * @param {string} userId - The recipient
+   * @returns {FakeChannel} The DM channel
+   */
+  private openDirectMessage(userId: string): FakeChannel {
+    this.requireUser(userId);
+    let channel = this.dmChannels.get(userId);
+    if (!channel) {
+      channel = { id: this.nextId(), name: '', type: 1, guildId: null, recipientId: userId };
+      this.dmChannels.set(userId, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Computes a member's permissions from their roles
+   * @private
+   * @param {FakeGuild} guild - The guild
+   * @param {string} userId - The member
+   * @returns {string} The permissions bitfield
+   */
+  private computePermissions(guild: FakeGuild, userId: string): string {
+    if (guild.ownerId === userId) {
+      return ALL_PERMISSIONS;
+    }
+
+    const member = guild.members.get(userId);
+    let bits = BigInt(guild.roles.get(guild.id)?.permissions ?? '0');
+    for (const roleId of member?.roles ?? []) {
+      bits |= BigInt(guild.roles.get(roleId)?.permissions ?? '0');
+    }
+    return (bits & ADMINISTRATOR) === ADMINISTRATOR ? ALL_PERMISSIONS : bits.toString();
+  }
+
+  /**
+   * Gets the position of a member's highest role
+   * @private
+   * @param {FakeGuild} guild - The guild
+   * @param {string} userId - The member
+   * @returns {number} The highest role position
+   */
+  private highestPosition(guild: FakeGuild, userId: string): number {
+    const member = guild.members.get(userId);
+    return Math.max(0, ...(member?.roles ?? []).map(id => guild.roles.get(id)?.position ?? 0));
+  }
+
+  /**
+   * Gets a guild or fails with Unknown Guild
+   * @private
+   * @param {string} guildId - The guild ID
+   * @returns {FakeGuild} The guild
+   */
+  private requireGuild(guildId: string): FakeGuild {
+    const guild = this.guilds.get(guildId);
+    if (!guild) {
+      throw new FakeDiscordError(404, 10004, 'Unknown Guild');
+    }
+    return guild;
+  }
+
+  /**
+   * Gets a user or fails with Unknown User
+   * @private
+   * @param {string} userId - The user ID
+   * @returns {FakeUser} The user
+   */
+  private requireUser(userId: string): FakeUser {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new FakeDiscordError(404, 10013, 'Unknown User');
+    }
+    return user;
+  }
+
+  /**
+   * Gets a member or fails with Unknown Member
+   * @private
+   * @param {string} guildId - The guild ID
+   * @param {string} userId - The user ID
+   * @returns {FakeMember} The member
+   */
+  private requireMember(guildId: string, userId: string): FakeMember {
+    const member = this.requireGuild(guildId).members.get(userId);
+    if (!member) {
+      throw new FakeDiscordError(404, 10007, 'Unknown Member');
+    }
+    return member;
+  }
+
+  /**
+   * Gets a guild or DM channel or fails with Unknown Channel
+   * @private
+   * @param {string} channelId - The channel ID
+   * @returns {FakeChannel} The channel
+   */
+  private requireChannel(channelId: string): FakeChannel {
+    for (const guild of this.guilds.values()) {
+      const channel = guild.channels.get(channelId);
+      if (channel) {
+        return channel;
+      }
+    }
+    for (const channel of this.dmChannels.values()) {
+      if (channel.id === channelId) {
+        return channel;
+      }
+    }
+    throw new FakeDiscordError(404, 10003, 'Unknown Channel');
+  }
+
+  /**
+   * Converts a user to its API shape, including `primary_guild`
+   * @private
+   * @param {FakeUser} user - The user
+   * @returns {Object} The API user
+   */
+  private serializeUser(user: FakeUser) {
+    return {
+      id: user.id,
+      username: user.username,
+      global_name: null,
+      discriminator: '0',
+      avatar: null,
+      bot: user.bot,
+      primary_guild: user.primaryGuildId
+        ? { identity_guild_id: user.primaryGuildId, identity_enabled: true, tag: 'TAG', badge: null }
+        : null,
+    };
+  }
+
+  /**
+   * Converts a member to its API shape
+   * @private
+   * @param {FakeMember} member - The member
+   * @returns {Object} The API guild member
+   */
+  private serializeMember(member: FakeMember) {
+    return {
+      user: this.serializeUser(this.requireUser(member.userId)),
+      nick: null,
+      avatar: null,
+      roles: member.roles,
+      joined_at: member.joinedAt,
+      premium_since: null,
+      deaf: false,
+      mute: false,
+      flags: 0,
+      pending: false,
+    };
+  }
+
+  /**
+   * Converts a role to its API shape
+   * @private
+   * @param {FakeRole} role - The role
+   * @returns {Object} The API role
+   */
+  private serializeRole(role: FakeRole) {
+    return {
+      id: role.id,
+      name: role.name,
+      color: role.color,
+      hoist: false,
+      icon: null,
+      unicode_emoji: null,
+      position: role.position,
+      permissions: role.permissions,
+      managed: role.managed,
+      mentionable: false,
+      flags: 0,
+    };
+  }
+
+  /**
+   * Converts a guild or DM channel to its API shape
+   * @private
+   * @param {FakeChannel} channel - The channel
+   * @returns {Object} The API channel
+   */
+  private serializeChannel(channel: FakeChannel) {
+    if (channel.type === 1) {
+      return {
+        id: channel.id,
+        type: 1,
+        last_message_id: null,
+        recipients: [this.serializeUser(this.requireUser(channel.recipientId!))],
+      };
+    }
+
+    return {
+      id: channel.id,
+      type: channel.type,
+      guild_id: channel.guildId,
+      name: channel.name,
+      position: 0,
+      permission_overwrites: [],
+      parent_id: null,
+      nsfw: false,
+      topic: null,
+      last_message_id: null,
+      rate_limit_per_user: 0,
+    };
+  }
+
+  /**
+   * Converts a stored message to its API shape
+   * @private
+   * @param {FakeMessage} message - The message
+   * @returns {Object} The API message
+   */
+  private serializeMessage(message: FakeMessage) {
+    return {
+      id: message.id,
+      channel_id: message.channelId,
+      author: this.serializeUser(this.requireUser(this.botUserId)),
+      content: message.content,
+      timestamp: message.timestamp,
+      edited_timestamp: null,
+      tts: false,
+      mention_everyone: false,
+      mentions: [],
+      mention_roles: [],
+      attachments: message.attachments.map(attachment => ({
+        id: this.nextId(),
+        filename: attachment.filename,
+        size: attachment.content.length,
+        url: `${this.apiUrl}/attachments/${attachment.filename}`,
+        proxy_url: `${this.apiUrl}/attachments/${attachment.filename}`,
+      })),
+      embeds: message.embeds,
+      pinned: false,
+      type: 0,
+      flags: 0,
+      components: [],
+    };
+  }
+
+  /**
+   * Converts a guild to its REST shape
+   * @private
+   * @param {FakeGuild} guild - The guild
+   * @returns {Object} The API guild
+   */
+  private serializeGuild(guild: FakeGuild) {
+    return {
+      id: guild.id,
+      name: guild.name,
+      icon: null,
+      splash: null,
+      discovery_splash: null,
+      owner_id: guild.ownerId,
+      afk_channel_id: null,
+      afk_timeout: 300,
+      verification_level: 0,
+      default_message_notifications: 0,
+      explicit_content_filter: 0,
+      roles: Array.from(guild.roles.values()).map(role => this.serializeRole(role)),
+      emojis: [],
+      features: guild.features,
+      mfa_level: 0,
+      system_channel_id: null,
+      system_channel_flags: 0,
+      rules_channel_id: null,
+      vanity_url_code: null,
+      description: null,
+      banner: null,
+      premium_tier: 0,
+      preferred_locale: 'en-US',
+      public_updates_channel_id: null,
+      nsfw_level: 0,
+      premium_progress_bar_enabled: false,
+      stickers: [],
+    };
+  }
+
+  /**
+   * Converts a guild to its GUILD_CREATE shape
+   * @private
+   * @param {FakeGuild} guild - The guild
+   * @returns {Object} The gateway guild
+   */
+  private serializeGatewayGuild(guild: FakeGuild) {
+    return {
+      ...this.serializeGuild(guild),
+      joined_at: new Date().toISOString(),
+      large: false,
+      unavailable: false,
+      member_count: guild.members.size,
+      // Like Discord, only the bot's own member is sent; the rest are requested with opcode 8
+      members: [this.serializeMember(guild.members.get(this.botUserId)!)],
+      channels: Array.from(guild.channels.values()).map(channel => this.serializeChannel(channel)),
+      threads: [],
+      presences: [],
+      voice_states: [],
+      stage_instances: [],
+      guild_scheduled_events: [],
+      soundboard_sounds: [],
+    };
+  }
+
+  /**
+   * Sets up a gateway connection and greets it with HELLO
+   * @private
+   * @param {WebSocket} socket - The new connection
+   */
+  private handleConnection(socket: WebSocket) {
+    socket.send(JSON.stringify({ op: 10, d: { heartbeat_interval: HEARTBEAT_INTERVAL }, s: null, t: null }));
+    socket.on('message', data => this.handleGatewayMessage(socket, data));
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  /**
+   * Handles a gateway payload from the client
+   * @private
+   * @param {WebSocket} socket - The connection the payload arrived on
+   * @param {RawData} data - The raw payload
+   */
+  private handleGatewayMessage(socket: WebSocket, data: RawData) {
+    const payload = JSON.parse(data.toString());
+
+    switch (payload.op) {
+      case 1: // Heartbeat
+        socket.send(JSON.stringify({ op: 11, d: null, s: null, t: null }));
+        break;
+
+      case 2: { // Identify
+        if (payload.d?.token !== this.token && payload.d?.token !== `Bot ${this.token}`) {
+          socket.close(4004, 'Authentication failed.');
+          return;
+        }
+        this.sockets.add(socket);
+        this.sendDispatch(socket, 'READY', {
+          v: 10,
+          user: this.serializeUser(this.requireUser(this.botUserId)),
+          guilds: Array.from(this.guilds.keys()).map(id => ({ id, unavailable: true })),
+          session_id: this.nextId(),
+          resume_gateway_url: this.gatewayUrl,
+          shard: [0, 1],
+          application: { id: this.applicationId, flags: 0 },
+        });
+        for (const guild of this.guilds.values()) {
+          this.sendDispatch(socket, 'GUILD_CREATE', this.serializeGatewayGuild(guild));
+        }
+        break;
+      }
+
+      case 6: // Resume is not supported; ask the client to identify again
+        socket.send(JSON.stringify({ op: 9, d: false, s: null, t: null }));
+        break;
+
+      case 8: // Request Guild Members
+        this.sendMemberChunks(socket, payload.d);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Answers a Request Guild Members payload with GUILD_MEMBERS_CHUNK events
+   * @private
+   * @param {WebSocket} socket - The requesting connection
+   * @param {any} request - The request payload data
+   */
+  private sendMemberChunks(socket: WebSocket, request: any) {
+    const guild = this.guilds.get(request.guild_id);
+    if (!guild) {
+      return;
+    }
+
+    const userIds: string[] | undefined = request.user_ids
+      ? [].concat(request.user_ids)
+      : undefined;
+    const query: string = request.query ?? '';
+    let members = Array.from(guild.members.values()).filter(member =>
+      userIds
+        ? userIds.includes(member.userId)
+        : this.requireUser(member.userId).username.toLowerCase().startsWith(query.toLowerCase())
+    );
+    if (request.limit) {
+      members = members.slice(0, request.limit);
+    }
+
+    const chunkCount = Math.max(1, Math.ceil(members.length / MEMBER_CHUNK_SIZE));
+    for (let index = 0; index < chunkCount; index++) {
+      this.sendDispatch(socket, 'GUILD_MEMBERS_CHUNK', {
+        guild_id: guild.id,
+        members: members
+          .slice(index * MEMBER_CHUNK_SIZE, (index + 1) * MEMBER_CHUNK_SIZE)
+          .map(member => this.serializeMember(member)),
+        chunk_index: index,
+        chunk_count: chunkCount,
+        nonce: request.nonce,
+      });
+    }
+  }
+
+  /**
+   * Sends a dispatch event to every identified connection
+   * @private
+   * @param {string} event - The event name
+   * @param {unknown} data - The event data
+   */
+  private dispatch(event: string, data: unknown) {
+    for (const socket of this.sockets) {
+      this.sendDispatch(socket, event, data);
+    }
+  }
+
+  /**
+   * Sends a dispatch event to one connection
+   * @private
+   * @param {WebSocket} socket - The connection
+   * @param {string} event - The event name
+   * @param {unknown} data - The event data
+   */
+  private sendDispatch(socket: WebSocket, event: string, data: unknown) {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    socket.send(JSON.stringify({ op: 0, d: data, s: ++this.sequence, t: event }));
+  }
+}
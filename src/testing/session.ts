@@ -0,0 +1,20 @@
+/**
+ * @file session.ts
+ * @description Signed-in sessions for tests that mock next-auth's getServerSession
+ * @module testing/session
+ */
+
+import { Session } from 'next-auth';
+
+/**
+ * Builds the session of a signed-in user
+ * @param {string} userId - The user's Discord ID
+ * @param {string} [accessToken] - The user's OAuth access token
+ * @returns {Session} The session, expiring in an hour
+ */
+export function buildSession(userId: string, accessToken?: string): Session {
+  return {
+    user: { id: userId, accessToken },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  };
+}
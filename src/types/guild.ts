@@ -0,0 +1,345 @@
+/**
+ * @file guild.ts
+ * @description Type definitions for guild configuration data shared by the API and dashboard
+ * @module types/guild
+ */
+
+/**
+ * Maps a source guild's tag to a role in the configured guild
+ * @interface TagRoleMapping
+ * @property {string} sourceGuildId - ID of the guild whose tag grants the role
+ * @property {string} roleId - ID of the role granted while the tag is worn
+ */
+export interface TagRoleMapping {
+  sourceGuildId: string;
+  roleId: string;
+}
+
+/**
+ * Grants a role once the guild's tag has been worn continuously for a number of days
+ * @interface TenureTier
+ * @property {number} days - Days of continuous wear needed for the role
+ * @property {string} roleId - ID of the role granted
+ */
+export interface TenureTier {
+  days: number;
+  roleId: string;
+}
+
+/**
+ * Per-guild rules deciding which members are managed at all and which may receive roles
+ * @interface EligibilityRules
+ * @property {boolean} ignoreBots - Whether bot accounts are left untouched
+ * @property {string[]} exemptRoleIds - Members with any of these roles are left untouched
+ * @property {string | null} requiredRoleId - Members need this role to receive tag roles, no requirement when null
+ * @property {number} minMembershipDays - Days a member must have been in the server to receive tag roles
+ */
+export interface EligibilityRules {
+  ignoreBots: boolean;
+  exemptRoleIds: string[];
+  requiredRoleId: string | null;
+  minMembershipDays: number;
+}
+
+/**
+ * How role change logs are formatted
+ * @typedef {'detailed' | 'compact' | 'summary' | 'custom'} LogFormat
+ */
+export type LogFormat = 'detailed' | 'compact' | 'summary' | 'custom';
+
+/**
+ * Per-guild settings for role change log messages
+ * @interface LogSettings
+ * @property {LogFormat} logFormat - The log style
+ * @property {string | null} logTemplate - Line template used by the custom style
+ * @property {string | null} logTitle - Embed title, the default title when null
+ * @property {number | null} logColor - Embed color as an integer, the default color when null
+ */
+export interface LogSettings {
+  logFormat: LogFormat;
+  logTemplate: string | null;
+  logTitle: string | null;
+  logColor: number | null;
+}
+
+/**
+ * Per-guild settings for thanking members who equip the tag
+ * @interface ThankYouSettings
+ * @property {boolean} welcomeDmEnabled - Whether members are sent a direct message
+ * @property {string | null} welcomeDmMessage - Direct message template, the default message when null
+ * @property {string | null} shoutoutChannelId - Channel for public shout-outs, none when null
+ * @property {string | null} shoutoutMessage - Shout-out template, the default message when null
+ * @property {number} thankYouCooldownHours - Hours before the same member is thanked again
+ */
+export interface ThankYouSettings {
+  welcomeDmEnabled: boolean;
+  welcomeDmMessage: string | null;
+  shoutoutChannelId: string | null;
+  shoutoutMessage: string | null;
+  thankYouCooldownHours: number;
+}
+
+/**
+ * Lifecycle state of a guild configuration
+ * - `active`: roles are being synced
+ * - `broken`: syncs are paused until a deleted role or channel or a missing permission is fixed
+ * - `archived`: the bot was removed from the server; restored if it is re-added
+ * @typedef {'active' | 'broken' | 'archived'} GuildConfigStatus
+ */
+export type GuildConfigStatus = 'active' | 'broken' | 'archived';
+
+/**
+ * Guild configuration as returned by the configuration API
+ * @interface GuildConfigData
+ * @property {string} guildId - Discord guild ID
+ * @property {string} roleId - ID of the role granted for wearing this guild's own tag
+ * @property {string | null} logChannelId - ID of the channel for logging role changes
+ * @property {boolean} previewMode - Whether role changes are only projected instead of applied
+ * @property {boolean} healthAlertsEnabled - Whether health check problems are posted to the log channel
+ * @property {TagRoleMapping[]} mappings - Additional tag-to-role mappings for other guilds' tags
+ * @property {TenureTier[]} tiers - Extra roles for wearing this guild's tag over time
+ * @property {boolean} ignoreBots - Whether bot accounts are left untouched
+ * @property {Array<{roleId: string}>} exemptRoles - Roles whose members are left untouched
+ * @property {string | null} requiredRoleId - Role members need to receive tag roles
+ * @property {number} minMembershipDays - Days a member must have been in the server to receive tag roles
+ * @property {number} removalGraceMinutes - Minutes a tag must stay off before its role is removed
+ * @property {number} maxRemovalPercent - Largest share of a role's holders a sync may remove without confirmation
+ * @property {GuildConfigStatus} status - Whether the configuration is active, broken or archived
+ * @property {string | null} statusReason - Why the configuration is broken or archived
+ */
+export interface GuildConfigData extends LogSettings, ThankYouSettings {
+  guildId: string;
+  roleId: string;
+  logChannelId: string | null;
+  previewMode: boolean;
+  healthAlertsEnabled: boolean;
+  removalGraceMinutes: number;
+  maxRemovalPercent: number;
+  mappings: TagRoleMapping[];
+  tiers: TenureTier[];
+  ignoreBots: boolean;
+  exemptRoles: Array<{ roleId: string }>;
+  requiredRoleId: string | null;
+  minMembershipDays: number;
+  status: GuildConfigStatus;
+  statusReason: string | null;
+}
+
+/**
+ * Type of role change
+ * @typedef {'add' | 'remove'} RoleChangeAction
+ */
+export type RoleChangeAction = 'add' | 'remove';
+
+/**
+ * Why a role change was made
+ * @typedef {string} RoleChangeReason
+ */
+export type RoleChangeReason = 'tag equipped' | 'tag removed' | 'tenure reached' | 'scheduled resync' | 'manual resync';
+
+/**
+ * A recorded role change as returned by the history API
+ * @interface RoleChangeEntry
+ * @property {string} id - The entry ID
+ * @property {string} guildId - The guild the change was made in
+ * @property {string} userId - The member whose role changed
+ * @property {string} roleId - The role that was added or removed
+ * @property {RoleChangeAction} action - Whether the role was added or removed
+ * @property {RoleChangeReason} reason - Why the change was made
+ * @property {string} createdAt - When the change was made, as an ISO string
+ */
+export interface RoleChangeEntry {
+  id: string;
+  guildId: string;
+  userId: string;
+  roleId: string;
+  action: RoleChangeAction;
+  reason: RoleChangeReason;
+  createdAt: string;
+}
+
+/**
+ * A role change projected by preview mode
+ * @interface ProjectedRoleChange
+ * @property {string} userId - The member whose role would change
+ * @property {string} displayName - The member's display name when the preview was computed
+ * @property {string} roleId - The role that would be added or removed
+ */
+export interface ProjectedRoleChange {
+  userId: string;
+  displayName: string;
+  roleId: string;
+}
+
+/**
+ * The role changes a guild's configuration would apply if it went live
+ * @interface RoleChangePreview
+ * @property {number} computedAt - When the preview was computed, in milliseconds since the epoch
+ * @property {ProjectedRoleChange[]} adds - Roles that would be added
+ * @property {ProjectedRoleChange[]} removes - Roles that would be removed
+ */
+export interface RoleChangePreview {
+  computedAt: number;
+  adds: ProjectedRoleChange[];
+  removes: ProjectedRoleChange[];
+}
+
+/**
+ * A role removal waiting out the guild's grace period, as returned by the pending removals API
+ * @interface PendingRoleRemovalEntry
+ * @property {string} userId - The member whose role will be removed
+ * @property {string} roleId - The role that will be removed
+ * @property {string} removeAfter - When the role is removed if the tag is still absent, as an ISO string
+ * @property {string} createdAt - When the tag was first seen missing, as an ISO string
+ */
+export interface PendingRoleRemovalEntry {
+  userId: string;
+  roleId: string;
+  removeAfter: string;
+  createdAt: string;
+}
+
+/**
+ * Outcome of a full sync: completed, failed on an error or incomplete member data,
+ * or blocked because it would remove too many roles without confirmation
+ * @typedef {'completed' | 'failed' | 'blocked'} SyncStatus
+ */
+export type SyncStatus = 'completed' | 'failed' | 'blocked';
+
+/**
+ * A recorded failed or blocked sync as returned by the sync API
+ * @interface SyncFailureEntry
+ * @property {string} id - The entry ID
+ * @property {'failed' | 'blocked'} type - Whether the sync failed or was blocked
+ * @property {string} message - What went wrong
+ * @property {string} createdAt - When the sync was aborted, as an ISO string
+ */
+export interface SyncFailureEntry {
+  id: string;
+  type: Exclude<SyncStatus, 'completed'>;
+  message: string;
+  createdAt: string;
+}
+
+/**
+ * What a preflight health check found wrong with a guild's setup
+ * @typedef {string} GuildHealthProblemCode
+ */
+export type GuildHealthProblemCode =
+  | 'bot_not_in_guild'
+  | 'missing_manage_roles'
+  | 'role_missing'
+  | 'role_managed'
+  | 'role_above_bot'
+  | 'channel_missing'
+  | 'channel_not_text'
+  | 'channel_permissions';
+
+/**
+ * A concrete problem found by a guild's preflight health check
+ * @interface GuildHealthProblem
+ * @property {GuildHealthProblemCode} code - What kind of problem it is
+ * @property {'error' | 'warning'} severity - Errors stop syncs from running; warnings only degrade a feature
+ * @property {string} message - A description an admin can act on
+ * @property {string} [roleId] - The role the problem concerns
+ * @property {string} [channelId] - The channel the problem concerns
+ */
+export interface GuildHealthProblem {
+  code: GuildHealthProblemCode;
+  severity: 'error' | 'warning';
+  message: string;
+  roleId?: string;
+  channelId?: string;
+}
+
+/**
+ * Result of a guild's preflight health check
+ * @interface GuildHealthReport
+ * @property {number} checkedAt - When the check ran, in milliseconds since the epoch
+ * @property {GuildHealthProblem[]} problems - The problems found, empty when the guild is healthy
+ */
+export interface GuildHealthReport {
+  checkedAt: number;
+  problems: GuildHealthProblem[];
+}
+
+/**
+ * State of a guild's onboarding sync, the first live sync after it is configured
+ * - `pending`: waiting for the configuration to go live
+ * - `running`: members are being scanned and their roles updated
+ * - `completed`: every member was scanned
+ * - `failed` / `blocked`: the sync was aborted and is retried with the next sync
+ * @typedef {'pending' | 'running' | SyncStatus} OnboardingStatus
+ */
+export type OnboardingStatus = 'pending' | 'running' | SyncStatus;
+
+/**
+ * Progress of a guild's onboarding sync as returned by the onboarding API
+ * @interface OnboardingProgress
+ * @property {OnboardingStatus} status - Where the job stands
+ * @property {number} totalMembers - Members to scan, 0 until the member list has been fetched
+ * @property {number} scannedMembers - Members scanned so far
+ * @property {number} tagWearers - Scanned members wearing the guild's own tag
+ * @property {number} rolesAdded - Roles added so far
+ * @property {number} rolesRemoved - Roles removed so far
+ * @property {number} errors - Members whose roles could not be updated
+ * @property {string | null} error - Why the job failed or was blocked
+ * @property {number | null} startedAt - When the job started, in milliseconds since the epoch
+ * @property {number | null} completedAt - When the job finished, in milliseconds since the epoch
+ */
+export interface OnboardingProgress {
+  status: OnboardingStatus;
+  totalMembers: number;
+  scannedMembers: number;
+  tagWearers: number;
+  rolesAdded: number;
+  rolesRemoved: number;
+  errors: number;
+  error: string | null;
+  startedAt: number | null;
+  completedAt: number | null;
+}
+
+/**
+ * Tag adoption over one interval of a stats series
+ * @interface TagStatsPoint
+ * @property {number} time - Start of the interval, in milliseconds since the epoch
+ * @property {number} memberCount - Members at the last snapshot in the interval
+ * @property {number} tagWearers - Members wearing the guild's own tag at the last snapshot in the interval
+ * @property {number} roleHolders - Members holding the tag role at the last snapshot in the interval
+ * @property {number} rolesAdded - Roles added during the interval
+ * @property {number} rolesRemoved - Roles removed during the interval
+ */
+export interface TagStatsPoint {
+  time: number;
+  memberCount: number;
+  tagWearers: number;
+  roleHolders: number;
+  rolesAdded: number;
+  rolesRemoved: number;
+}
+
+/**
+ * Time range of a stats series
+ * @typedef {'7d' | '30d' | '90d' | '365d'} StatsRange
+ */
+export type StatsRange = '7d' | '30d' | '90d' | '365d';
+
+/**
+ * Interval length of a stats series
+ * @typedef {'hour' | 'day' | 'week'} StatsGranularity
+ */
+export type StatsGranularity = 'hour' | 'day' | 'week';
+
+/**
+ * A tag adoption series as returned by the stats API
+ * @interface TagStats
+ * @property {StatsRange} range - The time range covered
+ * @property {StatsGranularity} granularity - The interval length
+ * @property {TagStatsPoint[]} points - One point per interval with snapshots, oldest first
+ */
+export interface TagStats {
+  range: StatsRange;
+  granularity: StatsGranularity;
+  points: TagStatsPoint[];
+}
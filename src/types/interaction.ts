@@ -0,0 +1,77 @@
+/**
+ * @file interaction.ts
+ * @description Type definitions for Discord interaction payloads received over HTTP
+ * @module types/interaction
+ */
+
+import { APIEmbed } from 'discord.js';
+
+/**
+ * Represents an option passed to an application command
+ * @interface InteractionOption
+ * @property {string} name - The option name
+ * @property {number} type - The option type (1 for subcommands)
+ * @property {string | number | boolean} [value] - The option value
+ * @property {InteractionOption[]} [options] - Nested options of a subcommand
+ */
+export interface InteractionOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: InteractionOption[];
+}
+
+/**
+ * Represents a Discord interaction
+ * @interface DiscordInteraction
+ * @property {number} type - The interaction type
+ * @property {string} token - Token used to respond to the interaction
+ * @property {string} id - The interaction ID
+ * @property {string} application_id - The application the interaction is for
+ * @property {string} [guild_id] - The guild the interaction was sent from
+ * @property {Object} [member] - The invoking member, when sent from a guild
+ * @property {Object} [data] - The command data
+ */
+export interface DiscordInteraction {
+  type: number;
+  token: string;
+  id: string;
+  application_id: string;
+  guild_id?: string;
+  member?: {
+    user: {
+      id: string;
+      username: string;
+    };
+    permissions: string;
+  };
+  data?: {
+    name: string;
+    type: number;
+    options?: InteractionOption[];
+  };
+}
+
+/**
+ * Represents the message data of an interaction response
+ * @interface InteractionReply
+ * @property {string} [content] - The message content
+ * @property {APIEmbed[]} [embeds] - The message embeds
+ * @property {number} [flags] - Message flags (64 for ephemeral)
+ */
+export interface InteractionReply {
+  content?: string;
+  embeds?: APIEmbed[];
+  flags?: number;
+}
+
+/**
+ * Represents a response to an interaction
+ * @interface InteractionResponse
+ * @property {number} type - The response type
+ * @property {InteractionReply} [data] - The response message data
+ */
+export interface InteractionResponse {
+  type: number;
+  data?: InteractionReply;
+}
@@ -0,0 +1,54 @@
+/**
+ * @file logger.test.ts
+ * @description Tests for how the logger serializes errors
+ * @module utils/logger.test
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DiscordAPIError } from 'discord.js';
+import { logger } from '@/utils/logger';
+
+describe('logger', () => {
+  /**
+   * Logs an error and parses the line written to stderr
+   * @param {unknown} error - The error to log
+   * @returns {Record<string, any>} The serialized error field
+   */
+  const logError = (error: unknown) => {
+    const write = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    logger.error('Request failed', { error });
+    return JSON.parse(write.mock.calls[0][0]).error;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the status, method and URL of Discord API errors', () => {
+    const error = new DiscordAPIError(
+      { code: 50013, message: 'Missing Permissions' },
+      50013,
+      403,
+      'PUT',
+      'https://discord.com/api/v10/guilds/1/members/2/roles/3',
+      {}
+    );
+
+    expect(logError(error)).toMatchObject({
+      name: 'DiscordAPIError[50013]',
+      message: 'Missing Permissions',
+      code: 50013,
+      status: 403,
+      method: 'PUT',
+      url: 'https://discord.com/api/v10/guilds/1/members/2/roles/3',
+    });
+  });
+
+  it('leaves out request fields plain errors don\'t have', () => {
+    const serialized = logError(new Error('Boom'));
+
+    expect(serialized).toMatchObject({ name: 'Error', message: 'Boom' });
+    expect(serialized).not.toHaveProperty('status');
+    expect(serialized).not.toHaveProperty('url');
+  });
+});
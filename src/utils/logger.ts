@@ -1,40 +1,395 @@
+/**
+ * @file logger.ts
+ * @description Structured JSON logger with levels, per-guild context and buffered, rotated log files
+ * @module utils/logger
+ */
+
 import fs from 'fs';
 import path from 'path';
 
-const LOG_DIR = path.join(process.cwd(), 'logs');
+/**
+ * Severity of a log entry
+ * @typedef {'debug' | 'info' | 'warn' | 'error'} LogLevel
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Fields attached to every entry written by a logger
+ * @interface LogContext
+ * @property {string} [guildId] - The guild the entry concerns
+ * @property {string} [userId] - The member the entry concerns
+ * @property {string} [syncId] - The sync the entry was written during
+ */
+export interface LogContext {
+  guildId?: string;
+  userId?: string;
+  syncId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A logger writing JSON lines to stdout and the log files
+ * @interface Logger
+ */
+export interface Logger {
+  debug(message: string, fields?: LogContext): void;
+  info(message: string, fields?: LogContext): void;
+  warn(message: string, fields?: LogContext): void;
+  error(message: string, fields?: LogContext): void;
+  /**
+   * Creates a logger that adds fields to every entry
+   * @param {LogContext} context - The fields to add
+   * @returns {Logger} The child logger
+   */
+  child(context: LogContext): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FLUSH_INTERVAL = 1000; // 1 second
+// Buffered bytes that trigger a flush before the interval
+const MAX_BUFFER_BYTES = 64 * 1024;
+const LOG_FILE_PREFIX = 'discord-';
 
-// Ensure logs directory exists
-if (!fs.existsSync(LOG_DIR)) {
-  fs.mkdirSync(LOG_DIR, { recursive: true });
+/**
+ * Checks whether a value is a log level
+ * @param {unknown} value - The value to check
+ * @returns {boolean} Whether the value is a log level
+ */
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEVELS, value);
 }
 
-function getLogFileName() {
-  const date = new Date();
-  return `discord-${date.toISOString().split('T')[0]}.log`;
+/**
+ * Reads a positive number from the environment
+ * @param {string} name - The variable name
+ * @param {number} fallback - The value when unset or invalid
+ * @returns {number} The value
+ */
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
-function formatLogMessage(level: string, message: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  const dataStr = data ? `\n${JSON.stringify(data, null, 2)}` : '';
-  return `[${timestamp}] ${level}: ${message}${dataStr}\n`;
+const envLevel = process.env.LOG_LEVEL?.toLowerCase();
+const MIN_LEVEL: LogLevel = isLogLevel(envLevel) ? envLevel : process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+const LOG_DIR = path.resolve(process.cwd(), process.env.LOG_DIR || 'logs');
+const MAX_FILE_BYTES = readPositiveNumber('LOG_MAX_SIZE_MB', 10) * 1024 * 1024;
+const RETENTION_DAYS = readPositiveNumber('LOG_RETENTION_DAYS', 14);
+const FILE_LOGGING = process.env.LOG_TO_FILE !== 'false';
+
+/**
+ * Buffers log lines and appends them to a daily file, starting a numbered file
+ * when the current one reaches the size limit and deleting files past retention
+ * @class LogFileWriter
+ */
+class LogFileWriter {
+  private buffer: string[] = [];
+  private bufferedBytes = 0;
+  private flushing: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private currentDate = '';
+  private currentIndex = 0;
+  private currentSize = 0;
+
+  /**
+   * Creates the log directory and flushes the buffer synchronously when the process exits
+   */
+  constructor() {
+    fs.mkdirSync(LOG_DIR, { recursive: true });
+    process.once('beforeExit', () => {
+      void this.flush();
+    });
+    process.once('exit', () => this.flushSync());
+  }
+
+  /**
+   * Queues a line for the next flush
+   * @param {string} line - The serialized entry, without a trailing newline
+   */
+  write(line: string) {
+    this.buffer.push(`${line}\n`);
+    this.bufferedBytes += Buffer.byteLength(line) + 1;
+
+    if (this.bufferedBytes >= MAX_BUFFER_BYTES) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Appends the buffered lines to the current file; writes run one at a time
+   * @async
+   * @returns {Promise<void>}
+   */
+  flush(): Promise<void> {
+    // Taking the buffer now keeps chunks near the flush threshold, so files don't overshoot the size limit
+    const chunk = this.takeBuffer();
+    if (!chunk) {
+      return this.flushing;
+    }
+
+    this.flushing = this.flushing.then(async () => {
+      try {
+        const file = await this.prepareFile(Buffer.byteLength(chunk));
+        await fs.promises.appendFile(file, chunk);
+        this.currentSize += Buffer.byteLength(chunk);
+      } catch (error) {
+        process.stderr.write(`Failed to write log file: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Writes the buffered lines synchronously, for when the process is exiting
+   */
+  flushSync() {
+    const chunk = this.takeBuffer();
+    if (!chunk) {
+      return;
+    }
+
+    try {
+      fs.appendFileSync(this.fileName(this.currentDate || this.today(), this.currentIndex), chunk);
+    } catch {
+      // Nothing left to report the failure to
+    }
+  }
+
+  /**
+   * Empties the buffer
+   * @returns {string} The buffered lines joined together
+   */
+  private takeBuffer(): string {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const chunk = this.buffer.join('');
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    return chunk;
+  }
+
+  /**
+   * Picks the file to append to, starting a new one on a new day or when the chunk won't fit,
+   * and deletes expired files whenever a new one is started
+   * @async
+   * @param {number} bytes - Size of the chunk about to be written
+   * @returns {Promise<string>} Path of the file
+   */
+  private async prepareFile(bytes: number): Promise<string> {
+    const today = this.today();
+    if (today !== this.currentDate) {
+      this.currentDate = today;
+      this.currentIndex = await this.latestIndex(today);
+      this.currentSize = await this.fileSize(this.fileName(today, this.currentIndex));
+      await this.purgeExpired();
+    }
+
+    if (this.currentSize > 0 && this.currentSize + bytes > MAX_FILE_BYTES) {
+      this.currentIndex++;
+      this.currentSize = 0;
+      await this.purgeExpired();
+    }
+
+    return this.fileName(this.currentDate, this.currentIndex);
+  }
+
+  /**
+   * Finds the highest file index already written for a day, so restarts keep appending to it
+   * @async
+   * @param {string} date - The day, as YYYY-MM-DD
+   * @returns {Promise<number>} The index
+   */
+  private async latestIndex(date: string): Promise<number> {
+    const pattern = new RegExp(`^${LOG_FILE_PREFIX}${date}(?:\\.(\\d+))?\\.log$`);
+    const files = await fs.promises.readdir(LOG_DIR).catch(() => [] as string[]);
+    return files.reduce((latest, file) => {
+      const match = pattern.exec(file);
+      return match ? Math.max(latest, Number(match[1] ?? 0)) : latest;
+    }, 0);
+  }
+
+  /**
+   * Reads a file's size
+   * @async
+   * @param {string} file - Path of the file
+   * @returns {Promise<number>} The size in bytes, 0 if it doesn't exist
+   */
+  private async fileSize(file: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(file)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Deletes log files not modified within the retention period
+   * @async
+   * @returns {Promise<void>}
+   */
+  private async purgeExpired(): Promise<void> {
+    const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+    const files = await fs.promises.readdir(LOG_DIR).catch(() => [] as string[]);
+
+    for (const file of files) {
+      if (!file.startsWith(LOG_FILE_PREFIX) || !file.endsWith('.log')) {
+        continue;
+      }
+      const filePath = path.join(LOG_DIR, file);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        if (stats.mtimeMs < cutoff) {
+          await fs.promises.unlink(filePath);
+        }
+      } catch {
+        // Deleted by another process in the meantime
+      }
+    }
+  }
+
+  /**
+   * Builds the path of a log file
+   * @param {string} date - The day, as YYYY-MM-DD
+   * @param {number} index - The file's index within the day
+   * @returns {string} The path
+   */
+  private fileName(date: string, index: number): string {
+    return path.join(LOG_DIR, `${LOG_FILE_PREFIX}${date}${index > 0 ? `.${index}` : ''}.log`);
+  }
+
+  /**
+   * Gets the current UTC day
+   * @returns {string} The day, as YYYY-MM-DD
+   */
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
 }
 
-export const logger = {
-  info: (message: string, data?: any) => {
-    const logMessage = formatLogMessage('INFO', message, data);
-    console.log(message, data || '');
-    fs.appendFileSync(path.join(LOG_DIR, getLogFileName()), logMessage);
-  },
+const globalForLogger = globalThis as unknown as {
+  logFileWriter: LogFileWriter | undefined;
+};
 
-  error: (message: string, error?: any) => {
-    const logMessage = formatLogMessage('ERROR', message, error);
-    console.error(message, error || '');
-    fs.appendFileSync(path.join(LOG_DIR, getLogFileName()), logMessage);
-  },
+/**
+ * Gets the shared file writer, so module reloads don't open a second writer on the same files
+ * @returns {LogFileWriter | null} The writer, null when file logging is disabled
+ */
+function getFileWriter(): LogFileWriter | null {
+  if (!FILE_LOGGING) {
+    return null;
+  }
+  globalForLogger.logFileWriter ??= new LogFileWriter();
+  return globalForLogger.logFileWriter;
+}
 
-  debug: (message: string, data?: any) => {
-    const logMessage = formatLogMessage('DEBUG', message, data);
-    console.debug(message, data || '');
-    fs.appendFileSync(path.join(LOG_DIR, getLogFileName()), logMessage);
+/**
+ * Converts errors into plain objects so they survive JSON serialization, keeping the
+ * status, method and URL of failed HTTP requests such as Discord API errors
+ * @param {unknown} value - The field value
+ * @returns {unknown} The serializable value
+ */
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    const { code, status, method, url } = value as Error & { code?: unknown; status?: unknown; method?: unknown; url?: unknown };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(code !== undefined && { code }),
+      ...(status !== undefined && { status }),
+      ...(method !== undefined && { method }),
+      ...(url !== undefined && { url }),
+      stack: value.stack,
+    };
   }
-}; 
\ No newline at end of file
+  return value;
+}
+
+/**
+ * Serializes an entry, falling back to the message alone if a field can't be serialized
+ * @param {Record<string, unknown>} entry - The entry
+ * @returns {string} The JSON line
+ */
+function serializeEntry(entry: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(entry, (_key, value) => typeof value === 'bigint' ? value.toString() : serializeValue(value));
+  } catch (error) {
+    return JSON.stringify({
+      time: entry.time,
+      level: entry.level,
+      msg: entry.msg,
+      serializationError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Creates a logger with fixed context fields
+ * @param {LogContext} context - Fields added to every entry
+ * @returns {Logger} The logger
+ */
+function createLogger(context: LogContext): Logger {
+  /**
+   * Writes an entry at a level if the level is enabled
+   * @param {LogLevel} level - The entry's level
+   * @param {string} message - The message
+   * @param {LogContext} [fields] - Additional fields
+   */
+  const log = (level: LogLevel, message: string, fields?: LogContext) => {
+    if (LEVELS[level] < LEVELS[MIN_LEVEL]) {
+      return;
+    }
+
+    // Caller fields go first so one named time, level or msg can't overwrite the entry's own
+    const line = serializeEntry({
+      ...context,
+      ...fields,
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+    });
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+    getFileWriter()?.write(line);
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+    child: (childContext) => createLogger({ ...context, ...childContext }),
+  };
+}
+
+/**
+ * Root application logger
+ * @type {Logger}
+ */
+export const logger = createLogger({});
+
+/**
+ * Writes buffered log lines to disk
+ * @async
+ * @returns {Promise<void>}
+ */
+export async function flushLogs(): Promise<void> {
+  await getFileWriter()?.flush();
+}
@@ -0,0 +1,23 @@
+/**
+ * @file vitest.config.ts
+ * @description Vitest configuration for unit and offline integration tests
+ */
+
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      LOG_TO_FILE: 'false',
+      LOG_LEVEL: 'error',
+    },
+  },
+});